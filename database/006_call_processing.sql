@@ -0,0 +1,32 @@
+-- ============================================================================
+-- Migration 006: Post-Call Processing State
+-- ============================================================================
+-- Purpose: Track the post-call analysis pipeline on each call
+--
+-- When a call ends, src/lib/call-processor.ts derives the summary, sentiment,
+-- resolution status, tags and action items from the transcript. These columns
+-- record where each call is in that pipeline so failed runs can be retried:
+-- - processing_status: pending -> processing -> completed | failed
+-- - processing_attempts: incremented every time a run claims the call
+-- - processing_error: last failure message (cleared on success)
+-- - processing_started_at: lets a sweep reclaim runs that died mid-flight
+-- - action_items: follow-ups extracted for the merchant
+-- ============================================================================
+
+ALTER TABLE calls
+  ADD COLUMN IF NOT EXISTS processing_status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (processing_status IN ('pending', 'processing', 'completed', 'failed')),
+  ADD COLUMN IF NOT EXISTS processing_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS processing_error TEXT,
+  ADD COLUMN IF NOT EXISTS processing_started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS processed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS action_items JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Retry sweeps only look at unfinished calls
+CREATE INDEX IF NOT EXISTS idx_calls_processing_pending
+  ON calls(processing_status, ended_at)
+  WHERE processing_status <> 'completed';
+
+-- Calls recorded before this migration were never analyzed
+UPDATE calls SET processing_status = 'pending' WHERE summary IS NULL;
+UPDATE calls SET processing_status = 'completed', processed_at = NOW() WHERE summary IS NOT NULL;
@@ -0,0 +1,71 @@
+-- ============================================================================
+-- Migration 007: Call Minute Usage Tracking
+-- ============================================================================
+-- Purpose: Meter ended calls against the shop's plan quota
+--
+-- src/lib/billing-guard.ts calls record_call_usage() for every ended call.
+-- Usage is billed as a delta against calls.billed_minutes, so duplicate or
+-- late webhook deliveries never double-count and a longer final duration
+-- only adds the difference.
+--
+-- - calls.billed_minutes: minutes already added to the shop's usage
+-- - shops.billing_period_start: start of the current monthly usage period
+-- - shops.usage_alert_level: highest warning threshold already raised (0/80/100)
+-- ============================================================================
+
+ALTER TABLE calls
+  ADD COLUMN IF NOT EXISTS billed_minutes INTEGER;
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS billing_period_start TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS usage_alert_level SMALLINT NOT NULL DEFAULT 0;
+
+UPDATE shops SET billing_period_start = COALESCE(installed_at, NOW()) WHERE billing_period_start IS NULL;
+
+-- ============================================================================
+-- record_call_usage: bill a call's minutes to its shop atomically
+-- ============================================================================
+-- Minutes are rounded up per call. Active subscriptions roll into a new
+-- monthly period (resetting usage and alerts) before the call is added;
+-- trials never roll over. Returns no row when there is nothing new to bill.
+CREATE OR REPLACE FUNCTION record_call_usage(p_call_id UUID)
+RETURNS TABLE (billed_shop_id UUID, minutes_added INTEGER, minutes_used INTEGER) AS $$
+DECLARE
+  v_shop_id UUID;
+  v_delta INTEGER;
+BEGIN
+  -- Lock the call so concurrent deliveries of the same event serialize here
+  SELECT c.shop_id, CEIL(c.duration_seconds / 60.0)::INTEGER - COALESCE(c.billed_minutes, 0)
+  INTO v_shop_id, v_delta
+  FROM calls c
+  WHERE c.id = p_call_id
+  FOR UPDATE;
+
+  IF v_shop_id IS NULL OR v_delta <= 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE calls c
+  SET billed_minutes = COALESCE(c.billed_minutes, 0) + v_delta
+  WHERE c.id = p_call_id;
+
+  -- Roll active subscriptions into the current monthly period
+  UPDATE shops s
+  SET call_minutes_used = 0,
+      usage_alert_level = 0,
+      billing_period_start = s.billing_period_start + INTERVAL '1 month' * (
+        EXTRACT(YEAR FROM AGE(NOW(), s.billing_period_start)) * 12
+        + EXTRACT(MONTH FROM AGE(NOW(), s.billing_period_start))
+      )::INTEGER
+  WHERE s.id = v_shop_id
+    AND s.subscription_status = 'active'
+    AND s.billing_period_start + INTERVAL '1 month' <= NOW();
+
+  RETURN QUERY
+  UPDATE shops s
+  SET call_minutes_used = COALESCE(s.call_minutes_used, 0) + v_delta,
+      updated_at = NOW()
+  WHERE s.id = v_shop_id
+  RETURNING s.id, v_delta, s.call_minutes_used;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,21 @@
+-- ============================================================================
+-- Migration 008: Shopify Billing API Subscriptions
+-- ============================================================================
+-- Purpose: Track the app subscription a merchant approved in Shopify
+--
+-- src/lib/billing/subscriptions.ts writes these when a subscription is
+-- confirmed or changes (APP_SUBSCRIPTIONS_UPDATE webhook).
+--
+-- - shops.subscription_id: AppSubscription GID of the current subscription
+--   (the column predates this migration in 001_initial_schema.sql)
+-- - shops.subscription_line_item_id: usage-pricing line item that overage
+--   minutes are charged to with appUsageRecordCreate
+-- ============================================================================
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS subscription_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS subscription_line_item_id VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_shops_subscription_id
+  ON shops(subscription_id)
+  WHERE subscription_id IS NOT NULL;
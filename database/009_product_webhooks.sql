@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Migration 009: Product Catalog Webhooks
+-- ============================================================================
+-- Purpose: Keep the local products table in sync from products/* and
+-- inventory_levels/update webhooks
+--
+-- - products (shop_id, shopify_product_id) becomes unique so webhook upserts
+--   update the existing row instead of inserting duplicates
+-- - products.shopify_updated_at: Shopify's updated_at for the stored version,
+--   so out-of-order deliveries never overwrite newer data
+-- - webhook_events: one row per X-Shopify-Webhook-Id so redeliveries of an
+--   already handled webhook are skipped
+-- ============================================================================
+
+-- Keep the newest row for any product that was inserted twice
+DELETE FROM products p
+USING products newer
+WHERE p.shop_id = newer.shop_id
+  AND p.shopify_product_id = newer.shopify_product_id
+  AND (p.updated_at, p.id) < (newer.updated_at, newer.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_shop_shopify_id
+  ON products(shop_id, shopify_product_id);
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS shopify_updated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  webhook_id VARCHAR(255) PRIMARY KEY,
+  shop_domain VARCHAR(255) NOT NULL,
+  topic VARCHAR(100) NOT NULL,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- For pruning old events
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received_at ON webhook_events(received_at);
+
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages webhook_events" ON webhook_events
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT ALL ON webhook_events TO service_role;
@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Migration 010: Uninstall Cleanup
+-- ============================================================================
+-- Purpose: Release Vapi resources and purge shop data after app/uninstalled
+--
+-- src/lib/shop-uninstall.ts runs the cleanup. Each step is recorded in
+-- shops.cleanup_state when it succeeds, so a failed run resumes from the
+-- steps that are still outstanding (webhook retry or the cron sweep).
+--
+-- - shops.uninstalled_at: when the app/uninstalled webhook arrived
+-- - shops.purge_after: end of the retention window; the shop row (and its
+--   calls and products, via ON DELETE CASCADE) is deleted after this
+-- - shops.cleanup_state: completed step names mapped to completion times
+-- - shops.cleanup_error: last step failure, for support
+-- - audit_log: uninstall events; kept after the shop row is deleted
+-- ============================================================================
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS uninstalled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS purge_after TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS cleanup_state JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS cleanup_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_shops_uninstalled
+  ON shops(purge_after)
+  WHERE uninstalled_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- No foreign key: entries outlive the shop they describe
+  shop_id UUID,
+  shop_domain VARCHAR(255) NOT NULL,
+  event VARCHAR(100) NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_shop_domain ON audit_log(shop_domain, created_at DESC);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages audit_log" ON audit_log
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT ALL ON audit_log TO service_role;
@@ -0,0 +1,37 @@
+-- ============================================================================
+-- Migration 011: GDPR Compliance Requests
+-- ============================================================================
+-- Purpose: Evidence log for Shopify's mandatory compliance webhooks
+--
+-- src/lib/gdpr.ts writes one row per customers/data_request,
+-- customers/redact and shop/redact delivery, with what was exported or
+-- removed. Rows have no foreign key so they outlive shop/redact.
+--
+-- - export: the customer's call data for data requests. Cleared when the
+--   customer (or shop) is later redacted, so no PII is kept here.
+-- - result: counts of affected rows, safe to keep indefinitely
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS gdpr_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shop_domain VARCHAR(255) NOT NULL,
+  topic VARCHAR(50) NOT NULL,
+  shopify_customer_id VARCHAR(255),
+  shopify_request_id VARCHAR(255),
+  export JSONB,
+  result JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_gdpr_requests_shop ON gdpr_requests(shop_domain, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_gdpr_requests_customer
+  ON gdpr_requests(shop_domain, shopify_customer_id)
+  WHERE shopify_customer_id IS NOT NULL;
+
+ALTER TABLE gdpr_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages gdpr_requests" ON gdpr_requests
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT ALL ON gdpr_requests TO service_role;
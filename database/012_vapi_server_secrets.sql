@@ -0,0 +1,23 @@
+-- ============================================================================
+-- Migration 012: Per-Shop Vapi Server Secrets
+-- ============================================================================
+-- Purpose: Stop sending the app's Vapi API key to tool endpoints
+--
+-- Each assistant gets its own serverUrlSecret at provisioning time; only its
+-- SHA-256 hash is stored. src/lib/vapi/server-secrets.ts checks requests
+-- against it and rotates it.
+--
+-- - vapi_server_secret_hash: hash of the secret the assistant currently sends
+-- - vapi_previous_server_secret_hash: hash of the secret replaced by the last
+--   rotation, accepted until vapi_previous_server_secret_expires_at
+-- - vapi_server_secret_rotated_at: when the secret was last rotated
+--
+-- Shops provisioned before this migration have no hash; their assistants
+-- still send VAPI_API_KEY, which is accepted until they are rotated.
+-- ============================================================================
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS vapi_server_secret_hash VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS vapi_previous_server_secret_hash VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS vapi_previous_server_secret_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS vapi_server_secret_rotated_at TIMESTAMP WITH TIME ZONE;
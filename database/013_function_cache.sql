@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Migration 013: Vapi Function Result Cache
+-- ============================================================================
+-- Purpose: Shared tier of the tool-call result cache
+--
+-- src/lib/vapi/function-cache.ts keeps recent results in memory and, when
+-- FUNCTION_CACHE_PERSIST=true, here as well so every server instance can
+-- answer repeat questions without going to Shopify.
+--
+-- - cache_key: shop, tool and normalized parameters; rewritten in place when
+--   the same lookup is cached again
+-- - expires_at: entries past this are ignored on read
+-- - All of a shop's rows are deleted when its products/* or
+--   inventory_levels/update webhooks arrive
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS function_cache (
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  cache_key TEXT NOT NULL,
+  tool VARCHAR(100) NOT NULL,
+  result JSONB NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (shop_id, cache_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_function_cache_expires_at ON function_cache(expires_at);
+
+ALTER TABLE function_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages function_cache" ON function_cache
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT ALL ON function_cache TO service_role;
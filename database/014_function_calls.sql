@@ -0,0 +1,37 @@
+-- ============================================================================
+-- Migration 014: Function Call Log
+-- ============================================================================
+-- Purpose: Per-invocation record of assistant tool calls for the tool
+-- performance dashboard
+--
+-- src/lib/vapi/function-logger.ts writes one row per tool call run through
+-- the tool registry. Phone numbers and emails in parameters are masked
+-- before they are stored.
+--
+-- - latency_ms: handler time, or lookup time for cache hits
+-- - result_bytes: size of the JSON result sent back to Vapi
+-- - error_code: null on success, e.g. invalid_parameters or exception
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS function_calls (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  vapi_call_id VARCHAR(255),
+  tool VARCHAR(100) NOT NULL,
+  parameters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  result_bytes INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  error_code VARCHAR(100),
+  cache_hit BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_function_calls_shop_created
+  ON function_calls(shop_id, created_at DESC);
+
+ALTER TABLE function_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages function_calls" ON function_calls
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT ALL ON function_calls TO service_role;
@@ -0,0 +1,101 @@
+-- ============================================================================
+-- Migration 015: Fuzzy Product Search
+-- ============================================================================
+-- Purpose: Search the synced products table with the misspellings and
+-- mispronunciations speech-to-text produces ("sneekers", "nikey")
+--
+-- src/lib/product-search.ts normalizes the caller's words (number words,
+-- filler, synonyms) and calls search_products_fuzzy() with every variant.
+--
+-- - products.search_text: lowercased title, vendor and product type, for
+--   trigram similarity
+-- - products.search_phonetic: Double Metaphone code of each word in the
+--   title and vendor, so words that sound alike match
+-- - products.popularity: how often callers asked about the product; a small
+--   ranking boost between equally relevant results
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS fuzzystrmatch;
+
+-- Double Metaphone code of each word containing a letter
+CREATE OR REPLACE FUNCTION phonetic_keys(p_text TEXT)
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT dmetaphone(word)) FILTER (WHERE dmetaphone(word) <> ''), '{}')
+  FROM regexp_split_to_table(lower(COALESCE(p_text, '')), '[^a-z0-9]+') AS word
+  WHERE word ~ '[a-z]'
+$$ LANGUAGE sql IMMUTABLE SET search_path = public, extensions;
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS popularity INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS search_text TEXT GENERATED ALWAYS AS (
+    lower(
+      title || ' ' || COALESCE(variants->>'vendor', '') || ' ' || COALESCE(variants->>'productType', '')
+    )
+  ) STORED,
+  ADD COLUMN IF NOT EXISTS search_phonetic TEXT[] GENERATED ALWAYS AS (
+    phonetic_keys(title || ' ' || COALESCE(variants->>'vendor', ''))
+  ) STORED;
+
+-- ============================================================================
+-- search_products_fuzzy: rank a shop's products against spoken query variants
+-- ============================================================================
+-- Each term scores 70% trigram similarity (the better of whole-string and
+-- word similarity) and 30% the share of its phonetic codes found in the
+-- product. A product keeps its best term's score; popularity adds at most
+-- 0.1 on top. Products below p_min_relevance are left out.
+-- Scores every product in the shop (idx_products_shop_id): phonetic matches
+-- can have too little trigram overlap for a trigram index to find them.
+CREATE OR REPLACE FUNCTION search_products_fuzzy(
+  p_shop_id UUID,
+  p_terms TEXT[],
+  p_limit INTEGER DEFAULT 5,
+  p_min_relevance REAL DEFAULT 0.3
+)
+RETURNS TABLE (product JSONB, relevance REAL, score REAL) AS $$
+  WITH terms AS (
+    SELECT term, phonetic_keys(term) AS keys
+    FROM unnest(p_terms) AS term
+    WHERE btrim(term) <> ''
+  ),
+  scored AS (
+    SELECT
+      p.id,
+      MAX(
+        0.7 * GREATEST(similarity(t.term, p.search_text), word_similarity(t.term, p.search_text))
+        + 0.3 * CASE
+            WHEN cardinality(t.keys) = 0 THEN 0
+            ELSE (
+              SELECT COUNT(*) FROM unnest(t.keys) AS k WHERE k = ANY(p.search_phonetic)
+            )::REAL / cardinality(t.keys)
+          END
+      ) AS relevance
+    FROM products p
+    CROSS JOIN terms t
+    WHERE p.shop_id = p_shop_id
+    GROUP BY p.id
+  )
+  SELECT
+    to_jsonb(p) - 'search_text' - 'search_phonetic',
+    s.relevance::REAL,
+    (s.relevance + LEAST(0.1, ln(1 + GREATEST(p.popularity, 0)) * 0.02))::REAL
+  FROM scored s
+  JOIN products p ON p.id = s.id
+  WHERE s.relevance >= p_min_relevance
+  ORDER BY 3 DESC, p.title
+  LIMIT p_limit
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
+
+-- ============================================================================
+-- record_product_interest: count a caller asking about products
+-- ============================================================================
+CREATE OR REPLACE FUNCTION record_product_interest(p_shop_id UUID, p_shopify_product_ids TEXT[])
+RETURNS VOID AS $$
+  UPDATE products
+  SET popularity = popularity + 1
+  WHERE shop_id = p_shop_id
+    AND shopify_product_id = ANY(p_shopify_product_ids)
+$$ LANGUAGE sql;
+
+GRANT EXECUTE ON FUNCTION search_products_fuzzy(UUID, TEXT[], INTEGER, REAL) TO service_role;
+GRANT EXECUTE ON FUNCTION record_product_interest(UUID, TEXT[]) TO service_role;
@@ -0,0 +1,57 @@
+-- ============================================================================
+-- Migration 016: Product Sync Runs
+-- ============================================================================
+-- Purpose: Record catalog syncs so they can resume where they stopped
+--
+-- src/lib/product-sync.ts works through a run in time-boxed slices. After
+-- each page it saves a checkpoint here, so a run cut off by a function
+-- timeout carries on from its last page on the next slice instead of
+-- starting over.
+--
+-- - mode: full (every active product), delta (products updated since the
+--   last completed run) or bulk (Shopify Bulk Operations, for large catalogs)
+-- - status: pending -> running -> completed | failed; a slice that runs out
+--   of time puts the run back to pending
+-- - cursor: GraphQL endCursor of the last page saved (full and delta)
+-- - bulk_operation_id: the Shopify BulkOperation being waited on (bulk)
+-- - processed / failed: products saved and products that couldn't be;
+--   together they're the resume offset in a bulk export file
+-- - heartbeat_at: updated with every checkpoint, so runs whose slice died
+--   can be reclaimed
+-- - At most one pending or running run per shop
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS product_sync_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  mode VARCHAR(10) NOT NULL CHECK (mode IN ('full', 'delta', 'bulk')),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  cursor TEXT,
+  updated_since TIMESTAMP WITH TIME ZONE,
+  bulk_operation_id TEXT,
+  total_estimate INTEGER,
+  processed INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  removed INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  heartbeat_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_sync_runs_shop_created
+  ON product_sync_runs(shop_id, created_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_sync_runs_one_active
+  ON product_sync_runs(shop_id)
+  WHERE status IN ('pending', 'running');
+
+ALTER TABLE product_sync_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages product_sync_runs" ON product_sync_runs
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT ALL ON product_sync_runs TO service_role;
@@ -0,0 +1,50 @@
+-- ============================================================================
+-- Migration 017: Shop Currency and Product Price Units
+-- ============================================================================
+-- Purpose: Quote prices in the shop's own currency and locale, and store
+-- product prices in the unit the column declares
+--
+-- - shops.currency: ISO 4217 code of the shop's store currency, from Shopify
+-- - shops.locale: BCP 47 locale prices are formatted in, e.g. en-US, fr-CA
+-- - products.price was declared DECIMAL(10, 2) but written in cents. Prices
+--   (including variants.items[].price) are converted to amounts in the
+--   product's currency, and the column gets a third decimal place for
+--   currencies such as KWD. The conversion only runs while the column still
+--   has its old scale, so re-running this migration is safe.
+-- ============================================================================
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS locale VARCHAR(20) NOT NULL DEFAULT 'en-US';
+
+DO $$
+BEGIN
+  IF (
+    SELECT numeric_scale
+    FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'products' AND column_name = 'price'
+  ) = 2 THEN
+    ALTER TABLE products ALTER COLUMN price TYPE DECIMAL(14, 3);
+
+    UPDATE products SET price = price / 100 WHERE price IS NOT NULL;
+
+    UPDATE products
+    SET variants = jsonb_set(
+      variants,
+      '{items}',
+      (
+        SELECT jsonb_agg(
+          CASE
+            WHEN jsonb_typeof(item->'price') = 'number'
+              THEN jsonb_set(item, '{price}', to_jsonb((item->>'price')::NUMERIC / 100))
+            ELSE item
+          END
+          ORDER BY position
+        )
+        FROM jsonb_array_elements(variants->'items') WITH ORDINALITY AS entry(item, position)
+      )
+    )
+    WHERE jsonb_typeof(variants->'items') = 'array'
+      AND jsonb_array_length(variants->'items') > 0;
+  END IF;
+END $$;
@@ -0,0 +1,95 @@
+-- ============================================================================
+-- Migration 018: Shared Rate Limit Counters
+-- ============================================================================
+-- Purpose: Rate limits that hold across every server instance
+--
+-- src/lib/rate-limiter.ts counts requests in memory by default, which on
+-- serverless means per instance. With RATE_LIMIT_PERSIST=true it counts here
+-- instead, through rate_limit_hit().
+--
+-- - One row per limiter key and fixed window (window_start, epoch ms)
+-- - Sliding limits weight the previous window's count by how much of it
+--   still overlaps the sliding window (the sliding window counter method)
+-- - Rejected requests aren't counted
+-- - Rows are removed once they can no longer affect a decision
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  key TEXT NOT NULL,
+  window_start BIGINT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_expires_at ON rate_limit_counters(expires_at);
+
+ALTER TABLE rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages rate_limit_counters" ON rate_limit_counters
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT ALL ON rate_limit_counters TO service_role;
+
+-- ============================================================================
+-- rate_limit_hit: count one request against a limit, atomically
+-- ============================================================================
+-- Concurrent hits on a key queue on its current window row, so the check
+-- and the increment can't interleave. Returns whether the request is
+-- allowed, the weighted count after it, and when the current window ends.
+CREATE OR REPLACE FUNCTION rate_limit_hit(
+  p_key TEXT,
+  p_limit INTEGER,
+  p_window_ms INTEGER,
+  p_sliding BOOLEAN DEFAULT true
+)
+RETURNS TABLE (allowed BOOLEAN, current_count REAL, reset_at BIGINT) AS $$
+DECLARE
+  v_now BIGINT := (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT;
+  v_window_start BIGINT := v_now - (v_now % p_window_ms);
+  v_count INTEGER;
+  v_previous INTEGER := 0;
+  v_weighted REAL;
+BEGIN
+  INSERT INTO rate_limit_counters (key, window_start, count, expires_at)
+  VALUES (
+    p_key,
+    v_window_start,
+    0,
+    to_timestamp((v_window_start + 2 * p_window_ms) / 1000.0)
+  )
+  ON CONFLICT (key, window_start) DO NOTHING;
+
+  SELECT c.count INTO v_count
+  FROM rate_limit_counters c
+  WHERE c.key = p_key AND c.window_start = v_window_start
+  FOR UPDATE;
+
+  IF p_sliding THEN
+    SELECT c.count INTO v_previous
+    FROM rate_limit_counters c
+    WHERE c.key = p_key AND c.window_start = v_window_start - p_window_ms;
+    v_previous := COALESCE(v_previous, 0);
+  END IF;
+
+  v_weighted := v_previous * (1 - (v_now - v_window_start)::REAL / p_window_ms) + v_count;
+
+  IF v_weighted + 1 > p_limit THEN
+    RETURN QUERY SELECT false, v_weighted, v_window_start + p_window_ms;
+    RETURN;
+  END IF;
+
+  UPDATE rate_limit_counters c
+  SET count = c.count + 1
+  WHERE c.key = p_key AND c.window_start = v_window_start;
+
+  -- Occasional sweep of windows nothing reads any more
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_counters WHERE expires_at < NOW();
+  END IF;
+
+  RETURN QUERY SELECT true, v_weighted + 1, v_window_start + p_window_ms;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION rate_limit_hit(TEXT, INTEGER, INTEGER, BOOLEAN) TO service_role;
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- Migration 019: Function Call Query Cost
+-- ============================================================================
+-- Purpose: Record the Shopify GraphQL cost of each assistant tool call
+--
+-- src/lib/vapi/tools.ts adds up the actualQueryCost Shopify reports for every
+-- Admin GraphQL query a tool call makes (src/lib/shopify/graphql-throttle.ts)
+-- and the function call log stores the total, so expensive tools show up on
+-- the tool performance dashboard.
+--
+-- - query_cost: cost points spent; 0 for calls answered locally or from the
+--   cache, null for calls logged before this migration
+-- ============================================================================
+
+ALTER TABLE function_calls
+  ADD COLUMN IF NOT EXISTS query_cost INTEGER;
@@ -0,0 +1,133 @@
+-- ============================================================================
+-- Migration 020: Vapi Spend Tracking
+-- ============================================================================
+-- Purpose: Roll up what each shop's calls cost us in Vapi charges, per day,
+-- so spend can be checked against budgets and plan revenue
+--
+-- src/lib/spend.ts calls record_call_spend() for every ended call, after
+-- calls.cost_cents has been filled in from the end-of-call report. Like
+-- record_call_usage(), spend is added as a delta against
+-- calls.spend_recorded_cents, so duplicate or late reports never
+-- double-count and a revised cost only adds the difference.
+--
+-- - calls.spend_recorded_cents: cost already added to shop_daily_spend
+-- - shop_daily_spend: cost and call count per shop per UTC day (the day the
+--   call started)
+-- - spend_by_plan(): spend per plan and subscription status, for the
+--   margin report
+-- ============================================================================
+
+ALTER TABLE calls
+  ADD COLUMN IF NOT EXISTS spend_recorded_cents INTEGER;
+
+CREATE TABLE IF NOT EXISTS shop_daily_spend (
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  calls INTEGER NOT NULL DEFAULT 0,
+  cost_cents INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (shop_id, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shop_daily_spend_day ON shop_daily_spend(day);
+
+ALTER TABLE shop_daily_spend ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages shop_daily_spend" ON shop_daily_spend
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT ALL ON shop_daily_spend TO service_role;
+
+-- ============================================================================
+-- record_call_spend: add a call's cost to its shop's daily spend atomically
+-- ============================================================================
+-- Returns the cost added, the spend for the call's day and the spend since
+-- the shop's billing period started, both including this call. Returns no
+-- row when there is nothing new to add.
+CREATE OR REPLACE FUNCTION record_call_spend(p_call_id UUID)
+RETURNS TABLE (
+  spend_shop_id UUID,
+  spend_day DATE,
+  cents_added INTEGER,
+  day_cents INTEGER,
+  period_cents INTEGER
+) AS $$
+DECLARE
+  v_shop_id UUID;
+  v_delta INTEGER;
+  v_first BOOLEAN;
+  v_day DATE;
+  v_period_day DATE;
+BEGIN
+  -- Lock the call so concurrent deliveries of the same report serialize here
+  SELECT
+    c.shop_id,
+    COALESCE(c.cost_cents, 0) - COALESCE(c.spend_recorded_cents, 0),
+    c.spend_recorded_cents IS NULL,
+    (COALESCE(c.started_at, c.created_at) AT TIME ZONE 'UTC')::DATE
+  INTO v_shop_id, v_delta, v_first, v_day
+  FROM calls c
+  WHERE c.id = p_call_id
+  FOR UPDATE;
+
+  IF v_shop_id IS NULL OR v_delta <= 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE calls c
+  SET spend_recorded_cents = COALESCE(c.spend_recorded_cents, 0) + v_delta
+  WHERE c.id = p_call_id;
+
+  INSERT INTO shop_daily_spend (shop_id, day, calls, cost_cents)
+  VALUES (v_shop_id, v_day, CASE WHEN v_first THEN 1 ELSE 0 END, v_delta)
+  ON CONFLICT (shop_id, day) DO UPDATE
+  SET calls = shop_daily_spend.calls + EXCLUDED.calls,
+      cost_cents = shop_daily_spend.cost_cents + EXCLUDED.cost_cents,
+      updated_at = NOW();
+
+  SELECT (COALESCE(s.billing_period_start, s.installed_at) AT TIME ZONE 'UTC')::DATE
+  INTO v_period_day
+  FROM shops s
+  WHERE s.id = v_shop_id;
+
+  RETURN QUERY
+  SELECT
+    v_shop_id,
+    v_day,
+    v_delta,
+    (SELECT d.cost_cents FROM shop_daily_spend d WHERE d.shop_id = v_shop_id AND d.day = v_day),
+    (
+      SELECT COALESCE(SUM(d.cost_cents), 0)::INTEGER
+      FROM shop_daily_spend d
+      WHERE d.shop_id = v_shop_id AND d.day >= v_period_day
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION record_call_spend(UUID) TO service_role;
+
+-- ============================================================================
+-- spend_by_plan: spend per plan since a day, for the margin report
+-- ============================================================================
+-- Counts every installed shop on the plan, including those with no calls.
+CREATE OR REPLACE FUNCTION spend_by_plan(p_since DATE)
+RETURNS TABLE (
+  plan_name TEXT,
+  subscription_status TEXT,
+  shops INTEGER,
+  calls INTEGER,
+  cost_cents INTEGER
+) AS $$
+  SELECT
+    s.plan_name::TEXT,
+    s.subscription_status::TEXT,
+    COUNT(DISTINCT s.id)::INTEGER,
+    COALESCE(SUM(d.calls), 0)::INTEGER,
+    COALESCE(SUM(d.cost_cents), 0)::INTEGER
+  FROM shops s
+  LEFT JOIN shop_daily_spend d ON d.shop_id = s.id AND d.day >= p_since
+  WHERE s.uninstalled_at IS NULL
+  GROUP BY s.plan_name, s.subscription_status;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION spend_by_plan(DATE) TO service_role;
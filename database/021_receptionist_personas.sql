@@ -0,0 +1,119 @@
+-- ============================================================================
+-- Migration 021: Receptionist Persona Versions
+-- ============================================================================
+-- Purpose: Keep every version of a merchant's receptionist persona (greeting,
+-- tone, store policies, FAQs, forbidden topics)
+--
+-- src/lib/receptionist-persona.ts compiles a persona into the assistant's
+-- system prompt. Merchants edit a draft, preview the compiled prompt and
+-- publish it, which pushes it to their Vapi assistant.
+--
+-- - persona: the merchant's answers (receptionistPersonaSchema)
+-- - status: draft -> published -> archived; publishing an archived version
+--   rolls back to it
+-- - system_prompt / first_message: what was pushed to Vapi, set on publish
+-- - At most one draft and one published version per shop
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS receptionist_persona_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'published', 'archived')),
+  persona JSONB NOT NULL DEFAULT '{}'::jsonb,
+  system_prompt TEXT,
+  first_message TEXT,
+  published_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (shop_id, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_receptionist_persona_versions_one_draft
+  ON receptionist_persona_versions(shop_id)
+  WHERE status = 'draft';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_receptionist_persona_versions_one_published
+  ON receptionist_persona_versions(shop_id)
+  WHERE status = 'published';
+
+ALTER TABLE receptionist_persona_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages receptionist_persona_versions" ON receptionist_persona_versions
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT ALL ON receptionist_persona_versions TO service_role;
+
+-- ============================================================================
+-- save_persona_draft: create or replace a shop's draft
+-- ============================================================================
+-- The draft keeps its version number while it's edited; a new draft after a
+-- publish takes the next number. Locks the shop row so concurrent saves
+-- can't both create a draft.
+CREATE OR REPLACE FUNCTION save_persona_draft(p_shop_id UUID, p_persona JSONB)
+RETURNS SETOF receptionist_persona_versions AS $$
+BEGIN
+  PERFORM 1 FROM shops WHERE id = p_shop_id FOR UPDATE;
+
+  RETURN QUERY
+  UPDATE receptionist_persona_versions v
+  SET persona = p_persona, updated_at = NOW()
+  WHERE v.shop_id = p_shop_id AND v.status = 'draft'
+  RETURNING v.*;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO receptionist_persona_versions (shop_id, version, status, persona)
+  SELECT p_shop_id, COALESCE(MAX(v.version), 0) + 1, 'draft', p_persona
+  FROM receptionist_persona_versions v
+  WHERE v.shop_id = p_shop_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION save_persona_draft(UUID, JSONB) TO service_role;
+
+-- ============================================================================
+-- publish_persona_version: make a version the published one
+-- ============================================================================
+-- Archives the previously published version and records the prompt that was
+-- pushed to Vapi, in one transaction. Returns no row if the version doesn't
+-- belong to the shop.
+CREATE OR REPLACE FUNCTION publish_persona_version(
+  p_shop_id UUID,
+  p_version_id UUID,
+  p_system_prompt TEXT,
+  p_first_message TEXT
+)
+RETURNS SETOF receptionist_persona_versions AS $$
+BEGIN
+  PERFORM 1 FROM shops WHERE id = p_shop_id FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM receptionist_persona_versions v
+    WHERE v.id = p_version_id AND v.shop_id = p_shop_id
+  ) THEN
+    RETURN;
+  END IF;
+
+  UPDATE receptionist_persona_versions v
+  SET status = 'archived', updated_at = NOW()
+  WHERE v.shop_id = p_shop_id AND v.status = 'published' AND v.id <> p_version_id;
+
+  RETURN QUERY
+  UPDATE receptionist_persona_versions v
+  SET status = 'published',
+      system_prompt = p_system_prompt,
+      first_message = p_first_message,
+      published_at = NOW(),
+      updated_at = NOW()
+  WHERE v.id = p_version_id
+  RETURNING v.*;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION publish_persona_version(UUID, UUID, TEXT, TEXT) TO service_role;
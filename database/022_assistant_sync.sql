@@ -0,0 +1,27 @@
+-- ============================================================================
+-- Migration 022: Assistant Re-Sync
+-- ============================================================================
+-- Purpose: Keep each shop's Vapi assistant in step with its products,
+-- settings and persona by updating it in place instead of provisioning again
+--
+-- src/lib/assistant-sync.ts builds the assistant config the shop should have,
+-- patches the fields that differ from the live assistant and records a hash
+-- of what it applied. Catalog and settings changes request a sync rather
+-- than running one, so a burst of product webhooks becomes a single update.
+--
+-- - vapi_config_hash: SHA-256 of the assistant config last applied
+-- - vapi_config_synced_at: when it was applied
+-- - vapi_sync_requested_at: latest change waiting to be synced
+-- - vapi_sync_due_at: when the sweep should sync; set by the first request
+--   in a batch, so later requests join it instead of pushing it back
+-- ============================================================================
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS vapi_config_hash TEXT,
+  ADD COLUMN IF NOT EXISTS vapi_config_synced_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS vapi_sync_requested_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS vapi_sync_due_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_shops_vapi_sync_due_at
+  ON shops(vapi_sync_due_at)
+  WHERE vapi_sync_due_at IS NOT NULL;
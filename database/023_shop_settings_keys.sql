@@ -0,0 +1,33 @@
+-- ============================================================================
+-- Migration 023: Single-Key Shop Settings Updates
+-- ============================================================================
+-- Purpose: Let concurrent writers change different parts of shops.settings
+-- without overwriting each other
+--
+-- Settings saves, spend pauses and voicemail-only mode each own one key
+-- (transfer, spend_budget, spend_pause, quota_mode). Writing the whole JSON
+-- back after merging in memory loses whichever write lands first; these
+-- updates change only the key they name, in a single statement.
+-- ============================================================================
+
+-- ============================================================================
+-- set_shop_setting: set or remove one key (or nested path) of shops.settings
+-- ============================================================================
+-- A NULL value removes the key. Nested paths (e.g. {quota_mode,saved}) are
+-- set inside their parent object; a missing parent is left as it is.
+CREATE OR REPLACE FUNCTION set_shop_setting(p_shop_id UUID, p_path TEXT[], p_value JSONB)
+RETURNS SETOF shops AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE shops s
+  SET settings = CASE
+        WHEN p_value IS NULL THEN COALESCE(s.settings, '{}'::jsonb) #- p_path
+        ELSE jsonb_set(COALESCE(s.settings, '{}'::jsonb), p_path, p_value, true)
+      END,
+      updated_at = NOW()
+  WHERE s.id = p_shop_id
+  RETURNING s.*;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION set_shop_setting(UUID, TEXT[], JSONB) TO service_role;
@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Migration 024: Call List Order
+-- ============================================================================
+-- Purpose: Give every call a non-null position in the call list so keyset
+-- pagination neither skips nor repeats calls
+--
+-- Calls are listed newest first by start time, but a call can be stored
+-- before Vapi reports when it started (started_at NULL). listed_at falls
+-- back to when the row was created; GET /api/calls filters, orders and pages on
+-- (listed_at, id).
+-- ============================================================================
+
+ALTER TABLE calls
+  ADD COLUMN IF NOT EXISTS listed_at TIMESTAMP WITH TIME ZONE
+    GENERATED ALWAYS AS (COALESCE(started_at, created_at)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_calls_shop_listed
+  ON calls(shop_id, listed_at DESC, id DESC);
@@ -0,0 +1,223 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  EmptyState,
+  IndexTable,
+  Select,
+  Badge,
+  Banner,
+  BlockStack,
+  InlineStack,
+} from '@shopify/polaris';
+
+interface ToolPerformance {
+  tool: string;
+  calls: number;
+  errors: number;
+  errorRate: number;
+  cacheHitRate: number;
+  p50LatencyMs: number;
+  p95LatencyMs: number;
+  avgResultBytes: number;
+  avgQueryCost: number;
+  totalQueryCost: number;
+  errorCodes: Record<string, number>;
+}
+
+interface FunctionPerformance {
+  since: string;
+  totalCalls: number;
+  truncated: boolean;
+  overall: Omit<ToolPerformance, 'tool' | 'errorCodes'>;
+  tools: ToolPerformance[];
+  topQueries: Array<{ tool: string; query: string; count: number }>;
+}
+
+const WINDOW_OPTIONS = [
+  { label: 'Last 24 hours', value: '1' },
+  { label: 'Last 7 days', value: '7' },
+  { label: 'Last 30 days', value: '30' },
+  { label: 'Last 90 days', value: '90' },
+];
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatLatency(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+export default function FunctionPerformancePage() {
+  const [days, setDays] = useState('7');
+  const [performance, setPerformance] = useState<FunctionPerformance | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPerformance = useCallback(async (windowDays: string) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/admin/functions?days=${windowDays}`);
+      const data = await res.json();
+
+      if (data.success) {
+        setPerformance(data.data);
+      } else {
+        setError(data.error?.message || 'Failed to load tool performance');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error - could not reach API');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPerformance(days);
+  }, [days, loadPerformance]);
+
+  const tools = performance?.tools ?? [];
+  const overall = performance?.overall;
+
+  const rows = tools.map((tool, index) => (
+    <IndexTable.Row id={tool.tool} key={tool.tool} position={index}>
+      <IndexTable.Cell>
+        <Text variant="bodyMd" fontWeight="semibold" as="span">
+          {tool.tool}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>{tool.calls}</IndexTable.Cell>
+      <IndexTable.Cell>{formatLatency(tool.p50LatencyMs)}</IndexTable.Cell>
+      <IndexTable.Cell>{formatLatency(tool.p95LatencyMs)}</IndexTable.Cell>
+      <IndexTable.Cell>
+        <Badge tone={tool.errorRate >= 0.1 ? 'critical' : tool.errorRate > 0 ? 'warning' : 'success'}>
+          {formatPercent(tool.errorRate)}
+        </Badge>
+      </IndexTable.Cell>
+      <IndexTable.Cell>{formatPercent(tool.cacheHitRate)}</IndexTable.Cell>
+      <IndexTable.Cell>{tool.avgQueryCost}</IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text variant="bodySm" as="span" tone="subdued" truncate>
+          {Object.entries(tool.errorCodes)
+            .sort(([, a], [, b]) => b - a)
+            .map(([code, count]) => `${code} (${count})`)
+            .join(', ') || '—'}
+        </Text>
+      </IndexTable.Cell>
+    </IndexTable.Row>
+  ));
+
+  return (
+    <Page title="Tool performance" subtitle="Latency, errors, cache hits and Shopify query cost for your receptionist's tools">
+      <Layout>
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical" title="Could not load tool performance">
+              <p>{error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {performance?.truncated && (
+          <Layout.Section>
+            <Banner tone="info">
+              <p>Only the most recent {performance.totalCalls} calls are included. Choose a shorter window for exact figures.</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          <Card>
+            <InlineStack align="space-between" blockAlign="center" gap="400">
+              <InlineStack gap="600">
+                <BlockStack gap="100">
+                  <Text variant="bodySm" as="span" tone="subdued">Tool calls</Text>
+                  <Text variant="headingLg" as="p">{overall?.calls ?? 0}</Text>
+                </BlockStack>
+                <BlockStack gap="100">
+                  <Text variant="bodySm" as="span" tone="subdued">p50 / p95 latency</Text>
+                  <Text variant="headingLg" as="p">
+                    {formatLatency(overall?.p50LatencyMs ?? 0)} / {formatLatency(overall?.p95LatencyMs ?? 0)}
+                  </Text>
+                </BlockStack>
+                <BlockStack gap="100">
+                  <Text variant="bodySm" as="span" tone="subdued">Error rate</Text>
+                  <Text variant="headingLg" as="p">{formatPercent(overall?.errorRate ?? 0)}</Text>
+                </BlockStack>
+                <BlockStack gap="100">
+                  <Text variant="bodySm" as="span" tone="subdued">Cache hit rate</Text>
+                  <Text variant="headingLg" as="p">{formatPercent(overall?.cacheHitRate ?? 0)}</Text>
+                </BlockStack>
+              </InlineStack>
+              <Select
+                label="Window"
+                labelInline
+                options={WINDOW_OPTIONS}
+                value={days}
+                onChange={setDays}
+              />
+            </InlineStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card padding="0">
+            <IndexTable
+              resourceName={{ singular: 'tool', plural: 'tools' }}
+              itemCount={tools.length}
+              selectable={false}
+              loading={loading}
+              headings={[
+                { title: 'Tool' },
+                { title: 'Calls' },
+                { title: 'p50' },
+                { title: 'p95' },
+                { title: 'Error rate' },
+                { title: 'Cache hits' },
+                { title: 'Shopify cost / call' },
+                { title: 'Errors' },
+              ]}
+              emptyState={
+                <EmptyState
+                  heading="No tool calls yet"
+                  image="https://cdn.shopify.com/s/files/1/0262/4071/2726/t/2/assets/blank-state.svg"
+                >
+                  <Text variant="bodyMd" as="p">
+                    Product searches, order lookups and transfers your receptionist makes will appear here.
+                  </Text>
+                </EmptyState>
+              }
+            >
+              {rows}
+            </IndexTable>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section variant="oneThird">
+          <Card>
+            <BlockStack gap="300">
+              <Text variant="headingMd" as="h2">Top queries</Text>
+              {performance && performance.topQueries.length > 0 ? (
+                performance.topQueries.map(query => (
+                  <InlineStack key={`${query.tool}:${query.query}`} align="space-between">
+                    <Text variant="bodyMd" as="span">{query.query}</Text>
+                    <Text variant="bodyMd" as="span" tone="subdued">{query.count}</Text>
+                  </InlineStack>
+                ))
+              ) : (
+                <Text variant="bodyMd" as="p" tone="subdued">No product searches in this window.</Text>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,291 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  Badge,
+  Banner,
+  BlockStack,
+  InlineStack,
+  Spinner,
+  Box,
+  List,
+} from '@shopify/polaris';
+import {
+  formatCallDateTime,
+  formatDuration,
+  getSentimentColor,
+  getStatusBadge,
+  maskPhoneNumber,
+} from '@/lib/calls/utils';
+
+interface TranscriptTurn {
+  role: 'assistant' | 'customer';
+  text: string;
+  secondsFromStart: number | null;
+}
+
+interface CallDetail {
+  id: string;
+  customer_phone: string;
+  customer_name: string | null;
+  duration_seconds: number;
+  recording_url: string | null;
+  transcript: { text?: string; turns?: TranscriptTurn[] } | null;
+  summary: string | null;
+  sentiment: 'positive' | 'neutral' | 'negative';
+  resolution_status: 'resolved' | 'escalated' | 'abandoned';
+  tags: string[] | null;
+  started_at: string | null;
+  ended_at: string | null;
+  action_items: string[];
+  processing_status: 'pending' | 'processing' | 'completed' | 'failed';
+  processing_error: string | null;
+}
+
+interface CallActionItem {
+  id: string;
+  action_type: 'order_lookup' | 'product_search' | 'transfer_attempt';
+  action_data: Record<string, unknown> | null;
+  success: boolean;
+  created_at: string;
+}
+
+const ACTION_LABELS: Record<CallActionItem['action_type'], string> = {
+  order_lookup: 'Order lookup',
+  product_search: 'Product search',
+  transfer_attempt: 'Transfer attempt',
+};
+
+export default function CallDetailPage() {
+  const params = useParams<{ callId: string }>();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const [call, setCall] = useState<CallDetail | null>(null);
+  const [actions, setActions] = useState<CallActionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reprocessing, setReprocessing] = useState(false);
+
+  useEffect(() => {
+    const loadCall = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/calls/${params.callId}`);
+        const data = await res.json();
+
+        if (data.success) {
+          setCall(data.data.call);
+          setActions(data.data.actions);
+        } else {
+          setError(data.error?.message || 'Failed to load call');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Network error - could not reach API');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCall();
+  }, [params.callId]);
+
+  const reprocessCall = async () => {
+    setReprocessing(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/calls/${params.callId}/process`, { method: 'POST' });
+      const data = await res.json();
+
+      if (data.success) {
+        setCall(data.data.call);
+      } else {
+        setError(data.error?.message || 'Failed to re-run analysis');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error - could not reach API');
+    } finally {
+      setReprocessing(false);
+    }
+  };
+
+  const backToCalls = () => {
+    const query = searchParams.toString();
+    router.push(`/calls${query ? `?${query}` : ''}`);
+  };
+
+  const turns = call?.transcript?.turns ?? [];
+
+  return (
+    <Page
+      title={call?.started_at ? `Call on ${formatCallDateTime(call.started_at)}` : 'Call'}
+      backAction={{ content: 'Calls', onAction: backToCalls }}
+      secondaryActions={
+        call
+          ? [{ content: 'Re-run analysis', onAction: reprocessCall, loading: reprocessing }]
+          : []
+      }
+      titleMetadata={
+        call && (
+          <InlineStack gap="200">
+            <Badge tone={getSentimentColor(call.sentiment)}>{call.sentiment}</Badge>
+            <Badge tone={getStatusBadge(call.resolution_status)}>{call.resolution_status}</Badge>
+          </InlineStack>
+        )
+      }
+    >
+      <Layout>
+        {loading && (
+          <Layout.Section>
+            <InlineStack align="center">
+              <Spinner accessibilityLabel="Loading call" size="large" />
+            </InlineStack>
+          </Layout.Section>
+        )}
+
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical" title="Could not load call">
+              <p>{error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {call?.processing_status === 'failed' && (
+          <Layout.Section>
+            <Banner tone="warning" title="Call analysis failed">
+              <p>{call.processing_error || 'The summary could not be generated.'} It will be retried automatically.</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {call && (
+          <>
+            <Layout.Section>
+              <BlockStack gap="400">
+                <Card>
+                  <BlockStack gap="200">
+                    <Text variant="headingMd" as="h2">Summary</Text>
+                    <Text variant="bodyMd" as="p" tone={call.summary ? undefined : 'subdued'}>
+                      {call.summary || 'No summary has been generated for this call yet.'}
+                    </Text>
+                    {call.action_items.length > 0 && (
+                      <BlockStack gap="100">
+                        <Text variant="headingSm" as="h3">Follow-ups</Text>
+                        <List>
+                          {call.action_items.map(item => (
+                            <List.Item key={item}>{item}</List.Item>
+                          ))}
+                        </List>
+                      </BlockStack>
+                    )}
+                  </BlockStack>
+                </Card>
+
+                <Card>
+                  <BlockStack gap="300">
+                    <Text variant="headingMd" as="h2">Transcript</Text>
+                    {turns.length === 0 && (
+                      <Text variant="bodyMd" as="p" tone="subdued">
+                        {call.transcript?.text || 'No transcript available.'}
+                      </Text>
+                    )}
+                    {turns.map((turn, index) => (
+                      <Box
+                        key={index}
+                        padding="300"
+                        borderRadius="200"
+                        background={turn.role === 'customer' ? 'bg-surface-secondary' : 'bg-surface-info'}
+                      >
+                        <BlockStack gap="100">
+                          <InlineStack gap="200">
+                            <Text variant="bodySm" as="span" fontWeight="semibold">
+                              {turn.role === 'customer' ? 'Caller' : 'Receptionist'}
+                            </Text>
+                            {turn.secondsFromStart !== null && (
+                              <Text variant="bodySm" as="span" tone="subdued">
+                                {formatDuration(Math.floor(turn.secondsFromStart))}
+                              </Text>
+                            )}
+                          </InlineStack>
+                          <Text variant="bodyMd" as="p">{turn.text}</Text>
+                        </BlockStack>
+                      </Box>
+                    ))}
+                  </BlockStack>
+                </Card>
+              </BlockStack>
+            </Layout.Section>
+
+            <Layout.Section variant="oneThird">
+              <BlockStack gap="400">
+                <Card>
+                  <BlockStack gap="200">
+                    <Text variant="headingMd" as="h2">Details</Text>
+                    <Text variant="bodyMd" as="p">
+                      Caller: {call.customer_name || maskPhoneNumber(call.customer_phone)}
+                    </Text>
+                    <Text variant="bodyMd" as="p">
+                      Duration: {formatDuration(call.duration_seconds)}
+                    </Text>
+                    {call.tags && call.tags.length > 0 && (
+                      <InlineStack gap="100">
+                        {call.tags.map(tag => (
+                          <Badge key={tag}>{tag}</Badge>
+                        ))}
+                      </InlineStack>
+                    )}
+                  </BlockStack>
+                </Card>
+
+                <Card>
+                  <BlockStack gap="200">
+                    <Text variant="headingMd" as="h2">Recording</Text>
+                    {call.recording_url ? (
+                      <audio controls preload="none" src={call.recording_url} style={{ width: '100%' }} />
+                    ) : (
+                      <Text variant="bodyMd" as="p" tone="subdued">
+                        No recording available.
+                      </Text>
+                    )}
+                  </BlockStack>
+                </Card>
+
+                <Card>
+                  <BlockStack gap="200">
+                    <Text variant="headingMd" as="h2">Actions</Text>
+                    {actions.length === 0 && (
+                      <Text variant="bodyMd" as="p" tone="subdued">
+                        No actions were taken during this call.
+                      </Text>
+                    )}
+                    {actions.map(action => (
+                      <InlineStack key={action.id} align="space-between" blockAlign="center">
+                        <BlockStack gap="050">
+                          <Text variant="bodyMd" as="span" fontWeight="semibold">
+                            {ACTION_LABELS[action.action_type]}
+                          </Text>
+                          <Text variant="bodySm" as="span" tone="subdued">
+                            {formatCallDateTime(action.created_at)}
+                          </Text>
+                        </BlockStack>
+                        <Badge tone={action.success ? 'success' : 'critical'}>
+                          {action.success ? 'Succeeded' : 'Failed'}
+                        </Badge>
+                      </InlineStack>
+                    ))}
+                  </BlockStack>
+                </Card>
+              </BlockStack>
+            </Layout.Section>
+          </>
+        )}
+      </Layout>
+    </Page>
+  );
+}
@@ -1,25 +1,339 @@
 'use client';
 
-import React from 'react';
-import { Page, Layout, Card, Box, Text, EmptyState } from '@shopify/polaris';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  EmptyState,
+  IndexTable,
+  Filters,
+  ChoiceList,
+  TextField,
+  Badge,
+  Banner,
+} from '@shopify/polaris';
+import {
+  formatCallDateTime,
+  formatDuration,
+  getSentimentColor,
+  getStatusBadge,
+  maskPhoneNumber,
+} from '@/lib/calls/utils';
+
+interface CallListItem {
+  id: string;
+  customer_phone: string;
+  customer_name: string | null;
+  duration_seconds: number;
+  summary: string | null;
+  sentiment: 'positive' | 'neutral' | 'negative';
+  resolution_status: 'resolved' | 'escalated' | 'abandoned';
+  tags: string[] | null;
+  started_at: string | null;
+}
+
+interface CallFiltersState {
+  from: string;
+  to: string;
+  sentiment: string[];
+  resolutionStatus: string[];
+  tags: string;
+}
+
+const PAGE_SIZE = 20;
+
+const EMPTY_FILTERS: CallFiltersState = {
+  from: '',
+  to: '',
+  sentiment: [],
+  resolutionStatus: [],
+  tags: '',
+};
+
+/**
+ * Build the /api/calls query string from filter state
+ * Dates come from <input type="date"> and are widened to whole days
+ */
+function buildQuery(filters: CallFiltersState, cursor: string | null): string {
+  const params = new URLSearchParams({ pageSize: String(PAGE_SIZE) });
+
+  if (cursor) params.set('cursor', cursor);
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (filters.sentiment[0]) params.set('sentiment', filters.sentiment[0]);
+  if (filters.resolutionStatus[0]) params.set('resolutionStatus', filters.resolutionStatus[0]);
+  if (filters.tags.trim()) params.set('tags', filters.tags.trim());
+
+  return params.toString();
+}
 
 export default function CallsPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const [calls, setCalls] = useState<CallListItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<CallFiltersState>(EMPTY_FILTERS);
+
+  // Cursor stack: cursors[i] fetches page i; the last entry is the next page
+  const [cursors, setCursors] = useState<Array<string | null>>([null]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+
+  const loadCalls = useCallback(async (activeFilters: CallFiltersState, cursor: string | null) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/calls?${buildQuery(activeFilters, cursor)}`);
+      const data = await res.json();
+
+      if (data.success) {
+        setCalls(data.data.items);
+        setTotal(data.data.total);
+        setNextCursor(data.data.nextCursor ?? null);
+      } else {
+        setError(data.error?.message || 'Failed to load calls');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error - could not reach API');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reset to the first page whenever filters change
+  useEffect(() => {
+    setCursors([null]);
+    setPageIndex(0);
+    loadCalls(filters, null);
+  }, [filters, loadCalls]);
+
+  const goToNextPage = () => {
+    if (!nextCursor) return;
+    const nextIndex = pageIndex + 1;
+    setCursors([...cursors.slice(0, nextIndex), nextCursor]);
+    setPageIndex(nextIndex);
+    loadCalls(filters, nextCursor);
+  };
+
+  const goToPreviousPage = () => {
+    if (pageIndex === 0) return;
+    const previousIndex = pageIndex - 1;
+    setPageIndex(previousIndex);
+    loadCalls(filters, cursors[previousIndex]);
+  };
+
+  const updateFilter = <K extends keyof CallFiltersState>(key: K, value: CallFiltersState[K]) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  const openCall = (id: string) => {
+    const query = searchParams.toString();
+    router.push(`/calls/${id}${query ? `?${query}` : ''}`);
+  };
+
+  const filterDefinitions = [
+    {
+      key: 'dateRange',
+      label: 'Date range',
+      filter: (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--p-space-200)' }}>
+          <TextField
+            label="From"
+            type="date"
+            value={filters.from}
+            onChange={value => updateFilter('from', value)}
+            autoComplete="off"
+          />
+          <TextField
+            label="To"
+            type="date"
+            value={filters.to}
+            onChange={value => updateFilter('to', value)}
+            autoComplete="off"
+          />
+        </div>
+      ),
+      shortcut: true,
+    },
+    {
+      key: 'sentiment',
+      label: 'Sentiment',
+      filter: (
+        <ChoiceList
+          title="Sentiment"
+          titleHidden
+          choices={[
+            { label: 'Positive', value: 'positive' },
+            { label: 'Neutral', value: 'neutral' },
+            { label: 'Negative', value: 'negative' },
+          ]}
+          selected={filters.sentiment}
+          onChange={value => updateFilter('sentiment', value)}
+        />
+      ),
+      shortcut: true,
+    },
+    {
+      key: 'resolutionStatus',
+      label: 'Resolution',
+      filter: (
+        <ChoiceList
+          title="Resolution"
+          titleHidden
+          choices={[
+            { label: 'Resolved', value: 'resolved' },
+            { label: 'Escalated', value: 'escalated' },
+            { label: 'Abandoned', value: 'abandoned' },
+          ]}
+          selected={filters.resolutionStatus}
+          onChange={value => updateFilter('resolutionStatus', value)}
+        />
+      ),
+      shortcut: true,
+    },
+    {
+      key: 'tags',
+      label: 'Tags',
+      filter: (
+        <TextField
+          label="Tags"
+          labelHidden
+          placeholder="Comma-separated tags"
+          value={filters.tags}
+          onChange={value => updateFilter('tags', value)}
+          autoComplete="off"
+        />
+      ),
+    },
+  ];
+
+  const appliedFilters = [
+    ...(filters.from || filters.to
+      ? [
+          {
+            key: 'dateRange',
+            label: `Date: ${filters.from || '…'} – ${filters.to || '…'}`,
+            onRemove: () => setFilters(current => ({ ...current, from: '', to: '' })),
+          },
+        ]
+      : []),
+    ...(filters.sentiment.length > 0
+      ? [
+          {
+            key: 'sentiment',
+            label: `Sentiment: ${filters.sentiment[0]}`,
+            onRemove: () => updateFilter('sentiment', []),
+          },
+        ]
+      : []),
+    ...(filters.resolutionStatus.length > 0
+      ? [
+          {
+            key: 'resolutionStatus',
+            label: `Resolution: ${filters.resolutionStatus[0]}`,
+            onRemove: () => updateFilter('resolutionStatus', []),
+          },
+        ]
+      : []),
+    ...(filters.tags.trim()
+      ? [
+          {
+            key: 'tags',
+            label: `Tags: ${filters.tags.trim()}`,
+            onRemove: () => updateFilter('tags', ''),
+          },
+        ]
+      : []),
+  ];
+
+  const rows = calls.map((call, index) => (
+    <IndexTable.Row id={call.id} key={call.id} position={index} onClick={() => openCall(call.id)}>
+      <IndexTable.Cell>
+        <Text variant="bodyMd" fontWeight="semibold" as="span">
+          {call.started_at ? formatCallDateTime(call.started_at) : '—'}
+        </Text>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        {call.customer_name || maskPhoneNumber(call.customer_phone)}
+      </IndexTable.Cell>
+      <IndexTable.Cell>{formatDuration(call.duration_seconds)}</IndexTable.Cell>
+      <IndexTable.Cell>
+        <Badge tone={getSentimentColor(call.sentiment)}>{call.sentiment}</Badge>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Badge tone={getStatusBadge(call.resolution_status)}>{call.resolution_status}</Badge>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <Text variant="bodySm" as="span" tone="subdued" truncate>
+          {call.summary || 'No summary yet'}
+        </Text>
+      </IndexTable.Cell>
+    </IndexTable.Row>
+  ));
+
   return (
-    <Page
-      title="Calls"
-      subtitle="View and manage call history"
-    >
+    <Page title="Calls" subtitle="View and manage call history">
       <Layout>
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical" title="Could not load calls">
+              <p>{error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
         <Layout.Section>
-          <Card>
-            <EmptyState
-              heading="No calls yet"
-              image="https://cdn.shopify.com/s/files/1/0262/4071/2726/t/2/assets/blank-state.svg"
+          <Card padding="0">
+            <Filters
+              filters={filterDefinitions}
+              appliedFilters={appliedFilters}
+              onQueryChange={() => {}}
+              onQueryClear={() => {}}
+              onClearAll={() => setFilters(EMPTY_FILTERS)}
+              hideQueryField
+            />
+            <IndexTable
+              resourceName={{ singular: 'call', plural: 'calls' }}
+              itemCount={calls.length}
+              selectable={false}
+              loading={loading}
+              headings={[
+                { title: 'Date' },
+                { title: 'Caller' },
+                { title: 'Duration' },
+                { title: 'Sentiment' },
+                { title: 'Resolution' },
+                { title: 'Summary' },
+              ]}
+              emptyState={
+                <EmptyState
+                  heading="No calls yet"
+                  image="https://cdn.shopify.com/s/files/1/0262/4071/2726/t/2/assets/blank-state.svg"
+                >
+                  <Text variant="bodyMd" as="p">
+                    {appliedFilters.length > 0
+                      ? 'No calls match these filters.'
+                      : 'Once your voice receptionist receives calls, they will appear here.'}
+                  </Text>
+                </EmptyState>
+              }
+              pagination={{
+                hasPrevious: pageIndex > 0,
+                hasNext: !!nextCursor,
+                onPrevious: goToPreviousPage,
+                onNext: goToNextPage,
+                label: `${total} call${total === 1 ? '' : 's'}`,
+              }}
             >
-              <Text variant="bodyMd" as="p">
-                Once your voice receptionist receives calls, they will appear here.
-              </Text>
-            </EmptyState>
+              {rows}
+            </IndexTable>
           </Card>
         </Layout.Section>
       </Layout>
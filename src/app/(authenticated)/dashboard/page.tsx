@@ -1,7 +1,65 @@
 'use client';
 
-import React from 'react';
-import { Page, Layout, Card, Box, Text } from '@shopify/polaris';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Page,
+  Layout,
+  Card,
+  Box,
+  Text,
+  Banner,
+  BlockStack,
+  InlineStack,
+  Button,
+  ProgressBar,
+} from '@shopify/polaris';
+
+interface BillingPlan {
+  id: string;
+  name: string;
+  price: number;
+  minutes: number;
+  overage_rate: number;
+  description: string;
+}
+
+interface BillingUsage {
+  allowed: boolean;
+  subscription_status: string;
+  plan_name: string;
+  overage_rate: number | null;
+  overage_minutes: number;
+  plans: BillingPlan[];
+  minutes_used: number;
+  minutes_limit: number;
+  usage_percentage: number;
+  warning_level: 0 | 80 | 100;
+  voicemail_only: boolean;
+  reason?: string;
+}
+
+interface ProductSyncRun {
+  id: string;
+  mode: 'full' | 'delta' | 'bulk';
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  total_estimate: number | null;
+  processed: number;
+  failed: number;
+  removed: number;
+  error: string | null;
+  completed_at: string | null;
+}
+
+interface ProductSyncStatus {
+  run: ProductSyncRun | null;
+  progress: number | null;
+}
+
+const SYNC_MODE_LABELS: Record<ProductSyncRun['mode'], string> = {
+  full: 'Full sync',
+  delta: 'Changes since last sync',
+  bulk: 'Bulk export',
+};
 
 /**
  * Dashboard Page
@@ -9,12 +67,147 @@ import { Page, Layout, Card, Box, Text } from '@shopify/polaris';
  * Displays overview and key information
  */
 export default function DashboardPage() {
+  const [usage, setUsage] = useState<BillingUsage | null>(null);
+  const [subscribing, setSubscribing] = useState<string | null>(null);
+  const [billingError, setBillingError] = useState<string | null>(null);
+  const [productSync, setProductSync] = useState<ProductSyncStatus | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadProductSync = async () => {
+      try {
+        const res = await fetch('/api/products/sync');
+        const data = await res.json();
+        if (data.success) setProductSync(data.data);
+      } catch (err) {
+        console.error('Failed to load product sync status:', err);
+      }
+    };
+
+    loadProductSync();
+  }, []);
+
+  useEffect(() => {
+    const loadUsage = async () => {
+      try {
+        const res = await fetch('/api/billing');
+        const data = await res.json();
+        if (data.success) setUsage(data.data);
+      } catch (err) {
+        console.error('Failed to load usage:', err);
+      }
+    };
+
+    loadUsage();
+  }, []);
+
+  const subscribe = async (planId: string) => {
+    setSubscribing(planId);
+    setBillingError(null);
+
+    try {
+      const res = await fetch('/api/billing', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ plan: planId }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        // Shopify's approval page can't load inside the app iframe
+        window.open(data.data.confirmationUrl, '_top');
+      } else {
+        setBillingError(data.error?.message || 'Failed to start subscription');
+        setSubscribing(null);
+      }
+    } catch (err) {
+      setBillingError(err instanceof Error ? err.message : 'Network error - could not reach API');
+      setSubscribing(null);
+    }
+  };
+
+  // Each POST works on the run for a slice; keep posting until it finishes
+  const syncProducts = useCallback(async () => {
+    setSyncing(true);
+    setSyncError(null);
+
+    try {
+      for (;;) {
+        const res = await fetch('/api/products/sync', { method: 'POST' });
+        const data = await res.json();
+
+        if (!data.success) {
+          setSyncError(data.error?.message || 'Failed to sync products');
+          break;
+        }
+
+        const status: ProductSyncStatus = data.data;
+        setProductSync(status);
+        if (status.run?.status === 'failed') {
+          setSyncError(status.run.error || 'Product sync failed');
+        }
+        if (status.run?.status !== 'pending' && status.run?.status !== 'running') break;
+
+        // Running means another slice holds the run; give it a moment
+        if (status.run.status === 'running') {
+          await new Promise(resolve => setTimeout(resolve, 3000));
+        }
+      }
+    } catch (err) {
+      setSyncError(err instanceof Error ? err.message : 'Network error - could not reach API');
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  const syncRun = productSync?.run ?? null;
+  const syncInProgress = syncing || syncRun?.status === 'pending' || syncRun?.status === 'running';
+
+  const isCurrentPlan = (plan: BillingPlan) =>
+    usage?.subscription_status === 'active' && usage.plan_name === plan.id;
+
   return (
     <Page
       title="Dashboard"
       subtitle="Voice Receptionist Overview"
     >
       <Layout>
+        {usage && (usage.voicemail_only || usage.warning_level > 0) && (
+          <Layout.Section>
+            {usage.voicemail_only || !usage.allowed ? (
+              <Banner tone="critical" title="Your receptionist is taking messages only">
+                <p>
+                  {usage.reason || 'Call minute quota reached'}. Callers are offered voicemail until you
+                  upgrade your plan or your minutes reset.
+                </p>
+              </Banner>
+            ) : usage.overage_minutes > 0 && usage.overage_rate !== null ? (
+              <Banner tone="warning" title="You're over your plan's call minutes">
+                <p>
+                  {usage.overage_minutes} extra minutes this billing period, billed at $
+                  {usage.overage_rate.toFixed(2)} per minute. Upgrade your plan to include more minutes.
+                </p>
+              </Banner>
+            ) : (
+              <Banner tone="warning" title={`You've used ${usage.usage_percentage}% of your call minutes`}>
+                <p>
+                  {usage.minutes_used} of {usage.minutes_limit} minutes used this billing period. At 100% the
+                  receptionist switches to taking messages only.
+                </p>
+              </Banner>
+            )}
+          </Layout.Section>
+        )}
+
+        {billingError && (
+          <Layout.Section>
+            <Banner tone="critical" title="Couldn't change your plan" onDismiss={() => setBillingError(null)}>
+              <p>{billingError}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
         <Layout.Section>
           <Card>
             <Box padding="400">
@@ -61,6 +254,81 @@ export default function DashboardPage() {
           </Card>
         </Layout.Section>
 
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <InlineStack align="space-between" blockAlign="center">
+                <BlockStack gap="100">
+                  <Text variant="headingMd" as="h3">Product Catalog</Text>
+                  <Text variant="bodyMd" as="p" tone="subdued">
+                    {!syncRun
+                      ? 'Sync your products so the receptionist can answer questions about them.'
+                      : syncRun.status === 'completed' && syncRun.completed_at
+                        ? `${SYNC_MODE_LABELS[syncRun.mode]} finished ${new Date(syncRun.completed_at).toLocaleString()}: ` +
+                          `${syncRun.processed} products updated` +
+                          (syncRun.removed > 0 ? `, ${syncRun.removed} removed` : '') +
+                          (syncRun.failed > 0 ? `, ${syncRun.failed} failed` : '')
+                        : syncRun.status === 'failed'
+                          ? `${SYNC_MODE_LABELS[syncRun.mode]} stopped after ${syncRun.processed} products.`
+                          : `${SYNC_MODE_LABELS[syncRun.mode]}: ${syncRun.processed}` +
+                            (syncRun.total_estimate ? ` of about ${syncRun.total_estimate}` : '') +
+                            ' products synced'}
+                  </Text>
+                </BlockStack>
+                <Button onClick={syncProducts} loading={syncing} disabled={syncing}>
+                  {syncRun?.status === 'pending' || syncRun?.status === 'running' ? 'Continue sync' : 'Sync products'}
+                </Button>
+              </InlineStack>
+              {syncInProgress && syncRun && (
+                <ProgressBar progress={productSync?.progress ?? 0} size="small" />
+              )}
+              {syncError && (
+                <Banner tone="critical" onDismiss={() => setSyncError(null)}>
+                  <p>{syncError}</p>
+                </Banner>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {usage && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="400">
+                <BlockStack gap="100">
+                  <Text variant="headingMd" as="h3">Plan</Text>
+                  <Text variant="bodyMd" as="p" tone="subdued">
+                    {usage.subscription_status === 'trial'
+                      ? 'Free trial. Choose a plan to keep your receptionist answering after the trial.'
+                      : `${usage.minutes_used} of ${usage.minutes_limit} call minutes used this billing period.`}
+                  </Text>
+                </BlockStack>
+                <InlineStack gap="400" wrap>
+                  {usage.plans.map(plan => (
+                    <Box key={plan.id} padding="300" borderWidth="025" borderColor="border" borderRadius="200" minWidth="200px">
+                      <BlockStack gap="200">
+                        <Text variant="headingSm" as="h4">{plan.name}</Text>
+                        <Text variant="bodyMd" as="p">${plan.price}/month · {plan.minutes} minutes</Text>
+                        <Text variant="bodySm" as="p" tone="subdued">
+                          Then ${plan.overage_rate.toFixed(2)}/minute. {plan.description}
+                        </Text>
+                        <Button
+                          variant={isCurrentPlan(plan) ? 'secondary' : 'primary'}
+                          disabled={isCurrentPlan(plan) || subscribing !== null}
+                          loading={subscribing === plan.id}
+                          onClick={() => subscribe(plan.id)}
+                        >
+                          {isCurrentPlan(plan) ? 'Current plan' : 'Choose plan'}
+                        </Button>
+                      </BlockStack>
+                    </Box>
+                  ))}
+                </InlineStack>
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+
         <Layout.Section>
           <Card>
             <Box padding="400">
@@ -1,15 +1,411 @@
 'use client';
 
-import React from 'react';
-import { Page, Layout, Card, Box, Text, FormLayout, TextField, Button } from '@shopify/polaris';
+import React, { useEffect, useState } from 'react';
+import {
+  Page,
+  Layout,
+  Card,
+  Box,
+  Text,
+  FormLayout,
+  TextField,
+  Button,
+  Banner,
+  BlockStack,
+  InlineStack,
+  Checkbox,
+  ChoiceList,
+  Select,
+  Divider,
+} from '@shopify/polaris';
+
+type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+interface TransferDestination {
+  id: string;
+  label: string;
+  phone_number: string;
+  department?: string;
+  hours: { days: Weekday[]; open: string; close: string } | null;
+}
+
+interface TransferSettings {
+  enabled: boolean;
+  destinations: TransferDestination[];
+  voicemail_message?: string;
+  escalation_triggers: {
+    caller_requests_human: boolean;
+    caller_upset: boolean;
+    failed_order_lookups: number | null;
+    keywords: string[];
+  };
+}
+
+interface SpendBudget {
+  daily_cents: number | null;
+  monthly_cents: number | null;
+  auto_pause: boolean;
+}
+
+type PersonaTone = 'friendly' | 'professional' | 'casual' | 'enthusiastic';
+
+interface PersonaFaq {
+  question: string;
+  answer: string;
+}
+
+interface ReceptionistPersona {
+  greeting?: string;
+  tone: PersonaTone;
+  policies: { returns?: string; shipping?: string; warranty?: string };
+  faqs: PersonaFaq[];
+  forbidden_topics: string[];
+}
+
+interface PersonaVersionSummary {
+  version: number;
+  status: 'draft' | 'published' | 'archived';
+  published_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface PersonaOverview {
+  persona: ReceptionistPersona;
+  draft: PersonaVersionSummary | null;
+  published: PersonaVersionSummary | null;
+  versions: PersonaVersionSummary[];
+}
+
+interface PromptPreview {
+  systemPrompt: string;
+  firstMessage: string;
+}
+
+interface SpendSummary {
+  today_cents: number;
+  period_cents: number;
+  period_start: string;
+  budget: SpendBudget;
+  paused: { until: string; reason: string } | null;
+}
+
+const WEEKDAY_CHOICES: Array<{ label: string; value: Weekday }> = [
+  { label: 'Mon', value: 'mon' },
+  { label: 'Tue', value: 'tue' },
+  { label: 'Wed', value: 'wed' },
+  { label: 'Thu', value: 'thu' },
+  { label: 'Fri', value: 'fri' },
+  { label: 'Sat', value: 'sat' },
+  { label: 'Sun', value: 'sun' },
+];
+
+const DEFAULT_HOURS: TransferDestination['hours'] = {
+  days: ['mon', 'tue', 'wed', 'thu', 'fri'],
+  open: '09:00',
+  close: '17:00',
+};
+
+const LOOKUP_FAILURE_OPTIONS = [
+  { label: 'Never', value: '' },
+  { label: 'After 1 failed lookup', value: '1' },
+  { label: 'After 2 failed lookups', value: '2' },
+  { label: 'After 3 failed lookups', value: '3' },
+];
+
+const TONE_OPTIONS: Array<{ label: string; value: PersonaTone }> = [
+  { label: 'Friendly', value: 'friendly' },
+  { label: 'Professional', value: 'professional' },
+  { label: 'Casual', value: 'casual' },
+  { label: 'Enthusiastic', value: 'enthusiastic' },
+];
+
+const POLICY_FIELDS: Array<{ key: keyof ReceptionistPersona['policies']; label: string; placeholder: string }> = [
+  { key: 'returns', label: 'Returns', placeholder: 'e.g. Unworn items can be returned within 30 days for a full refund.' },
+  { key: 'shipping', label: 'Shipping', placeholder: 'e.g. Free shipping over $50. Orders ship within 2 business days.' },
+  { key: 'warranty', label: 'Warranty', placeholder: 'e.g. All products carry a one-year manufacturer warranty.' },
+];
+
+function formatDollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function toDollarInput(cents: number | null): string {
+  return cents === null ? '' : (cents / 100).toFixed(2);
+}
+
+function toCents(dollars: string): number | null {
+  const value = parseFloat(dollars);
+  return Number.isFinite(value) && value > 0 ? Math.round(value * 100) : null;
+}
 
 export default function SettingsPage() {
+  const [transfer, setTransfer] = useState<TransferSettings | null>(null);
+  const [timezone, setTimezone] = useState('UTC');
+  const [keywords, setKeywords] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [spend, setSpend] = useState<SpendSummary | null>(null);
+  const [dailyBudget, setDailyBudget] = useState('');
+  const [monthlyBudget, setMonthlyBudget] = useState('');
+  const [autoPause, setAutoPause] = useState(false);
+  const [savingBudget, setSavingBudget] = useState(false);
+
+  const [persona, setPersona] = useState<ReceptionistPersona | null>(null);
+  const [personaVersions, setPersonaVersions] = useState<Omit<PersonaOverview, 'persona'> | null>(null);
+  const [forbiddenTopics, setForbiddenTopics] = useState('');
+  const [preview, setPreview] = useState<PromptPreview | null>(null);
+  const [personaMessage, setPersonaMessage] = useState<string | null>(null);
+  const [personaAction, setPersonaAction] = useState<'save' | 'preview' | 'publish' | null>(null);
+
+  const applyPersona = (overview: PersonaOverview) => {
+    setPersona(overview.persona);
+    setForbiddenTopics(overview.persona.forbidden_topics.join(', '));
+    setPersonaVersions({ draft: overview.draft, published: overview.published, versions: overview.versions });
+  };
+
+  const applySpend = (summary: SpendSummary) => {
+    setSpend(summary);
+    setDailyBudget(toDollarInput(summary.budget.daily_cents));
+    setMonthlyBudget(toDollarInput(summary.budget.monthly_cents));
+    setAutoPause(summary.budget.auto_pause);
+  };
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const res = await fetch('/api/settings');
+        const data = await res.json();
+
+        if (data.success) {
+          setTransfer(data.data.transfer);
+          setTimezone(data.data.timezone);
+          setKeywords(data.data.transfer.escalation_triggers.keywords.join(', '));
+          applySpend(data.data.spend);
+        } else {
+          setError(data.error?.message || 'Failed to load settings');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Network error - could not reach API');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    const loadPersona = async () => {
+      try {
+        const res = await fetch('/api/settings/persona');
+        const data = await res.json();
+
+        if (data.success) {
+          applyPersona(data.data);
+        } else {
+          setError(data.error?.message || 'Failed to load persona');
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Network error - could not reach API');
+      }
+    };
+
+    loadSettings();
+    loadPersona();
+  }, []);
+
+  const updateTransfer = (changes: Partial<TransferSettings>) => {
+    setSaved(false);
+    setTransfer(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const updateTriggers = (changes: Partial<TransferSettings['escalation_triggers']>) => {
+    if (!transfer) return;
+    updateTransfer({ escalation_triggers: { ...transfer.escalation_triggers, ...changes } });
+  };
+
+  const updateDestination = (id: string, changes: Partial<TransferDestination>) => {
+    if (!transfer) return;
+    updateTransfer({
+      destinations: transfer.destinations.map(d => (d.id === id ? { ...d, ...changes } : d)),
+    });
+  };
+
+  const addDestination = () => {
+    if (!transfer) return;
+    updateTransfer({
+      destinations: [
+        ...transfer.destinations,
+        { id: `dest-${Date.now()}`, label: '', phone_number: '', hours: DEFAULT_HOURS },
+      ],
+    });
+  };
+
+  const removeDestination = (id: string) => {
+    if (!transfer) return;
+    updateTransfer({ destinations: transfer.destinations.filter(d => d.id !== id) });
+  };
+
+  const saveSettings = async () => {
+    if (!transfer) return;
+    setSaving(true);
+    setError(null);
+
+    const payload: TransferSettings = {
+      ...transfer,
+      destinations: transfer.destinations.map(d => ({ ...d, department: d.department || undefined })),
+      escalation_triggers: {
+        ...transfer.escalation_triggers,
+        keywords: keywords.split(',').map(k => k.trim()).filter(Boolean),
+      },
+    };
+
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transfer: payload }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setTransfer(data.data.transfer);
+        setSaved(true);
+      } else {
+        setError(data.error?.message || 'Failed to save settings');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error - could not reach API');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updatePersona = (changes: Partial<ReceptionistPersona>) => {
+    setPersonaMessage(null);
+    setPreview(null);
+    setPersona(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const updateFaq = (index: number, changes: Partial<PersonaFaq>) => {
+    if (!persona) return;
+    updatePersona({ faqs: persona.faqs.map((faq, i) => (i === index ? { ...faq, ...changes } : faq)) });
+  };
+
+  const personaPayload = (): ReceptionistPersona | null => {
+    if (!persona) return null;
+    return {
+      ...persona,
+      greeting: persona.greeting?.trim() || undefined,
+      faqs: persona.faqs.filter(faq => faq.question.trim() && faq.answer.trim()),
+      forbidden_topics: forbiddenTopics.split(',').map(t => t.trim()).filter(Boolean),
+    };
+  };
+
+  const personaRequest = async (url: string, method: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!data.success) throw new Error(data.error?.message || 'Request failed');
+    return data.data;
+  };
+
+  const runPersonaAction = async (action: 'save' | 'preview' | 'publish', fn: () => Promise<void>) => {
+    setPersonaAction(action);
+    setError(null);
+    setPersonaMessage(null);
+
+    try {
+      await fn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error - could not reach API');
+    } finally {
+      setPersonaAction(null);
+    }
+  };
+
+  const savePersonaDraft = () =>
+    runPersonaAction('save', async () => {
+      applyPersona(await personaRequest('/api/settings/persona', 'PUT', personaPayload()));
+      setPersonaMessage('Draft saved. Publish it to use it on calls.');
+    });
+
+  const previewPersona = () =>
+    runPersonaAction('preview', async () => {
+      setPreview(await personaRequest('/api/settings/persona/preview', 'POST', personaPayload()));
+    });
+
+  const publishPersona = (version?: number) =>
+    runPersonaAction('publish', async () => {
+      if (version === undefined) {
+        applyPersona(await personaRequest('/api/settings/persona', 'PUT', personaPayload()));
+      }
+      const result = await personaRequest('/api/settings/persona/publish', 'POST', version ? { version } : {});
+      applyPersona(await personaRequest('/api/settings/persona', 'GET'));
+      setPreview(result.prompt);
+      setPersonaMessage(
+        result.deferred
+          ? `Version ${result.published.version} published. It will be used once your receptionist is answering calls again.`
+          : `Version ${result.published.version} published. It will be used on the next call.`
+      );
+    });
+
+  const saveBudget = async () => {
+    setSavingBudget(true);
+    setError(null);
+    setSaved(false);
+
+    const spend_budget: SpendBudget = {
+      daily_cents: toCents(dailyBudget),
+      monthly_cents: toCents(monthlyBudget),
+      auto_pause: autoPause,
+    };
+
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ spend_budget }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        applySpend(data.data.spend);
+        setSaved(true);
+      } else {
+        setError(data.error?.message || 'Failed to save budget');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error - could not reach API');
+    } finally {
+      setSavingBudget(false);
+    }
+  };
+
   return (
     <Page
       title="Settings"
       subtitle="Configure your app settings"
     >
       <Layout>
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical" title="There was a problem with your settings" onDismiss={() => setError(null)}>
+              <p>{error}</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {saved && (
+          <Layout.Section>
+            <Banner tone="success" title="Settings saved" onDismiss={() => setSaved(false)}>
+              <p>Changes reach your receptionist within a minute.</p>
+            </Banner>
+          </Layout.Section>
+        )}
+
         <Layout.Section>
           <Card>
             <Box padding="400">
@@ -26,27 +422,432 @@ export default function SettingsPage() {
                     label="App Name"
                     value="Voice Receptionist"
                     onChange={() => {}}
+                    autoComplete="off"
                     disabled
                   />
-                  
+
                   <TextField
                     label="Default Language"
                     value="English"
                     onChange={() => {}}
+                    autoComplete="off"
                     disabled
                   />
                 </FormLayout>
-
-                <div style={{ display: 'flex', gap: 'var(--p-space-200)' }}>
-                  <Button variant="primary" disabled>
-                    Save Changes
-                  </Button>
-                </div>
               </div>
             </Box>
           </Card>
         </Layout.Section>
 
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <BlockStack gap="100">
+                <Text variant="headingMd" as="h2">Receptionist persona</Text>
+                <Text variant="bodyMd" as="p" tone="subdued">
+                  How your receptionist greets callers, how it sounds and what it knows about your store. Edits are
+                  saved as a draft until you publish them.
+                </Text>
+              </BlockStack>
+
+              {personaMessage && (
+                <Banner tone="success" onDismiss={() => setPersonaMessage(null)}>
+                  <p>{personaMessage}</p>
+                </Banner>
+              )}
+
+              {!persona || !personaVersions ? (
+                <Text variant="bodyMd" as="p" tone="subdued">Loading…</Text>
+              ) : (
+                <>
+                  <Text variant="bodySm" as="p" tone="subdued">
+                    {personaVersions.published
+                      ? `Version ${personaVersions.published.version} is live, published ${new Date(
+                          personaVersions.published.published_at ?? personaVersions.published.updated_at
+                        ).toLocaleString()}.`
+                      : 'Your receptionist uses the standard persona.'}
+                    {personaVersions.draft && ` Draft version ${personaVersions.draft.version} has unpublished changes.`}
+                  </Text>
+
+                  <FormLayout>
+                    <TextField
+                      label="Greeting"
+                      helpText="The first thing callers hear. {shop_name} is replaced with your store name."
+                      placeholder="Hi! Thanks for calling {shop_name}. How can I help you today?"
+                      value={persona.greeting || ''}
+                      onChange={greeting => updatePersona({ greeting })}
+                      maxLength={300}
+                      autoComplete="off"
+                    />
+                    <Select
+                      label="Tone"
+                      options={TONE_OPTIONS}
+                      value={persona.tone}
+                      onChange={tone => updatePersona({ tone: tone as PersonaTone })}
+                    />
+                  </FormLayout>
+
+                  <BlockStack gap="200">
+                    <Text variant="headingSm" as="h3">Store policies</Text>
+                    <FormLayout>
+                      {POLICY_FIELDS.map(field => (
+                        <TextField
+                          key={field.key}
+                          label={field.label}
+                          placeholder={field.placeholder}
+                          value={persona.policies[field.key] || ''}
+                          onChange={value => updatePersona({ policies: { ...persona.policies, [field.key]: value } })}
+                          multiline={2}
+                          maxLength={1500}
+                          autoComplete="off"
+                        />
+                      ))}
+                    </FormLayout>
+                  </BlockStack>
+
+                  <BlockStack gap="200">
+                    <Text variant="headingSm" as="h3">Frequently asked questions</Text>
+                    {persona.faqs.map((faq, index) => (
+                      <BlockStack key={index} gap="200">
+                        <FormLayout>
+                          <TextField
+                            label="Question"
+                            value={faq.question}
+                            onChange={question => updateFaq(index, { question })}
+                            maxLength={200}
+                            autoComplete="off"
+                          />
+                          <TextField
+                            label="Answer"
+                            value={faq.answer}
+                            onChange={answer => updateFaq(index, { answer })}
+                            multiline={2}
+                            maxLength={1000}
+                            autoComplete="off"
+                          />
+                        </FormLayout>
+                        <InlineStack align="end">
+                          <Button
+                            variant="plain"
+                            tone="critical"
+                            onClick={() => updatePersona({ faqs: persona.faqs.filter((_, i) => i !== index) })}
+                          >
+                            Remove question
+                          </Button>
+                        </InlineStack>
+                      </BlockStack>
+                    ))}
+                    <InlineStack>
+                      <Button
+                        onClick={() => updatePersona({ faqs: [...persona.faqs, { question: '', answer: '' }] })}
+                        disabled={persona.faqs.length >= 20}
+                      >
+                        Add question
+                      </Button>
+                    </InlineStack>
+                  </BlockStack>
+
+                  <TextField
+                    label="Topics to avoid"
+                    helpText="Comma-separated, e.g. competitors, upcoming sales, medical advice"
+                    value={forbiddenTopics}
+                    onChange={value => {
+                      setPersonaMessage(null);
+                      setPreview(null);
+                      setForbiddenTopics(value);
+                    }}
+                    autoComplete="off"
+                  />
+
+                  {preview && (
+                    <BlockStack gap="200">
+                      <Divider />
+                      <Text variant="headingSm" as="h3">Preview</Text>
+                      <Text variant="bodyMd" as="p">
+                        <strong>First message:</strong> {preview.firstMessage}
+                      </Text>
+                      <Box padding="300" background="bg-surface-secondary" borderRadius="200">
+                        <pre style={{ whiteSpace: 'pre-wrap', margin: 0, fontSize: '12px' }}>{preview.systemPrompt}</pre>
+                      </Box>
+                    </BlockStack>
+                  )}
+
+                  {personaVersions.versions.some(v => v.status === 'archived') && (
+                    <BlockStack gap="200">
+                      <Divider />
+                      <Text variant="headingSm" as="h3">Earlier versions</Text>
+                      {personaVersions.versions
+                        .filter(v => v.status === 'archived')
+                        .map(v => (
+                          <InlineStack key={v.version} align="space-between" blockAlign="center">
+                            <Text variant="bodyMd" as="span">
+                              Version {v.version}
+                              {v.published_at && `, published ${new Date(v.published_at).toLocaleDateString()}`}
+                            </Text>
+                            <Button
+                              variant="plain"
+                              onClick={() => publishPersona(v.version)}
+                              disabled={personaAction !== null}
+                            >
+                              Publish again
+                            </Button>
+                          </InlineStack>
+                        ))}
+                    </BlockStack>
+                  )}
+                </>
+              )}
+
+              <InlineStack gap="200">
+                <Button
+                  variant="primary"
+                  onClick={() => publishPersona()}
+                  loading={personaAction === 'publish'}
+                  disabled={!persona || personaAction !== null}
+                >
+                  Publish
+                </Button>
+                <Button onClick={previewPersona} loading={personaAction === 'preview'} disabled={!persona || personaAction !== null}>
+                  Preview
+                </Button>
+                <Button onClick={savePersonaDraft} loading={personaAction === 'save'} disabled={!persona || personaAction !== null}>
+                  Save draft
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <BlockStack gap="100">
+                <Text variant="headingMd" as="h2">Call transfers</Text>
+                <Text variant="bodyMd" as="p" tone="subdued">
+                  Let the receptionist hand callers to your team. Hours use your store time zone ({timezone}).
+                </Text>
+              </BlockStack>
+
+              {loading || !transfer ? (
+                <Text variant="bodyMd" as="p" tone="subdued">Loading…</Text>
+              ) : (
+                <>
+                  <Checkbox
+                    label="Transfer calls to my team"
+                    checked={transfer.enabled}
+                    onChange={enabled => updateTransfer({ enabled })}
+                  />
+
+                  {transfer.destinations.map(destination => (
+                    <BlockStack key={destination.id} gap="300">
+                      <Divider />
+                      <FormLayout>
+                        <FormLayout.Group>
+                          <TextField
+                            label="Name"
+                            placeholder="Customer support"
+                            value={destination.label}
+                            onChange={label => updateDestination(destination.id, { label })}
+                            autoComplete="off"
+                          />
+                          <TextField
+                            label="Phone number"
+                            type="tel"
+                            placeholder="+15551234567"
+                            value={destination.phone_number}
+                            onChange={phone_number => updateDestination(destination.id, { phone_number })}
+                            autoComplete="off"
+                          />
+                          <TextField
+                            label="Department"
+                            placeholder="Optional, e.g. returns"
+                            value={destination.department || ''}
+                            onChange={department => updateDestination(destination.id, { department })}
+                            autoComplete="off"
+                          />
+                        </FormLayout.Group>
+                        <Checkbox
+                          label="Available at any time"
+                          checked={destination.hours === null}
+                          onChange={always =>
+                            updateDestination(destination.id, { hours: always ? null : DEFAULT_HOURS })
+                          }
+                        />
+                        {destination.hours && (
+                          <FormLayout.Group>
+                            <ChoiceList
+                              title="Days"
+                              allowMultiple
+                              choices={WEEKDAY_CHOICES}
+                              selected={destination.hours.days}
+                              onChange={days =>
+                                updateDestination(destination.id, {
+                                  hours: { ...destination.hours!, days: days as Weekday[] },
+                                })
+                              }
+                            />
+                            <TextField
+                              label="Opens"
+                              type="time"
+                              value={destination.hours.open}
+                              onChange={open =>
+                                updateDestination(destination.id, { hours: { ...destination.hours!, open } })
+                              }
+                              autoComplete="off"
+                            />
+                            <TextField
+                              label="Closes"
+                              type="time"
+                              value={destination.hours.close}
+                              onChange={close =>
+                                updateDestination(destination.id, { hours: { ...destination.hours!, close } })
+                              }
+                              autoComplete="off"
+                            />
+                          </FormLayout.Group>
+                        )}
+                      </FormLayout>
+                      <InlineStack align="end">
+                        <Button variant="plain" tone="critical" onClick={() => removeDestination(destination.id)}>
+                          Remove destination
+                        </Button>
+                      </InlineStack>
+                    </BlockStack>
+                  ))}
+
+                  <InlineStack>
+                    <Button onClick={addDestination}>Add destination</Button>
+                  </InlineStack>
+
+                  <Divider />
+
+                  <TextField
+                    label="When nobody is available"
+                    helpText="What the receptionist should do instead of transferring. Leave blank to take a message."
+                    value={transfer.voicemail_message || ''}
+                    onChange={voicemail_message => updateTransfer({ voicemail_message })}
+                    multiline={2}
+                    maxLength={500}
+                    autoComplete="off"
+                  />
+
+                  <BlockStack gap="200">
+                    <Text variant="headingSm" as="h3">Escalate when</Text>
+                    <Checkbox
+                      label="The caller asks for a person"
+                      checked={transfer.escalation_triggers.caller_requests_human}
+                      onChange={caller_requests_human => updateTriggers({ caller_requests_human })}
+                    />
+                    <Checkbox
+                      label="The caller is upset and the issue can't be resolved"
+                      checked={transfer.escalation_triggers.caller_upset}
+                      onChange={caller_upset => updateTriggers({ caller_upset })}
+                    />
+                    <Select
+                      label="Order lookups fail"
+                      options={LOOKUP_FAILURE_OPTIONS}
+                      value={String(transfer.escalation_triggers.failed_order_lookups ?? '')}
+                      onChange={value =>
+                        updateTriggers({ failed_order_lookups: value ? Number(value) : null })
+                      }
+                    />
+                    <TextField
+                      label="The caller mentions"
+                      helpText="Comma-separated keywords, e.g. chargeback, lawyer, wholesale"
+                      value={keywords}
+                      onChange={value => {
+                        setSaved(false);
+                        setKeywords(value);
+                      }}
+                      autoComplete="off"
+                    />
+                  </BlockStack>
+                </>
+              )}
+
+              <InlineStack>
+                <Button variant="primary" onClick={saveSettings} loading={saving} disabled={loading}>
+                  Save Changes
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <BlockStack gap="100">
+                <Text variant="headingMd" as="h2">Call spending</Text>
+                <Text variant="bodyMd" as="p" tone="subdued">
+                  Get alerted when calls to your receptionist cost more than you expect. Days are counted in UTC.
+                </Text>
+              </BlockStack>
+
+              {spend?.paused && (
+                <Banner tone="warning" title="Your receptionist is taking messages only">
+                  <p>
+                    {spend.paused.reason}. Full answers resume {new Date(spend.paused.until).toLocaleString()}, or
+                    sooner if you raise the budget.
+                  </p>
+                </Banner>
+              )}
+
+              {loading || !spend ? (
+                <Text variant="bodyMd" as="p" tone="subdued">Loading…</Text>
+              ) : (
+                <>
+                  <InlineStack gap="800">
+                    <BlockStack gap="100">
+                      <Text variant="bodySm" as="span" tone="subdued">Today</Text>
+                      <Text variant="headingLg" as="p">{formatDollars(spend.today_cents)}</Text>
+                    </BlockStack>
+                    <BlockStack gap="100">
+                      <Text variant="bodySm" as="span" tone="subdued">This billing period</Text>
+                      <Text variant="headingLg" as="p">{formatDollars(spend.period_cents)}</Text>
+                    </BlockStack>
+                  </InlineStack>
+
+                  <FormLayout>
+                    <FormLayout.Group>
+                      <TextField
+                        label="Daily budget"
+                        type="number"
+                        prefix="$"
+                        placeholder="No limit"
+                        value={dailyBudget}
+                        onChange={setDailyBudget}
+                        autoComplete="off"
+                      />
+                      <TextField
+                        label="Billing period budget"
+                        type="number"
+                        prefix="$"
+                        placeholder="No limit"
+                        value={monthlyBudget}
+                        onChange={setMonthlyBudget}
+                        autoComplete="off"
+                      />
+                    </FormLayout.Group>
+                    <Checkbox
+                      label="Take messages only once a budget is reached"
+                      helpText="The receptionist stops answering questions until the day or billing period resets."
+                      checked={autoPause}
+                      onChange={setAutoPause}
+                    />
+                  </FormLayout>
+                </>
+              )}
+
+              <InlineStack>
+                <Button onClick={saveBudget} loading={savingBudget} disabled={loading}>
+                  Save budget
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
         <Layout.Section>
           <Card>
             <Box padding="400">
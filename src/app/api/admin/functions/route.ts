@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { authenticateAdmin } from '@/lib/shopify/authenticate';
+import { getShopByDomain } from '@/lib/supabase/db';
+import { functionPerformanceQuerySchema } from '@/lib/validations';
+import { getFunctionPerformance } from '@/lib/vapi/function-logger';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { NotFoundError, ValidationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/functions
+ * Tool call performance for the authenticated shop: p50/p95 latency, error
+ * and cache hit rates per tool, and the most frequent search queries
+ *
+ * Query params:
+ * - days: window to aggregate over, 1-90 (default 7)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const parsed = functionPerformanceQuerySchema.safeParse({
+      days: request.nextUrl.searchParams.get('days') || undefined,
+    });
+
+    if (!parsed.success) {
+      return createErrorResponse(
+        new ValidationError('Invalid query parameters', parsed.error.flatten())
+      );
+    }
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    const performance = await getFunctionPerformance(shop.id, { days: parsed.data.days });
+
+    return createSuccessResponse(performance);
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
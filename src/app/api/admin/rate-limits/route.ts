@@ -3,6 +3,9 @@ import { shopify } from '@/lib/shopify/client';
 import { createSuccessResponse, createErrorResponse } from '@/lib/utils/api';
 import { AuthenticationError } from '@/lib/utils/errors';
 import { getMetrics } from '@/lib/rate-limiter';
+import { getVapiRejectionMetrics } from '@/lib/vapi/signature';
+import { getFunctionCacheMetrics } from '@/lib/vapi/function-cache';
+import { getGraphQLThrottleMetrics } from '@/lib/shopify/graphql-throttle';
 
 /**
  * Admin endpoint for rate limit metrics - SHOPIFY OFFICIAL PATTERN
@@ -21,9 +24,12 @@ export async function GET(request: NextRequest) {
 
     return createSuccessResponse({
       metrics,
+      vapiRejections: getVapiRejectionMetrics(),
+      functionCache: getFunctionCacheMetrics(),
+      shopifyGraphQL: getGraphQLThrottleMetrics(),
       timestamp: new Date().toISOString(),
       info: {
-        shopify: 'Shopify API: 2 requests per second per shop',
+        shopify: 'Shopify GraphQL: per-shop query cost bucket, paced from each response\'s throttle status',
         vapi: 'Vapi: 100 calls per hour per shop',
         webhook: 'Webhooks: 100 per minute per shop',
         auth: 'Auth: 5 attempts per hour per IP',
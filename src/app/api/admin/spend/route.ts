@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { getSpendReport } from '@/lib/spend';
+import { spendReportQuerySchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { AuthenticationError, ValidationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/spend
+ * Vapi spend against subscription revenue per plan, across every shop.
+ * Operator-only: unlike the per-shop admin endpoints it takes
+ * ADMIN_API_SECRET as a bearer token rather than a merchant session.
+ *
+ * Query params:
+ * - days: window to report on, 1-90 (default 30)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.ADMIN_API_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return createErrorResponse(new AuthenticationError('Invalid admin secret'));
+    }
+
+    const parsed = spendReportQuerySchema.safeParse({
+      days: request.nextUrl.searchParams.get('days') || undefined,
+    });
+
+    if (!parsed.success) {
+      return createErrorResponse(
+        new ValidationError('Invalid query parameters', parsed.error.flatten())
+      );
+    }
+
+    const report = await getSpendReport(parsed.data.days);
+
+    return createSuccessResponse(report);
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { shopify } from '@/lib/shopify/client';
 import { createErrorResponse } from '@/lib/utils/api';
 import { supabaseAdmin } from '@/lib/supabase/client';
+import { getShopByDomain } from '@/lib/supabase/db';
 import { normalizeShopDomain } from '@/lib/normalize';
 
 // Force dynamic rendering (uses query params)
@@ -47,19 +48,35 @@ export async function GET(request: NextRequest) {
     // Shopify handles session storage in shopify_sessions table automatically
     const normalizedShop = normalizeShopDomain(session.shop);
     
+    const existing = await getShopByDomain(normalizedShop);
+    const now = new Date().toISOString();
+
+    // New installs and reinstalls start a fresh trial; re-authorizing an
+    // installed shop (e.g. after a scope change) keeps its plan and usage
+    const freshInstall = !existing || existing.uninstalled_at !== null
+      ? {
+          installed_at: now,
+          subscription_status: 'trial',
+          plan_name: 'starter',
+          call_minutes_used: 0,
+          call_minutes_limit: 100,
+        }
+      : {};
+
     // Store business data only (NO auth tokens in shops table)
     const { error } = await supabaseAdmin
       .from('shops')
       .upsert({
         shop_domain: normalizedShop,
-        shop_name: normalizedShop.replace('.myshopify.com', ''),
+        shop_name: existing?.shop_name || normalizedShop.replace('.myshopify.com', ''),
         // ❌ REMOVED: access_token - this belongs in shopify_sessions table
-        installed_at: new Date().toISOString(),
-        subscription_status: 'trial',
-        plan_name: 'starter',
-        call_minutes_used: 0,
-        call_minutes_limit: 100,
-        updated_at: new Date().toISOString(),
+        ...freshInstall,
+        // A reinstall within the retention window cancels the pending purge
+        uninstalled_at: null,
+        purge_after: null,
+        cleanup_state: {},
+        cleanup_error: null,
+        updated_at: now,
       }, {
         onConflict: 'shop_domain'
       });
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { syncQuotaMode } from '@/lib/billing-guard';
+import { activateSubscription } from '@/lib/billing/subscriptions';
+import { env } from '@/lib/env';
+import { normalizeShopDomain } from '@/lib/normalize';
+import { getShopByDomain } from '@/lib/supabase/db';
+import { createErrorResponse } from '@/lib/utils/api';
+import { NotFoundError, ValidationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/billing/confirm?shop=...&charge_id=...
+ * Shopify's return URL after the merchant approves (or declines) a subscription
+ *
+ * The charge ID is only trusted after it is read back from the shop's own
+ * Admin API, so a forged ID cannot activate a plan.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const shopParam = params.get('shop');
+    const chargeId = params.get('charge_id');
+
+    if (!shopParam || !chargeId || !/^\d+$/.test(chargeId)) {
+      return createErrorResponse(new ValidationError('Missing shop or charge_id'));
+    }
+
+    const shop = await getShopByDomain(normalizeShopDomain(shopParam));
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    const updated = await activateSubscription(shop, `gid://shopify/AppSubscription/${chargeId}`);
+    if (updated !== shop) {
+      await syncQuotaMode(updated);
+    }
+
+    // Back into the embedded app in the Shopify admin
+    return NextResponse.redirect(`https://${shop.shop_domain}/admin/apps/${env.SHOPIFY_API_KEY}`);
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
@@ -1,9 +1,89 @@
-import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { checkBillingStatus, getQuotaMode, getTrialEndsAt } from '@/lib/billing-guard';
+import { BILLING_PLANS, getPlanByName } from '@/lib/billing/plans';
+import { createPlanSubscription } from '@/lib/billing/subscriptions';
+import { env } from '@/lib/env';
+import { authenticateAdmin } from '@/lib/shopify/authenticate';
+import { getShopByDomain } from '@/lib/supabase/db';
+import { subscribeRequestSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/utils/errors';
 
-export async function POST() {
-  return NextResponse.json({ success: true });
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * GET /api/billing
+ * Plan usage for the authenticated shop
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    const status = await checkBillingStatus(shop);
+
+    return createSuccessResponse({
+      plan_name: shop.plan_name,
+      overage_rate: getPlanByName(shop.plan_name)?.overage_rate ?? null,
+      ...status,
+      voicemail_only: getQuotaMode(shop.settings).active,
+      plans: Object.values(BILLING_PLANS),
+    });
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
 }
 
-export async function GET() {
-  return NextResponse.json({ status: 'active' });
+/**
+ * POST /api/billing
+ * Start a subscription (or plan change) for the authenticated shop
+ *
+ * Body: { plan: 'starter' | 'professional' | 'enterprise' }
+ * Returns the Shopify confirmationUrl; the app must open it at the top level.
+ * Shops still in their free trial carry the remaining trial days over.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const parsed = subscribeRequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return createErrorResponse(new ValidationError('Invalid plan', parsed.error.flatten()));
+    }
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    const plan = BILLING_PLANS[parsed.data.plan];
+    if (shop.subscription_status === 'active' && shop.plan_name === plan.id) {
+      return createErrorResponse(new ConflictError(`Already subscribed to the ${plan.name} plan`));
+    }
+
+    const trialDays =
+      shop.subscription_status === 'trial' && !shop.subscription_id
+        ? Math.max(0, Math.ceil((getTrialEndsAt(shop).getTime() - Date.now()) / DAY_MS))
+        : 0;
+
+    const returnUrl = new URL('/api/billing/confirm', env.SHOPIFY_APP_URL);
+    returnUrl.searchParams.set('shop', shop.shop_domain);
+
+    const { confirmationUrl } = await createPlanSubscription(shop, plan, {
+      returnUrl: returnUrl.toString(),
+      trialDays,
+    });
+
+    return createSuccessResponse({ confirmationUrl });
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
 }
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { resumeSpendPausedShops } from '@/lib/spend';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { AuthenticationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/billing/spend/resume
+ * Scheduled sweep (see vercel.json crons) that restores assistants paused
+ * for a spend budget once the budget's window has reset. Vercel sends
+ * CRON_SECRET as a bearer token.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return createErrorResponse(new AuthenticationError('Invalid cron secret'));
+    }
+
+    const totals = await resumeSpendPausedShops();
+
+    console.log('[Spend] Resume sweep finished:', totals);
+    return createSuccessResponse(totals);
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { processCall } from '@/lib/call-processor';
+import { authenticateAdmin } from '@/lib/shopify/authenticate';
+import { getShopByDomain, getShopCall } from '@/lib/supabase/db';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { ExternalServiceError, NotFoundError, ValidationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/calls/{callId}/process
+ * Re-run post-call analysis for a single call, e.g. after a failed run
+ */
+export async function POST(request: NextRequest, { params }: { params: { callId: string } }) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    if (!z.string().uuid().safeParse(params.callId).success) {
+      return createErrorResponse(new ValidationError('Invalid call ID'));
+    }
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    const call = await getShopCall(shop.id, params.callId);
+    if (!call) {
+      return createErrorResponse(new NotFoundError('Call not found'));
+    }
+
+    const result = await processCall(call.id, { force: true });
+
+    if (result.status === 'failed') {
+      return createErrorResponse(
+        new ExternalServiceError('Call processing failed', 'call-processor', { error: result.error })
+      );
+    }
+
+    // 'skipped' means another run holds the call; the page will pick up its result
+    return createSuccessResponse({ status: result.status, call: result.call ?? call });
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { authenticateAdmin } from '@/lib/shopify/authenticate';
+import { getCallActions, getShopByDomain, getShopCall } from '@/lib/supabase/db';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { NotFoundError, ValidationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/calls/{callId}
+ * Full call detail: transcript, recording, summary and the actions taken
+ */
+export async function GET(request: NextRequest, { params }: { params: { callId: string } }) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    if (!z.string().uuid().safeParse(params.callId).success) {
+      return createErrorResponse(new ValidationError('Invalid call ID'));
+    }
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    const call = await getShopCall(shop.id, params.callId);
+    if (!call) {
+      return createErrorResponse(new NotFoundError('Call not found'));
+    }
+
+    const actions = await getCallActions(call.id);
+
+    return createSuccessResponse({ call, actions });
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { retryUnprocessedCalls } from '@/lib/call-processor';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { AuthenticationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/calls/process
+ * Scheduled sweep (see vercel.json crons) that retries calls whose post-call
+ * processing is pending, failed, or stuck. Vercel sends CRON_SECRET as a
+ * bearer token.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return createErrorResponse(new AuthenticationError('Invalid cron secret'));
+    }
+
+    const totals = await retryUnprocessedCalls();
+
+    console.log('[CallProcessor] Sweep finished:', totals);
+    return createSuccessResponse(totals);
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
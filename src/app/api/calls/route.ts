@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server';
+import { authenticateAdmin } from '@/lib/shopify/authenticate';
+import { getShopByDomain, getShopCalls } from '@/lib/supabase/db';
+import { callListQuerySchema } from '@/lib/validations';
+import { createErrorResponse, createPaginatedResponse } from '@/lib/utils/api';
+import { NotFoundError, ValidationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/calls
+ * Call history for the authenticated shop, newest first
+ *
+ * Query params:
+ * - page, pageSize: offset pagination
+ * - cursor: keyset cursor from a previous response's nextCursor (preferred)
+ * - from, to: ISO timestamps bounding started_at
+ * - sentiment, resolutionStatus: exact match filters
+ * - tags: comma-separated, calls must carry all of them
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const params = request.nextUrl.searchParams;
+    const get = (key: string) => params.get(key) || undefined;
+
+    const parsed = callListQuerySchema.safeParse({
+      page: get('page') ? Number(get('page')) : undefined,
+      pageSize: get('pageSize') ? Number(get('pageSize')) : undefined,
+      cursor: get('cursor'),
+      from: get('from'),
+      to: get('to'),
+      sentiment: get('sentiment'),
+      resolutionStatus: get('resolutionStatus'),
+      tags: get('tags')
+        ?.split(',')
+        .map(tag => tag.trim())
+        .filter(Boolean),
+    });
+
+    if (!parsed.success) {
+      return createErrorResponse(
+        new ValidationError('Invalid query parameters', parsed.error.flatten())
+      );
+    }
+
+    const { page, pageSize, ...filters } = parsed.data;
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    const { calls, total, nextCursor } = await getShopCalls(
+      shop.id,
+      pageSize,
+      (page - 1) * pageSize,
+      filters
+    );
+
+    // Transcripts can be large - the list only needs row-level fields
+    const items = calls.map(({ transcript, ...call }) => ({
+      ...call,
+      has_transcript: !!transcript,
+    }));
+
+    return createPaginatedResponse(items, total, page, pageSize, 200, nextCursor);
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
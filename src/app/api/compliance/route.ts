@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { authenticateAdmin } from '@/lib/shopify/authenticate';
+import { getGdprRequests } from '@/lib/supabase/db';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/compliance
+ * GDPR requests Shopify sent for the authenticated shop, newest first
+ * Customer data requests include the JSON export to send to the customer.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const requests = await getGdprRequests(shopDomain);
+
+    return createSuccessResponse({ requests });
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
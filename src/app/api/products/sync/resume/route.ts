@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { resumeProductSyncs } from '@/lib/product-sync';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { AuthenticationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+// Slices stop at SYNC_SLICE_BUDGET_MS, under this limit
+export const maxDuration = 60;
+
+/**
+ * GET /api/products/sync/resume
+ * Scheduled sweep (see vercel.json crons) that carries on product sync runs
+ * left pending by a slice that ran out of time, or stuck running because
+ * their slice died. Vercel sends CRON_SECRET as a bearer token.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return createErrorResponse(new AuthenticationError('Invalid cron secret'));
+    }
+
+    const totals = await resumeProductSyncs();
+
+    console.log('[ProductSync] Sweep finished:', totals);
+    return createSuccessResponse(totals);
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { authenticateAdmin } from '@/lib/shopify/authenticate';
+import { getLatestProductSyncRun, getShopByDomain, type ProductSyncRun } from '@/lib/supabase/db';
+import { runProductSyncSlice, startProductSync } from '@/lib/product-sync';
+import { productSyncRequestSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { NotFoundError, ValidationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * Time a POST spends syncing before answering with progress
+ * Kept short so the progress bar moves; the client posts again to continue.
+ */
+const INTERACTIVE_SLICE_MS = 20_000;
+
+/**
+ * Run plus a 0-100 progress figure for the progress bar
+ * null while the total isn't known yet (a bulk export still running).
+ */
+function withProgress(run: ProductSyncRun | null) {
+  if (!run) return { run: null, progress: null };
+  if (run.status === 'completed') return { run, progress: 100 };
+  if (!run.total_estimate) return { run, progress: null };
+
+  const done = run.processed + run.failed;
+  return { run, progress: Math.min(99, Math.round((done / run.total_estimate) * 100)) };
+}
+
+/**
+ * GET /api/products/sync
+ * The authenticated shop's most recent product sync run and its progress
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    return createSuccessResponse(withProgress(await getLatestProductSyncRun(shop.id)));
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
+
+/**
+ * POST /api/products/sync
+ * Start a product sync, or continue the one in progress, and work on it for
+ * up to 20 seconds. Post again while the returned run is pending; runs left
+ * alone are finished by the /api/products/sync/resume cron.
+ *
+ * Body (optional):
+ * - mode: 'full' | 'delta' | 'bulk' (default: chosen from sync history and
+ *   catalog size). Ignored when a run is already in progress.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const parsed = productSyncRequestSchema.safeParse((await request.json().catch(() => null)) ?? {});
+    if (!parsed.success) {
+      return createErrorResponse(new ValidationError('Invalid sync request', parsed.error.flatten()));
+    }
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    const { run } = await startProductSync(shop, { mode: parsed.data.mode });
+    const updated = await runProductSyncSlice(run.id, { budgetMs: INTERACTIVE_SLICE_MS });
+
+    return createSuccessResponse(withProgress(updated ?? run));
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { previewPersona } from '@/lib/receptionist-persona';
+import { authenticateAdmin } from '@/lib/shopify/authenticate';
+import { getShopByDomain } from '@/lib/supabase/db';
+import { receptionistPersonaSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { NotFoundError, ValidationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/settings/persona/preview
+ * The system prompt and first message a persona compiles to, with the
+ * shop's products, hours and transfer rules. Send a persona to preview
+ * unsaved edits; an empty body previews the saved draft.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const body = await request.json().catch(() => null);
+    const parsed = body ? receptionistPersonaSchema.safeParse(body) : null;
+    if (parsed && !parsed.success) {
+      return createErrorResponse(new ValidationError('Invalid persona', parsed.error.flatten()));
+    }
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    return createSuccessResponse(await previewPersona(shop, parsed?.data));
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
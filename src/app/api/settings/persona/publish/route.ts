@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { publishPersona } from '@/lib/receptionist-persona';
+import { authenticateAdmin } from '@/lib/shopify/authenticate';
+import { getShopByDomain } from '@/lib/supabase/db';
+import { publishPersonaRequestSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { NotFoundError, ValidationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/settings/persona/publish
+ * Publish the draft persona to the shop's Vapi assistant. Pass
+ * { version } to publish an earlier version instead.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const parsed = publishPersonaRequestSchema.safeParse((await request.json().catch(() => null)) ?? {});
+    if (!parsed.success) {
+      return createErrorResponse(new ValidationError('Invalid publish request', parsed.error.flatten()));
+    }
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    return createSuccessResponse(await publishPersona(shop, parsed.data.version));
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
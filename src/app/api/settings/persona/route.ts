@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { getPersonaOverview, savePersona } from '@/lib/receptionist-persona';
+import { authenticateAdmin } from '@/lib/shopify/authenticate';
+import { getShopByDomain } from '@/lib/supabase/db';
+import { receptionistPersonaSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { NotFoundError, ValidationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/settings/persona
+ * The receptionist persona being edited, with the shop's draft, published
+ * and past versions
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    return createSuccessResponse(await getPersonaOverview(shop));
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
+
+/**
+ * PUT /api/settings/persona
+ * Save the persona as the shop's draft. Nothing changes on calls until the
+ * draft is published.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const parsed = receptionistPersonaSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return createErrorResponse(new ValidationError('Invalid persona', parsed.error.flatten()));
+    }
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    return createSuccessResponse(await savePersona(shop, parsed.data));
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
@@ -1,3 +1,94 @@
-export async function GET() {
-  return new Response('Settings API');
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { requestAssistantSync } from '@/lib/assistant-sync';
+import { getTransferSettings } from '@/lib/call-transfer';
+import { getSpendSummary, reconcileSpendPause } from '@/lib/spend';
+import { authenticateAdmin } from '@/lib/shopify/authenticate';
+import { getShopByDomain, setShopSetting } from '@/lib/supabase/db';
+import { spendBudgetSchema, transferSettingsSchema } from '@/lib/validations';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { NotFoundError, ValidationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const settingsUpdateSchema = z
+  .object({
+    transfer: transferSettingsSchema.optional(),
+    spend_budget: spendBudgetSchema.optional(),
+  })
+  .refine(update => update.transfer || update.spend_budget, 'Nothing to update');
+
+/**
+ * GET /api/settings
+ * Receptionist settings for the authenticated shop
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    return createSuccessResponse({
+      timezone: shop.timezone,
+      transfer: getTransferSettings(shop.settings),
+      spend: await getSpendSummary(shop),
+    });
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
+
+/**
+ * PUT /api/settings
+ * Replace the transfer settings and/or the spend budget; other keys in
+ * shops.settings are preserved. A budget change lifts a spend pause that no
+ * longer applies; a transfer change queues an assistant re-sync.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const parsed = settingsUpdateSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return createErrorResponse(new ValidationError('Invalid settings', parsed.error.flatten()));
+    }
+
+    const { transfer, spend_budget } = parsed.data;
+    const ids = transfer?.destinations.map(destination => destination.id) ?? [];
+    if (new Set(ids).size !== ids.length) {
+      return createErrorResponse(new ValidationError('Transfer destination IDs must be unique'));
+    }
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    // Each key is written on its own so concurrent pauses and syncs keep theirs
+    let updated = shop;
+    if (transfer) {
+      updated = await setShopSetting(shop.id, 'transfer', transfer);
+    }
+    if (spend_budget) {
+      updated = await setShopSetting(shop.id, 'spend_budget', spend_budget);
+      updated = await reconcileSpendPause(updated);
+    }
+    if (transfer) {
+      // Escalation rules are part of the assistant's prompt
+      await requestAssistantSync(updated.id, 'settings_saved');
+    }
+
+    return createSuccessResponse({
+      timezone: updated.timezone,
+      transfer: getTransferSettings(updated.settings),
+      spend: await getSpendSummary(updated),
+    });
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
 }
@@ -2,6 +2,22 @@ export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSupabase } from '@/lib/supabaseServer';
+import { getQuotaMode, VOICEMAIL_ONLY_TOOL_RESULT } from '@/lib/billing-guard';
+import {
+  extractCallContext,
+  transferResponseFields,
+  type FunctionCallContext,
+} from '@/lib/vapi/functions';
+import {
+  extractToolCall,
+  extractToolCalls,
+  runVapiTool,
+  runVapiToolCalls,
+  toToolCallResult,
+  VAPI_TOOLS,
+} from '@/lib/vapi/tools';
+import { verifyVapiRequest } from '@/lib/vapi/signature';
+import { getShopVerificationOptions } from '@/lib/vapi/server-secrets';
 
 /**
  * Shop-Specific Vapi Function Calling Endpoint
@@ -32,7 +48,7 @@ export async function POST(
     console.log(`[Vapi Functions] Processing function call for shop: ${shopId}`);
 
     // ======================================================================
-    // Security: Validate API Key
+    // Security: Verify the request came from Vapi
     // ======================================================================
     // Validate request object first
     if (!request || !request.headers) {
@@ -45,31 +61,18 @@ export async function POST(
       }, { status: 400 });
     }
 
-    // Support multiple authentication methods:
-    // 1. X-Vapi-Secret (Vapi's preferred method)
-    // 2. x-api-key (fallback)
-    // 3. Authorization Bearer (fallback)
-    const apiKey = request.headers.get('x-vapi-secret') || 
-                   request.headers.get('x-api-key') || 
-                   request.headers.get('authorization')?.replace('Bearer ', '');
-    const expectedKey = process.env.VAPI_API_KEY;
-    
-    if (!apiKey || apiKey !== expectedKey) {
-      console.error('[Vapi Functions] ❌ Unauthorized: Invalid or missing API key');
-      console.error('[Vapi Functions] Headers received:', {
-        'x-vapi-secret': request.headers.get('x-vapi-secret') ? 'present' : 'missing',
-        'x-api-key': request.headers.get('x-api-key') ? 'present' : 'missing',
-        'authorization': request.headers.get('authorization') ? 'present' : 'missing'
-      });
+    // Read the raw body once: the signature is computed over it
+    const raw = await request.text();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let body: any = {};
+    try {
+      body = JSON.parse(raw);
+    } catch {
       return NextResponse.json({
         results: [{
-          error: 'Unauthorized: Invalid API key',
+          error: 'Invalid JSON body',
         }],
-      }, { status: 401 });
-    }
-    
-    if (isDev) {
-      console.log('[Vapi Functions] ✅ API key validated');
+      }, { status: 400 });
     }
 
     // ======================================================================
@@ -80,7 +83,7 @@ export async function POST(
     // Get shop data from database
     const { data: shop, error: shopError } = await supabase
       .from('shops')
-      .select('id, shop_domain, access_token_offline, access_token, vapi_assistant_id')
+      .select('id, shop_domain, timezone, currency, locale, settings, access_token_offline, access_token, vapi_assistant_id, vapi_server_secret_hash, vapi_previous_server_secret_hash, vapi_previous_server_secret_expires_at')
       .eq('id', shopId)
       .maybeSingle();
 
@@ -89,6 +92,24 @@ export async function POST(
       return NextResponse.json({ ok: false, error: 'SHOP_READ_FAILED' }, { status: 500 });
     }
 
+    // HMAC signature or the shop's server secret (x-vapi-secret, x-api-key or Bearer)
+    const verification = verifyVapiRequest(raw, request.headers, {
+      endpoint: 'functions',
+      body,
+      ...getShopVerificationOptions(shop),
+    });
+    if (!verification.valid) {
+      return NextResponse.json({
+        results: [{
+          error: 'Unauthorized: Invalid signature or secret',
+        }],
+      }, { status: 401 });
+    }
+
+    if (isDev) {
+      console.log(`[Vapi Functions] ✅ Request verified (${verification.method})`);
+    }
+
     if (!shop) {
       return NextResponse.json({ ok: false, error: 'SHOP_NOT_FOUND' }, { status: 404 });
     }
@@ -105,8 +126,6 @@ export async function POST(
     // ======================================================================
     // Process Function Call
     // ======================================================================
-    const body = await request.json();
-    
     if (isDev) {
       console.log('[Vapi Functions] ═══════════════════════════════════════');
       console.log('[Vapi Functions] Received function call');
@@ -114,9 +133,10 @@ export async function POST(
     }
 
     // Extract function call details
-    const functionCall = body?.message?.functionCall;
+    const toolCall = extractToolCall(body);
+    const toolCalls = extractToolCalls(body);
     
-    if (!functionCall) {
+    if (!toolCall) {
       console.error('[Vapi Functions] No function call found in request');
       return NextResponse.json({
         results: [{
@@ -125,32 +145,40 @@ export async function POST(
       }, { status: 400 });
     }
 
-    const { name, parameters } = functionCall;
-
     if (isDev) {
-      console.log('[Vapi Functions] Function:', name);
-      console.log('[Vapi Functions] Parameters:', parameters);
+      console.log('[Vapi Functions] Function:', toolCall.name);
+      console.log('[Vapi Functions] Parameters:', toolCall.args);
     }
 
-    // Route to appropriate function handler
-    let result;
+    const functionContext: FunctionCallContext = {
+      shopId: shop.id,
+      shopDomain: shop.shop_domain,
+      accessToken: adminToken,
+      timezone: shop.timezone || undefined,
+      currency: shop.currency || undefined,
+      locale: shop.locale || undefined,
+      settings: shop.settings || undefined,
+      ...extractCallContext(body),
+    };
     
-    switch (name) {
-      case 'get_products':
-        result = await handleGetProducts(parameters, shop.shop_domain, adminToken);
-        break;
-      
-      case 'search_products':
-        result = await handleSearchProducts(parameters, shop.shop_domain, adminToken);
-        break;
-      
-      default:
-        console.error('[Vapi Functions] Unknown function:', name);
-        result = {
-          error: `Unknown function: ${name}`,
-        };
+    // Voicemail-only mode (quota used up): tools stay off until minutes are available
+    if (getQuotaMode(shop.settings || undefined).active) {
+      if (toolCalls.length > 0) {
+        return NextResponse.json({
+          results: toolCalls.map(call => toToolCallResult(call, VOICEMAIL_ONLY_TOOL_RESULT)),
+        });
+      }
+      return NextResponse.json({ results: [VOICEMAIL_ONLY_TOOL_RESULT] });
+    }
+
+    // tool-calls messages can carry several calls: run them concurrently, keyed by toolCallId
+    if (toolCalls.length > 0) {
+      return NextResponse.json(await runVapiToolCalls(toolCalls, functionContext));
     }
 
+    // Route to the tool's handler through the registry
+    const result = await runVapiTool(toolCall.name, toolCall.args, functionContext);
+
     if (isDev) {
       console.log('[Vapi Functions] Result:', JSON.stringify(result, null, 2));
       console.log('[Vapi Functions] ═══════════════════════════════════════');
@@ -159,6 +187,8 @@ export async function POST(
     // Return result in Vapi's expected format
     return NextResponse.json({
       results: [result],
+      // Transfers need the destination at the top level of the response
+      ...transferResponseFields(result),
     });
 
   } catch (error: any) {
@@ -172,125 +202,6 @@ export async function POST(
   }
 }
 
-/**
- * Get Products Handler
- * Fetches products from Shopify using the shop's access token
- */
-async function handleGetProducts(parameters: any, shopDomain: string, accessToken: string) {
-  try {
-    const limit = parameters?.limit || 5;
-
-    console.log(`[get_products] Fetching ${limit} products for ${shopDomain}`);
-
-    // Fetch products from Shopify using the shop's access token
-    const apiUrl = `https://${shopDomain}/admin/api/2024-10/products.json?limit=${limit}`;
-    
-    const response = await fetch(apiUrl, {
-      method: 'GET',
-      headers: {
-        'X-Shopify-Access-Token': accessToken,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      console.error('[get_products] Shopify API error:', response.status);
-      return {
-        error: 'Failed to fetch products from store',
-      };
-    }
-
-    const data = await response.json();
-    const products = data.products || [];
-
-    console.log(`[get_products] ✅ Fetched ${products.length} products`);
-
-    // Format products for the AI
-    const formattedProducts = products.map((product: any) => ({
-      title: product.title,
-      description: product.body_html?.replace(/<[^>]*>/g, '').substring(0, 200) || 'No description',
-      price: product.variants?.[0]?.price || 'Price varies',
-      available: product.variants?.[0]?.inventory_quantity > 0,
-      product_type: product.product_type,
-      vendor: product.vendor,
-    }));
-
-    return {
-      products: formattedProducts,
-      count: formattedProducts.length,
-    };
-
-  } catch (error: any) {
-    console.error('[get_products] Error:', error);
-    return {
-      error: 'Failed to fetch products',
-    };
-  }
-}
-
-/**
- * Search Products Handler
- * Searches products by keyword using the shop's access token
- */
-async function handleSearchProducts(parameters: any, shopDomain: string, accessToken: string) {
-  try {
-    const query = parameters?.query || '';
-
-    if (!query) {
-      return {
-        error: 'No search query provided',
-      };
-    }
-
-    console.log(`[search_products] Searching for "${query}" in ${shopDomain}`);
-
-    // Search products in Shopify using the shop's access token
-    const apiUrl = `https://${shopDomain}/admin/api/2024-10/products.json?title=${encodeURIComponent(query)}&limit=5`;
-    
-    const response = await fetch(apiUrl, {
-      method: 'GET',
-      headers: {
-        'X-Shopify-Access-Token': accessToken,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      console.error('[search_products] Shopify API error:', response.status);
-      return {
-        error: 'Failed to search products',
-      };
-    }
-
-    const data = await response.json();
-    const products = data.products || [];
-
-    console.log(`[search_products] ✅ Found ${products.length} products matching "${query}"`);
-
-    // Format products for the AI
-    const formattedProducts = products.map((product: any) => ({
-      title: product.title,
-      description: product.body_html?.replace(/<[^>]*>/g, '').substring(0, 200) || 'No description',
-      price: product.variants?.[0]?.price || 'Price varies',
-      available: product.variants?.[0]?.inventory_quantity > 0,
-      product_type: product.product_type,
-      vendor: product.vendor,
-    }));
-
-    return {
-      products: formattedProducts,
-      count: formattedProducts.length,
-      query: query,
-    };
-
-  } catch (error: any) {
-    console.error('[search_products] Error:', error);
-    return {
-      error: 'Failed to search products',
-    };
-  }
-}
-
 /**
  * Health check endpoint
  */
@@ -301,7 +212,7 @@ export async function GET(
   return NextResponse.json({
     status: 'ok',
     shopId: params.shopId,
-    functions: ['get_products', 'search_products'],
+    functions: Object.keys(VAPI_TOOLS),
     timestamp: new Date().toISOString(),
   });
 }
@@ -1,6 +1,21 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/client';
-import { getProducts, searchProducts } from '@/lib/shopify/admin-graphql';
+import { getShopByAssistantId, type Shop } from '@/lib/supabase/db';
+import { getQuotaMode, VOICEMAIL_ONLY_TOOL_RESULT } from '@/lib/billing-guard';
+import {
+  extractCallContext,
+  transferResponseFields,
+  type FunctionCallContext,
+} from '@/lib/vapi/functions';
+import {
+  extractToolCall,
+  extractToolCalls,
+  runVapiTool,
+  runVapiToolCalls,
+  toToolCallResult,
+} from '@/lib/vapi/tools';
+import { verifyVapiRequest } from '@/lib/vapi/signature';
+import { getShopVerificationOptions } from '@/lib/vapi/server-secrets';
 
 // Ensure Node.js runtime for this sensitive route
 export const runtime = 'nodejs';
@@ -18,6 +33,7 @@ function isToolCall(body: any): boolean {
   if (body.tool?.name) return true;
   if (body.function?.name) return true;
   if (body.message?.function?.name) return true;
+  if (body.message?.functionCall?.name) return true;
   if (body.message?.toolCalls?.length > 0) return true;
   return false;
 }
@@ -124,17 +140,24 @@ export async function POST(req: Request) {
     console.log('[Vapi Functions] Looking up shop for assistant ID:', assistantId);
     
     // Step 1: Get shop domain from shops table (business data only)
-    const { data: shop, error: shopError } = await supabaseAdmin
-      .from('shops')
-      .select('id, shop_domain, vapi_assistant_id')
-      .eq('vapi_assistant_id', assistantId)
-      .maybeSingle();
-
-    if (shopError) {
+    let shop: Shop | null;
+    try {
+      shop = await getShopByAssistantId(assistantId);
+    } catch (shopError) {
       console.error('[Vapi Functions] Shop lookup error', shopError);
       return NextResponse.json({ ok: false, error: 'SHOP_LOOKUP_FAILED' }, { status: 500 });
     }
 
+    // Verify the request came from Vapi (HMAC signature or the shop's server secret)
+    const verification = verifyVapiRequest(raw, req.headers, {
+      endpoint: 'functions',
+      body,
+      ...getShopVerificationOptions(shop),
+    });
+    if (!verification.valid) {
+      return NextResponse.json({ ok: false, error: 'UNAUTHORIZED' }, { status: 401 });
+    }
+
     if (!shop) {
       console.warn('[Vapi Functions] No shop found for assistant ID:', assistantId);
       return NextResponse.json({ 
@@ -191,34 +214,10 @@ export async function POST(req: Request) {
     // ======================================================================
     // Extract tool name and arguments
     // ======================================================================
-    let toolName: string | undefined;
-    let args: any = {};
-
-    // Try different possible locations for tool information
-    if (body.toolName) {
-      toolName = body.toolName;
-      args = body.arguments || {};
-    } else if (body.message?.toolName) {
-      toolName = body.message.toolName;
-      args = body.message.arguments || {};
-    } else if (body.tool?.name) {
-      toolName = body.tool.name;
-      args = body.tool.arguments || {};
-    } else if (body.function?.name) {
-      toolName = body.function.name;
-      args = body.function.arguments || {};
-    } else if (body.message?.function?.name) {
-      toolName = body.message.function.name;
-      args = body.message.function.arguments || {};
-    } else if (body.message?.toolCalls?.[0]) {
-      const toolCall = body.message.toolCalls[0];
-      if (toolCall.function) {
-        toolName = toolCall.function.name;
-        args = toolCall.function.arguments || {};
-      }
-    }
+    const toolCall = extractToolCall(body);
+    const toolCalls = extractToolCalls(body);
 
-    if (!toolName) {
+    if (!toolCall) {
       console.warn('[Vapi Functions] No tool name found in request');
       return NextResponse.json({ 
         ok: false, 
@@ -226,45 +225,44 @@ export async function POST(req: Request) {
       }, { status: 400 });
     }
 
-    console.log('[Vapi Functions] Processing tool:', toolName, 'with args:', args);
+    console.log('[Vapi Functions] Processing tool:', toolCall.name, 'with args:', toolCall.args);
 
     // ======================================================================
-    // Dispatch tool by name
+    // Dispatch tool through the registry
     // ======================================================================
-    let result: any;
-
-    switch (toolName) {
-      case 'search_products':
-        result = await handleSearchProducts(args, {
-          shopDomain: shopData.shop_domain,
-          accessToken: shopData.access_token
-        });
-        break;
-
-      case 'get_products':
-        result = await handleGetProducts(args, {
-          shopDomain: shopData.shop_domain,
-          accessToken: shopData.access_token
-        });
-        break;
+    const functionContext: FunctionCallContext = {
+      shopId: shopData.id,
+      shopDomain: shopData.shop_domain,
+      accessToken: shopData.access_token,
+      timezone: shop.timezone || undefined,
+      currency: shop.currency,
+      locale: shop.locale,
+      settings: shop.settings,
+      ...extractCallContext(body)
+    };
 
-      case 'check_order_status':
-        result = await handleCheckOrderStatus(args, {
-          shopDomain: shopData.shop_domain,
-          accessToken: shopData.access_token
+    // Voicemail-only mode (quota used up): tools stay off until minutes are available
+    if (getQuotaMode(shop.settings).active) {
+      if (toolCalls.length > 0) {
+        return NextResponse.json({
+          results: toolCalls.map(call => toToolCallResult(call, VOICEMAIL_ONLY_TOOL_RESULT)),
         });
-        break;
+      }
+      return NextResponse.json({ ok: true, result: VOICEMAIL_ONLY_TOOL_RESULT });
+    }
 
-      default:
-        console.warn('[Vapi Functions] Unknown tool:', toolName);
-        result = {
-          error: `Unknown tool: ${toolName}`,
-        };
+    // tool-calls messages can carry several calls: run them concurrently, keyed by toolCallId
+    if (toolCalls.length > 0) {
+      return NextResponse.json(await runVapiToolCalls(toolCalls, functionContext));
     }
 
+    const result = await runVapiTool(toolCall.name, toolCall.args, functionContext);
+
     return NextResponse.json({
       ok: true,
-      result: result
+      result: result,
+      // Transfers need the destination at the top level of the response
+      ...transferResponseFields(result)
     });
 
   } catch (e: any) {
@@ -273,138 +271,6 @@ export async function POST(req: Request) {
   }
 }
 
-/**
- * Search Products Handler
- */
-async function handleSearchProducts(parameters: any, shopData: { shopDomain: string; accessToken: string }) {
-  try {
-    const query = parameters?.query || '';
-    
-    if (!query) {
-      return {
-        error: 'Search query is required',
-      };
-    }
-
-    console.log(`[search_products] Searching for "${query}" in ${shopData.shopDomain}`);
-
-    const products = await searchProducts({
-      shopDomain: shopData.shopDomain,
-      accessToken: shopData.accessToken,
-      query,
-      limit: parameters?.limit || 5
-    });
-
-    console.log(`[search_products] ✅ Found ${products.length} products matching "${query}"`);
-
-    const formattedProducts = products.map((product) => ({
-      title: product.title,
-      description: 'Product available in store',
-      price: product.priceRange.minVariantPrice.amount,
-      currency: product.priceRange.minVariantPrice.currencyCode,
-      available: product.availableForSale,
-      handle: product.handle,
-      variants: product.variants.edges.map(edge => ({
-        title: edge.node.title,
-        price: edge.node.price.amount,
-        currency: edge.node.price.currencyCode,
-        available: edge.node.availableForSale
-      }))
-    }));
-
-    return {
-      products: formattedProducts,
-      count: formattedProducts.length,
-      query: query,
-    };
-
-  } catch (error: any) {
-    console.error('[search_products] Error:', error);
-    return {
-      error: 'Failed to search products',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
-}
-
-/**
- * Get Products Handler
- */
-async function handleGetProducts(parameters: any, shopData: { shopDomain: string; accessToken: string }) {
-  try {
-    const limit = parameters?.limit || 5;
-    
-    console.log(`[get_products] Fetching ${limit} products for ${shopData.shopDomain}`);
-
-    const products = await getProducts({
-      shopDomain: shopData.shopDomain,
-      accessToken: shopData.accessToken,
-      limit
-    });
-
-    console.log(`[get_products] ✅ Fetched ${products.length} products`);
-
-    const formattedProducts = products.map((product) => ({
-      title: product.title,
-      description: 'Product available in store',
-      price: product.priceRange.minVariantPrice.amount,
-      currency: product.priceRange.minVariantPrice.currencyCode,
-      available: product.availableForSale,
-      handle: product.handle,
-      variants: product.variants.edges.map(edge => ({
-        title: edge.node.title,
-        price: edge.node.price.amount,
-        currency: edge.node.price.currencyCode,
-        available: edge.node.availableForSale
-      }))
-    }));
-
-    return {
-      products: formattedProducts,
-      count: formattedProducts.length,
-    };
-
-  } catch (error: any) {
-    console.error('[get_products] Error:', error);
-    return {
-      error: 'Failed to fetch products',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
-}
-
-/**
- * Check Order Status Handler
- */
-async function handleCheckOrderStatus(parameters: any, shopData: { shopDomain: string; accessToken: string }) {
-  try {
-    const orderId = parameters?.orderId;
-    
-    if (!orderId) {
-      return {
-        error: 'Order ID is required',
-      };
-    }
-
-    console.log(`[check_order_status] Checking order ${orderId} for ${shopData.shopDomain}`);
-
-    // Order status lookup via Shopify Admin API (placeholder)
-    // For now, return a placeholder response
-    return {
-      orderId: orderId,
-      status: 'processing',
-      message: 'Order status lookup not yet implemented'
-    };
-
-  } catch (error: any) {
-    console.error('[check_order_status] Error:', error);
-    return {
-      error: 'Failed to check order status',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
-}
-
 /**
  * Health check endpoint
  */
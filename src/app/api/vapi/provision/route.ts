@@ -10,6 +10,7 @@ import { createSuccessResponse, createErrorResponse } from '@/lib/utils/api';
 import { AuthenticationError, ExternalServiceError, ValidationError } from '@/lib/utils/errors';
 import { logError } from '@/lib/utils/errors';
 import { normalizeShopDomain } from '@/lib/normalize';
+import { getTransferSettings } from '@/lib/call-transfer';
 
 /**
  * POST /api/vapi/provision
@@ -165,7 +166,7 @@ export async function POST(request: NextRequest) {
               shopify_product_id: 'placeholder',
               title: 'Sample Product',
               description: 'Welcome to our store! We have many products available.',
-              price: 9900, // $99.00
+              price: 99,
               currency: 'USD',
               inventory_quantity: 0,
               image_url: null,
@@ -187,6 +188,7 @@ export async function POST(request: NextRequest) {
       products: productList,
       voiceId: (shop.settings?.voice_id as string) || 'rachel',
       hoursOfOperation: (shop.settings?.hours_of_operation as string) || undefined,
+      transferSettings: getTransferSettings(shop.settings as Record<string, unknown>),
     };
 
     console.log(`[${requestId}] Validating assistant configuration...`);
@@ -216,7 +218,10 @@ export async function POST(request: NextRequest) {
       .update({
         vapi_assistant_id: provisioningResult.assistantId,
         provisioned_phone_number: provisioningResult.phoneNumber,
-        vapi_phone_number_id: provisioningResult.phoneNumber, // Store for reference
+        vapi_phone_number_id: provisioningResult.phoneNumberId, // Needed to release the number on uninstall
+        vapi_server_secret_hash: provisioningResult.serverSecretHash,
+        vapi_config_hash: provisioningResult.configHash,
+        vapi_config_synced_at: new Date().toISOString(),
         settings: {
           ...shop.settings,
           voice_receptionist_active: true,
@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server';
+import { authenticateAdmin } from '@/lib/shopify/authenticate';
+import { getShopByDomain } from '@/lib/supabase/db';
+import { rotateShopServerSecret, SERVER_SECRET_GRACE_PERIOD_HOURS } from '@/lib/vapi/server-secrets';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { NotFoundError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/vapi/server-secret
+ * Rotate the secret the shop's assistant sends to our tool endpoints
+ * The previous secret keeps working for SERVER_SECRET_GRACE_PERIOD_HOURS.
+ * The secret itself is never returned.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    const updated = await rotateShopServerSecret(shop);
+
+    return createSuccessResponse({
+      rotated_at: updated.vapi_server_secret_rotated_at,
+      previous_secret_expires_at: updated.vapi_previous_server_secret_expires_at,
+      grace_period_hours: SERVER_SECRET_GRACE_PERIOD_HOURS,
+    });
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
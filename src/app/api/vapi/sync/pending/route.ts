@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { syncPendingAssistants } from '@/lib/assistant-sync';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { AuthenticationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/vapi/sync/pending
+ * Scheduled sweep (see vercel.json crons) that syncs assistants whose
+ * requested re-sync is due, after product, shop or settings changes.
+ * Vercel sends CRON_SECRET as a bearer token.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return createErrorResponse(new AuthenticationError('Invalid cron secret'));
+    }
+
+    const totals = await syncPendingAssistants();
+
+    console.log('[AssistantSync] Pending sweep finished:', totals);
+    return createSuccessResponse(totals);
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { syncAssistant } from '@/lib/assistant-sync';
+import { authenticateAdmin } from '@/lib/shopify/authenticate';
+import { getShopByDomain } from '@/lib/supabase/db';
+import { createErrorResponse, createSuccessResponse } from '@/lib/utils/api';
+import { NotFoundError, ValidationError } from '@/lib/utils/errors';
+
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/vapi/sync
+ * When the shop's assistant was last synced and whether a sync is waiting
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+
+    return createSuccessResponse({
+      synced_at: shop.vapi_config_synced_at,
+      config_hash: shop.vapi_config_hash,
+      pending: shop.vapi_sync_due_at !== null,
+      due_at: shop.vapi_sync_due_at,
+    });
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
+
+/**
+ * POST /api/vapi/sync
+ * Sync the shop's assistant now, comparing every field with the live
+ * assistant even if the config hasn't changed (e.g. after edits in the Vapi
+ * dashboard)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { shop: shopDomain } = await authenticateAdmin(request);
+
+    const shop = await getShopByDomain(shopDomain);
+    if (!shop) {
+      return createErrorResponse(new NotFoundError('Shop not found'));
+    }
+    if (!shop.vapi_assistant_id) {
+      return createErrorResponse(new ValidationError('Shop has no assistant to sync'));
+    }
+
+    return createSuccessResponse(await syncAssistant(shop, { force: true }));
+  } catch (error) {
+    return createErrorResponse(error as Error);
+  }
+}
@@ -167,7 +167,8 @@ Remember: You have access to real product data. Use it to give accurate, helpful
       backgroundSound: 'off', // No background sound for clearer audio
       // Server URL for function calling - validated public URL
       serverUrl: functionUrl, // Pre-validated above
-      serverUrlSecret: process.env.VAPI_API_KEY, // Optional: for securing the endpoint
+      // Test assistants aren't saved to a shop, so they use the app-wide secret
+      serverUrlSecret: process.env.VAPI_WEBHOOK_SECRET,
     });
     
     console.log(`[${requestId}] ✅ Assistant created: ${assistant.id}`);
@@ -1,4 +1,12 @@
 import { NextResponse } from 'next/server';
+import { getShopByAssistantId, upsertCallByVapiId, type Call } from '@/lib/supabase/db';
+import { getVapiAssistantId, parseVapiCallEvent } from '@/lib/vapi/webhook';
+import { verifyVapiRequest } from '@/lib/vapi/signature';
+import { getShopVerificationOptions } from '@/lib/vapi/server-secrets';
+import { processCall } from '@/lib/call-processor';
+import { recordUsageForCall } from '@/lib/billing-guard';
+import { recordSpendForCall } from '@/lib/spend';
+import { extractCallContext, handleTransferCall } from '@/lib/vapi/functions';
 
 // Ensure Node.js runtime for this sensitive route
 export const runtime = 'nodejs';
@@ -8,11 +16,15 @@ export const runtime = 'nodejs';
  * 
  * Handles conversation/call lifecycle events from Vapi:
  * - conversation-update
- * - call.started
- * - call.ended
+ * - call.started / status-update (in-progress)
+ * - call.ended / end-of-call-report / status-update (ended)
  * - transcript.available
+ * - transfer-destination-request (answered with the shop's transfer number)
  * - etc.
  * 
+ * Lifecycle events are persisted to the calls table, keyed on vapi_call_id.
+ * The shop is resolved from the assistant ID (shops.vapi_assistant_id).
+ * 
  * DO NOT attempt product lookups here - those go to /api/vapi/functions
  */
 export async function POST(req: Request) {
@@ -36,24 +48,33 @@ export async function POST(req: Request) {
       return NextResponse.json({ success: false, error: 'INVALID_JSON' }, { status: 400 });
     }
 
+    const eventType = body?.type || body?.message?.type || 'unknown';
+    const callId = body?.call?.id || body?.message?.call?.id || body?.callId;
+    // Same resolution as parseVapiCallEvent, so verification and the stored call agree
+    const assistantId = getVapiAssistantId(body);
+
     // ======================================================================
-    // Optional: Verify Vapi signature
+    // Verify the request came from Vapi (HMAC signature or the shop's server secret)
     // ======================================================================
-    if (process.env.VAPI_WEBHOOK_SECRET) {
-      // Signature verification can be added if needed for security
-      // const signature = req.headers.get('x-vapi-signature');
-      // const isValid = verifyVapiSignature(raw, signature);
-      // if (!isValid) {
-      //   return NextResponse.json({ success: false, error: 'INVALID_SIGNATURE' }, { status: 401 });
-      // }
+    // A failed lookup verifies as an unknown shop (HMAC only) rather than a 500
+    const shop = assistantId
+      ? await getShopByAssistantId(assistantId).catch(error => {
+          console.error('[Vapi Webhook] Shop lookup failed:', error);
+          return null;
+        })
+      : null;
+    const verification = verifyVapiRequest(raw, req.headers, {
+      endpoint: 'webhook',
+      body,
+      ...getShopVerificationOptions(shop),
+    });
+    if (!verification.valid) {
+      return NextResponse.json({ success: false, error: 'INVALID_SIGNATURE' }, { status: 401 });
     }
 
     // ======================================================================
     // Process webhook events
     // ======================================================================
-    const eventType = body?.type || body?.message?.type || 'unknown';
-    const callId = body?.call?.id || body?.callId;
-    const assistantId = body?.assistant?.id || body?.assistantId;
 
     console.log('[Vapi Webhook] Received event:', {
       type: eventType,
@@ -73,6 +94,7 @@ export async function POST(req: Request) {
         break;
 
       case 'call.ended':
+      case 'end-of-call-report':
         await handleCallEnded(body);
         break;
 
@@ -84,6 +106,10 @@ export async function POST(req: Request) {
         await handleStatusUpdate(body);
         break;
 
+      case 'transfer-destination-request':
+        // Vapi waits on this response to know where to send the call
+        return NextResponse.json(await handleTransferDestinationRequest(body));
+
       case 'speech-update':
         await handleSpeechUpdate(body);
         break;
@@ -122,59 +148,122 @@ async function handleConversationUpdate(body: any) {
 }
 
 /**
- * Handle call started events
+ * Resolve the shop from the assistant ID and upsert the call row
+ * Returns null when the event can't be attributed to a shop
  */
-async function handleCallStarted(body: any) {
-  console.log('[Vapi Webhook] Call started:', {
-    callId: body?.call?.id,
-    assistantId: body?.assistant?.id,
-    customerNumber: body?.customer?.number,
-    timestamp: body?.call?.createdAt
+async function persistCallEvent(body: unknown): Promise<Call | null> {
+  const event = parseVapiCallEvent(body);
+
+  if (!event) {
+    console.warn('[Vapi Webhook] Event has no call ID - skipping persistence');
+    return null;
+  }
+
+  if (!event.assistantId) {
+    console.warn('[Vapi Webhook] No assistant ID on event for call:', event.vapiCallId);
+    return null;
+  }
+
+  const shop = await getShopByAssistantId(event.assistantId);
+  if (!shop) {
+    console.warn('[Vapi Webhook] No shop found for assistant ID:', event.assistantId);
+    return null;
+  }
+
+  const call = await upsertCallByVapiId(shop.id, event.vapiCallId, {
+    customer_phone: event.customerPhone ?? undefined,
+    customer_name: event.customerName,
+    started_at: event.startedAt,
+    ended_at: event.endedAt ?? (event.type === 'ended' ? new Date().toISOString() : null),
+    duration_seconds: event.durationSeconds ?? undefined,
+    cost_cents: event.costCents ?? undefined,
+    recording_url: event.recordingUrl,
+    transcript: event.transcript ? { ...event.transcript } : null,
   });
-  
-  // Log call start for analytics (placeholder)
-  // Could track call volume, peak times, etc.
+
+  console.log('[Vapi Webhook] Call persisted:', {
+    callId: call.id,
+    vapiCallId: call.vapi_call_id,
+    shopId: shop.id,
+    stage: event.type,
+  });
+
+  return call;
 }
 
 /**
- * Handle call ended events
+ * Handle call started events
  */
-async function handleCallEnded(body: any) {
-  console.log('[Vapi Webhook] Call ended:', {
-    callId: body?.call?.id,
-    assistantId: body?.assistant?.id,
-    duration: body?.call?.duration,
-    status: body?.call?.status,
-    timestamp: body?.call?.endedAt
-  });
-  
-  // Log call end for analytics (placeholder)
-  // Could track call duration, success rates, etc.
+async function handleCallStarted(body: unknown) {
+  await persistCallEvent(body);
+}
+
+/**
+ * Handle call ended events (call.ended and end-of-call-report)
+ * Fills in ended_at, duration, cost, recording URL and the final transcript,
+ * then runs post-call analysis, bills the call's minutes and adds its cost to
+ * the shop's spend
+ */
+async function handleCallEnded(body: unknown) {
+  const call = await persistCallEvent(body);
+
+  // Awaited so the serverless function stays alive until analysis is stored.
+  // Usage and spend go first so billing never waits on (or is lost to) a
+  // failed analysis.
+  if (call?.ended_at) {
+    await recordUsageForCall(call.id);
+    await recordSpendForCall(call.id);
+    await processCall(call.id);
+  }
 }
 
 /**
  * Handle transcript available events
  */
-async function handleTranscriptAvailable(body: any) {
-  console.log('[Vapi Webhook] Transcript available:', {
-    callId: body?.call?.id,
-    assistantId: body?.assistant?.id,
-    transcriptLength: body?.transcript?.length || 0
-  });
-  
-  // Store transcript if needed (placeholder)
-  // Could save for customer service review, training, etc.
+async function handleTranscriptAvailable(body: unknown) {
+  const call = await persistCallEvent(body);
+
+  // A transcript arriving after the call was analyzed warrants a fresh pass
+  if (call?.ended_at && call.processing_status === 'completed') {
+    await processCall(call.id, { force: true });
+  }
 }
 
 /**
  * Handle status update events
+ * in-progress and ended statuses map onto the call lifecycle
  */
-async function handleStatusUpdate(body: any) {
-  console.log('[Vapi Webhook] Status update:', {
-    callId: body?.call?.id,
-    assistantId: body?.assistant?.id,
-    status: body?.call?.status
-  });
+async function handleStatusUpdate(body: unknown) {
+  await persistCallEvent(body);
+}
+
+/**
+ * Answer a transfer-destination-request with the merchant's open destination
+ * Uses the same routing and call_actions bookkeeping as the transfer_call tool.
+ */
+async function handleTransferDestinationRequest(body: unknown) {
+  const event = parseVapiCallEvent(body);
+  const shop = event?.assistantId ? await getShopByAssistantId(event.assistantId) : null;
+
+  if (!shop) {
+    console.warn('[Vapi Webhook] Transfer requested for unknown shop');
+    return { error: 'Transfer is not available' };
+  }
+
+  const result = await handleTransferCall(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    { reason: (body as any)?.message?.reason ?? null },
+    {
+      shopId: shop.id,
+      shopDomain: shop.shop_domain,
+      accessToken: '', // Transfers never call the Admin API
+      timezone: shop.timezone,
+      settings: shop.settings,
+      ...extractCallContext(body),
+    }
+  );
+
+  return result.transferred ? { destination: result.destination } : { error: result.message };
 }
 
 /**
@@ -99,8 +99,9 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Extract shop domain from payload
-      const shop = getShopFromWebhook(payload);
+      // Extract shop domain; payloads such as app_subscriptions/update only
+      // identify the shop in the header
+      const shop = getShopFromWebhook(payload) || request.headers.get('x-shopify-shop-domain');
       if (!shop) {
         console.warn('Could not extract shop from webhook payload');
         return NextResponse.json(
@@ -119,7 +120,9 @@ export async function POST(request: NextRequest) {
 
       // Route to appropriate handler
       try {
-        await routeWebhook(topic, payload, shop);
+        // Shopify resends the same webhook ID on retries
+        const webhookId = request.headers.get('x-shopify-webhook-id');
+        await routeWebhook(topic, payload, shop, webhookId);
 
         const duration = Date.now() - startTime;
         console.log(`Webhook processed successfully: ${topic} for ${shop} (${duration}ms)`);
@@ -145,7 +148,8 @@ export async function POST(request: NextRequest) {
           stage: 'webhook_handler',
         });
 
-        // Still return 200 to prevent Shopify retries
+        // A 5xx makes Shopify retry; routeWebhook released the webhook ID so
+        // the retry is processed rather than skipped as a duplicate
         return NextResponse.json(
           {
             success: false,
@@ -156,7 +160,7 @@ export async function POST(request: NextRequest) {
             },
             timestamp: new Date().toISOString(),
           },
-          { status: 200 }
+          { status: 500 }
         );
       }
     } catch (error) {
@@ -164,8 +168,7 @@ export async function POST(request: NextRequest) {
         stage: 'webhook_request_parsing',
       });
 
-      // Return 200 even on critical errors to prevent Shopify retries
-      // Webhooks are fire-and-forget, retries are based on response status
+      // Shopify retries on a 5xx, so the event isn't lost
       return NextResponse.json(
         {
           success: false,
@@ -176,7 +179,7 @@ export async function POST(request: NextRequest) {
           },
           timestamp: new Date().toISOString(),
         },
-        { status: 200 }
+        { status: 500 }
       );
     }
   });
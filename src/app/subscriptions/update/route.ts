@@ -1,5 +1,9 @@
-import { NextResponse } from 'next/server';
+/**
+ * APP_SUBSCRIPTIONS_UPDATE webhook endpoint
+ * Shares HMAC verification and topic routing with /api/webhooks, so the
+ * subscription can be registered against either URL.
+ */
+export { POST } from '@/app/api/webhooks/route';
 
-export async function POST() {
-  return NextResponse.json({ success: true });
-}
+// Ensure Node.js runtime for this sensitive route
+export const runtime = 'nodejs';
@@ -0,0 +1,175 @@
+import { getQuotaMode } from './billing-guard';
+import { getTransferSettings } from './call-transfer';
+import {
+  completeAssistantSync,
+  getPersonaVersion,
+  getShopsDueForAssistantSync,
+  getTopProducts,
+  requestAssistantSync as requestAssistantSyncRecord,
+  setShopSetting,
+  updateShop,
+  type Shop,
+} from './supabase/db';
+import {
+  buildAssistantConfig,
+  hashAssistantConfig,
+  updateVapiAssistant,
+  type AssistantField,
+  type VapiAssistantConfig,
+} from './vapi';
+import { parsePersona } from './vapi/prompt';
+import type { ReceptionistPersona } from './validations';
+import { logError } from './utils/errors';
+
+/**
+ * Assistant Re-Sync
+ *
+ * Keeps a shop's Vapi assistant in step with what it should say and know:
+ * top products, hours, transfer rules, voice and the published persona.
+ * The desired config is built the same way as on provisioning, compared
+ * with the live assistant and applied as a PATCH of the fields that differ;
+ * the hash of what was applied is kept on the shop (vapi_config_hash) so
+ * unchanged configs are skipped without calling Vapi.
+ *
+ * Catalog changes and settings saves call requestAssistantSync, which only
+ * marks the shop due; the sweep (GET /api/vapi/sync/pending) syncs it once
+ * the batch window has passed, so a burst of product webhooks becomes one
+ * update.
+ */
+
+export type AssistantSyncStatus = 'updated' | 'unchanged' | 'skipped';
+
+export interface AssistantSyncResult {
+  status: AssistantSyncStatus;
+  /** Fields PATCHed on the assistant */
+  changed: AssistantField[];
+  hash: string | null;
+  /**
+   * The assistant is taking messages only; the new model and first message
+   * were saved for when it's restored
+   */
+  deferred: boolean;
+}
+
+/**
+ * How long changes are collected before the shop's assistant is synced
+ */
+export const ASSISTANT_SYNC_BATCH_MS = 60_000;
+
+/**
+ * How long a failed sync waits before the sweep tries it again
+ */
+const SYNC_RETRY_DELAY_MS = 5 * 60_000;
+
+/**
+ * The assistant config for a shop, with its published persona unless one
+ * is given (for previews)
+ */
+export async function getAssistantConfig(
+  shop: Shop,
+  persona?: ReceptionistPersona
+): Promise<VapiAssistantConfig> {
+  const published = persona ? null : await getPersonaVersion(shop.id, { status: 'published' });
+
+  return {
+    shopId: shop.id,
+    shopName: shop.shop_name || shop.shop_domain,
+    products: await getTopProducts(shop.id),
+    locale: shop.locale,
+    voiceId: (shop.settings?.voice_id as string) || undefined,
+    hoursOfOperation: (shop.settings?.hours_of_operation as string) || undefined,
+    transferSettings: getTransferSettings(shop.settings),
+    persona: persona ?? (published ? parsePersona(published.persona) : undefined),
+  };
+}
+
+/**
+ * Mark the shop's assistant for re-syncing
+ * Never throws - a missed request must not fail the webhook or save that
+ * made it; the next change or a manual sync catches up.
+ */
+export async function requestAssistantSync(shopId: string, reason: string): Promise<void> {
+  try {
+    await requestAssistantSyncRecord(shopId, new Date(Date.now() + ASSISTANT_SYNC_BATCH_MS).toISOString());
+  } catch (error) {
+    logError(error, { context: 'requestAssistantSync', shopId, reason });
+  }
+}
+
+/**
+ * Bring the shop's assistant in line with its current config now
+ * Skips the Vapi call when the config hash matches the last one applied,
+ * unless force is set (e.g. the assistant was edited in the Vapi dashboard).
+ */
+export async function syncAssistant(
+  shop: Shop,
+  options: { force?: boolean } = {}
+): Promise<AssistantSyncResult> {
+  if (!shop.vapi_assistant_id) {
+    return { status: 'skipped', changed: [], hash: null, deferred: false };
+  }
+
+  const startedAt = new Date().toISOString();
+  const desired = buildAssistantConfig(await getAssistantConfig(shop));
+  const hash = hashAssistantConfig(desired);
+  const quotaMode = getQuotaMode(shop.settings);
+
+  if (hash === shop.vapi_config_hash && !options.force) {
+    await completeAssistantSync(shop.id, { hash, startedAt });
+    return { status: 'unchanged', changed: [], hash, deferred: false };
+  }
+
+  // Voicemail-only mode owns the live prompt; the new one waits in the saved state
+  const { changed } = await updateVapiAssistant(shop.vapi_assistant_id, desired, {
+    skip: quotaMode.active ? ['model', 'firstMessage'] : [],
+  });
+
+  if (quotaMode.active) {
+    await setShopSetting(shop.id, ['quota_mode', 'saved'], {
+      firstMessage: desired.firstMessage,
+      model: desired.model,
+    });
+  }
+
+  await completeAssistantSync(shop.id, { hash, startedAt });
+
+  if (changed.length > 0) {
+    console.log(`[AssistantSync] ${shop.shop_domain} assistant updated: ${changed.join(', ')}`);
+  }
+
+  return {
+    status: changed.length > 0 || quotaMode.active ? 'updated' : 'unchanged',
+    changed,
+    hash,
+    deferred: quotaMode.active,
+  };
+}
+
+/**
+ * Sync every shop whose requested sync is due
+ * A shop that fails is retried after SYNC_RETRY_DELAY_MS.
+ */
+export async function syncPendingAssistants(): Promise<{
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  failed: number;
+}> {
+  const totals = { updated: 0, unchanged: 0, skipped: 0, failed: 0 };
+
+  for (const shop of await getShopsDueForAssistantSync()) {
+    try {
+      const result = await syncAssistant(shop);
+      totals[result.status]++;
+    } catch (error) {
+      totals.failed++;
+      logError(error, { context: 'syncPendingAssistants', shopDomain: shop.shop_domain });
+
+      await updateShop(shop.id, {
+        vapi_sync_due_at: new Date(Date.now() + SYNC_RETRY_DELAY_MS).toISOString(),
+      }).catch(() => undefined);
+    }
+  }
+
+  return totals;
+}
@@ -1,11 +1,265 @@
+import { FREE_TRIAL, getOverageMinuteAllowance, getPlanByName } from './billing/plans';
+import { chargeOverageMinutes } from './billing/subscriptions';
+import {
+  getShopById,
+  recordCallUsage,
+  setShopSetting,
+  updateShop,
+  type Shop,
+} from './supabase/db';
+import {
+  enableVoicemailOnlyMode,
+  restoreAssistantState,
+  type SavedAssistantState,
+} from './vapi';
+import { logError } from './utils/errors';
+
+export type UsageWarningLevel = 0 | 80 | 100;
+
+/**
+ * Usage percentages at which the merchant is warned, lowest first
+ */
+export const USAGE_WARNING_THRESHOLDS = [80, 100] as const;
+
 export interface BillingCheckResult {
   allowed: boolean;
   reason?: string;
   subscription_status?: string;
   usage_percentage?: number;
   minutes_remaining?: number;
+  minutes_used?: number;
+  minutes_limit?: number;
+  /** Minutes beyond the plan, billed as usage charges */
+  overage_minutes?: number;
+  warning_level?: UsageWarningLevel;
+  trial_ends_at?: string;
+}
+
+/**
+ * Voicemail-only state stored under shops.settings.quota_mode
+ */
+export interface QuotaModeState {
+  active: boolean;
+  since?: string;
+  reason?: string;
+  saved?: SavedAssistantState;
+}
+
+/**
+ * Pause for going over a Vapi spend budget, stored under
+ * shops.settings.spend_pause (see spend.ts)
+ */
+export interface SpendPauseState {
+  since: string;
+  /** When the budget's window resets */
+  until: string;
+  reason: string;
+  window: 'daily' | 'monthly';
+  source: 'merchant' | 'operator';
+  limit_cents: number;
+}
+
+/**
+ * Tool result returned while the assistant is in voicemail-only mode
+ */
+export const VOICEMAIL_ONLY_TOOL_RESULT = {
+  error: 'Unavailable',
+  message: "This isn't available right now. Take the caller's name, number and message for the team.",
+};
+
+// ============================================================================
+// Quota Calculation
+// ============================================================================
+
+/**
+ * Minutes included in the shop's current plan
+ * Falls back to the stored limit for plans not in BILLING_PLANS.
+ */
+export function getPlanMinuteLimit(shop: Shop): number {
+  if (shop.subscription_status === 'trial') return FREE_TRIAL.minutes;
+  return getPlanByName(shop.plan_name)?.minutes ?? shop.call_minutes_limit;
+}
+
+/**
+ * Overage minutes the shop may use past its plan this period
+ * Only active subscriptions with a usage line item can go over.
+ */
+export function getOverageAllowance(shop: Shop): number {
+  if (shop.subscription_status !== 'active' || !shop.subscription_line_item_id) return 0;
+
+  const plan = getPlanByName(shop.plan_name);
+  return plan ? getOverageMinuteAllowance(plan) : 0;
+}
+
+export function getTrialEndsAt(shop: Shop): Date {
+  const installedAt = new Date(shop.installed_at);
+  return new Date(installedAt.getTime() + FREE_TRIAL.duration_days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * The shop's spend pause, or null when there is none or its window has reset
+ */
+export function getSpendPause(settings: Record<string, unknown> | null | undefined): SpendPauseState | null {
+  const pause = settings?.spend_pause as SpendPauseState | undefined;
+  return pause?.until && new Date(pause.until).getTime() > Date.now() ? pause : null;
+}
+
+function getWarningLevel(usagePercentage: number): UsageWarningLevel {
+  const reached = USAGE_WARNING_THRESHOLDS.filter(threshold => usagePercentage >= threshold);
+  return (reached[reached.length - 1] ?? 0) as UsageWarningLevel;
+}
+
+/**
+ * Decide whether the shop may take full assistant calls
+ */
+export async function checkBillingStatus(shop: Shop): Promise<BillingCheckResult> {
+  const limit = getPlanMinuteLimit(shop);
+  const used = shop.call_minutes_used;
+  const usagePercentage = limit > 0 ? Math.round((used / limit) * 100) : 100;
+
+  const result: BillingCheckResult = {
+    allowed: true,
+    subscription_status: shop.subscription_status,
+    usage_percentage: usagePercentage,
+    minutes_remaining: Math.max(0, limit - used),
+    minutes_used: used,
+    minutes_limit: limit,
+    overage_minutes: Math.max(0, used - limit),
+    warning_level: getWarningLevel(usagePercentage),
+  };
+
+  if (shop.subscription_status === 'cancelled' || shop.subscription_status === 'suspended') {
+    return { ...result, allowed: false, reason: `Subscription is ${shop.subscription_status}` };
+  }
+
+  const spendPause = getSpendPause(shop.settings);
+  if (spendPause) {
+    return { ...result, allowed: false, reason: spendPause.reason };
+  }
+
+  if (shop.subscription_status === 'trial') {
+    const trialEndsAt = getTrialEndsAt(shop);
+    result.trial_ends_at = trialEndsAt.toISOString();
+
+    if (trialEndsAt.getTime() <= Date.now()) {
+      return { ...result, allowed: false, reason: 'Free trial has ended' };
+    }
+  }
+
+  if (used >= limit + getOverageAllowance(shop)) {
+    return { ...result, allowed: false, reason: 'Call minute quota reached' };
+  }
+
+  return result;
 }
 
-export async function checkBillingStatus() {
-  return { allowed: true };
+// ============================================================================
+// Usage Metering
+// ============================================================================
+
+export function getQuotaMode(settings: Record<string, unknown> | null | undefined): QuotaModeState {
+  const state = settings?.quota_mode as QuotaModeState | undefined;
+  return state?.active ? state : { active: false };
+}
+
+/**
+ * Switch the assistant between full and voicemail-only mode to match the
+ * billing status. The assistant's original first message and model are kept
+ * in shops.settings so they can be restored once minutes are available again.
+ */
+export async function syncQuotaMode(shop: Shop, status?: BillingCheckResult): Promise<QuotaModeState> {
+  const billing = status ?? (await checkBillingStatus(shop));
+  const quotaMode = getQuotaMode(shop.settings);
+
+  if (!shop.vapi_assistant_id) return quotaMode;
+
+  if (!billing.allowed && !quotaMode.active) {
+    const saved = await enableVoicemailOnlyMode(
+      shop.vapi_assistant_id,
+      shop.shop_name || shop.shop_domain
+    );
+    const next: QuotaModeState = {
+      active: true,
+      since: new Date().toISOString(),
+      reason: billing.reason,
+      saved,
+    };
+
+    await setShopSetting(shop.id, 'quota_mode', next);
+    console.warn(`[BillingGuard] ${shop.shop_domain} switched to voicemail-only: ${billing.reason}`);
+    return next;
+  }
+
+  if (billing.allowed && quotaMode.active) {
+    if (quotaMode.saved) {
+      await restoreAssistantState(shop.vapi_assistant_id, quotaMode.saved);
+    }
+
+    await setShopSetting(shop.id, 'quota_mode', { active: false });
+    console.log(`[BillingGuard] ${shop.shop_domain} restored to full assistant`);
+    return { active: false };
+  }
+
+  return quotaMode;
+}
+
+/**
+ * Charge the part of a call's minutes that went past the plan's included minutes
+ */
+async function chargeOverage(
+  shop: Shop,
+  callId: string,
+  usage: { minutesAdded: number; minutesUsed: number }
+): Promise<void> {
+  const plan = getPlanByName(shop.plan_name);
+  if (!plan || getOverageAllowance(shop) === 0) return;
+
+  const overage = Math.min(usage.minutesAdded, usage.minutesUsed - getPlanMinuteLimit(shop));
+  if (overage <= 0) return;
+
+  try {
+    await chargeOverageMinutes(shop, plan, {
+      callId,
+      minutes: overage,
+      minutesUsed: usage.minutesUsed,
+    });
+  } catch (error) {
+    logError(error, { context: 'chargeOverage', shopDomain: shop.shop_domain, callId, overage });
+  }
+}
+
+/**
+ * Add an ended call's minutes to the shop's usage
+ * Raises the 80% and 100% warnings once per billing period, charges minutes
+ * past the plan to the subscription's usage line item and switches the
+ * assistant to voicemail-only when the quota is used up. Never throws - a
+ * metering failure must not fail the Vapi webhook.
+ */
+export async function recordUsageForCall(callId: string): Promise<BillingCheckResult | null> {
+  try {
+    const usage = await recordCallUsage(callId);
+    if (!usage) return null;
+
+    const shop = await getShopById(usage.shopId);
+    if (!shop) return null;
+
+    const status = await checkBillingStatus(shop);
+    await chargeOverage(shop, callId, usage);
+
+    const level = status.warning_level ?? 0;
+
+    if (level > shop.usage_alert_level) {
+      await updateShop(shop.id, { usage_alert_level: level });
+      console.warn(
+        `[BillingGuard] ${shop.shop_domain} has used ${status.usage_percentage}% of ` +
+          `${status.minutes_limit} call minutes`
+      );
+    }
+
+    await syncQuotaMode(shop, status);
+    return status;
+  } catch (error) {
+    logError(error, { context: 'recordUsageForCall', callId });
+    return null;
+  }
 }
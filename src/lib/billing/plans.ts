@@ -3,6 +3,10 @@ export interface BillingPlan {
   name: string;
   price: number;
   minutes: number;
+  /** USD per call minute beyond the included minutes */
+  overage_rate: number;
+  /** Maximum overage charged per billing period, in USD */
+  usage_cap: number;
   description: string;
 }
 
@@ -12,6 +16,8 @@ export const BILLING_PLANS: Record<string, BillingPlan> = {
     name: 'Starter',
     price: 79,
     minutes: 200,
+    overage_rate: 0.35,
+    usage_cap: 100,
     description: 'Perfect for small businesses',
   },
   professional: {
@@ -19,6 +25,8 @@ export const BILLING_PLANS: Record<string, BillingPlan> = {
     name: 'Professional',
     price: 149,
     minutes: 500,
+    overage_rate: 0.30,
+    usage_cap: 200,
     description: 'For growing teams',
   },
   enterprise: {
@@ -26,6 +34,8 @@ export const BILLING_PLANS: Record<string, BillingPlan> = {
     name: 'Enterprise',
     price: 299,
     minutes: 1000,
+    overage_rate: 0.25,
+    usage_cap: 400,
     description: 'Maximum capacity',
   },
 };
@@ -34,3 +44,22 @@ export const FREE_TRIAL = {
   duration_days: 7,
   minutes: 200,
 };
+
+/**
+ * Find a plan by ID or display name (Shopify reports subscriptions by name)
+ */
+export function getPlanByName(name: string | null | undefined): BillingPlan | null {
+  const key = name?.trim().toLowerCase();
+  if (!key) return null;
+
+  return Object.values(BILLING_PLANS).find(
+    plan => plan.id === key || plan.name.toLowerCase() === key
+  ) ?? null;
+}
+
+/**
+ * Overage minutes a plan allows per billing period before calls are capped
+ */
+export function getOverageMinuteAllowance(plan: BillingPlan): number {
+  return Math.floor(plan.usage_cap / plan.overage_rate);
+}
@@ -0,0 +1,305 @@
+import { adminGraphQL } from '../shopify/admin-graphql';
+import { getOfflineAccessToken, updateShop, type Shop } from '../supabase/db';
+import { ExternalServiceError } from '../utils/errors';
+import { getPlanByName, type BillingPlan } from './plans';
+
+// ============================================================================
+// Shopify Billing API Queries
+// ============================================================================
+
+const APP_SUBSCRIPTION_CREATE_MUTATION = `
+  mutation appSubscriptionCreate(
+    $name: String!
+    $returnUrl: URL!
+    $trialDays: Int
+    $test: Boolean
+    $replacementBehavior: AppSubscriptionReplacementBehavior
+    $lineItems: [AppSubscriptionLineItemInput!]!
+  ) {
+    appSubscriptionCreate(
+      name: $name
+      returnUrl: $returnUrl
+      trialDays: $trialDays
+      test: $test
+      replacementBehavior: $replacementBehavior
+      lineItems: $lineItems
+    ) {
+      confirmationUrl
+      appSubscription {
+        id
+        status
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+const APP_SUBSCRIPTION_QUERY = `
+  query appSubscription($id: ID!) {
+    node(id: $id) {
+      ... on AppSubscription {
+        id
+        name
+        status
+        lineItems {
+          id
+          plan {
+            pricingDetails {
+              __typename
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const APP_USAGE_RECORD_CREATE_MUTATION = `
+  mutation appUsageRecordCreate(
+    $subscriptionLineItemId: ID!
+    $price: MoneyInput!
+    $description: String!
+    $idempotencyKey: String
+  ) {
+    appUsageRecordCreate(
+      subscriptionLineItemId: $subscriptionLineItemId
+      price: $price
+      description: $description
+      idempotencyKey: $idempotencyKey
+    ) {
+      appUsageRecord {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+interface UserError {
+  field: string[] | null;
+  message: string;
+}
+
+interface AppSubscriptionCreateResponse {
+  appSubscriptionCreate: {
+    confirmationUrl: string | null;
+    appSubscription: { id: string; status: string } | null;
+    userErrors: UserError[];
+  };
+}
+
+export interface AppSubscription {
+  id: string;
+  name: string;
+  status: 'PENDING' | 'ACCEPTED' | 'ACTIVE' | 'DECLINED' | 'EXPIRED' | 'FROZEN' | 'CANCELLED';
+  lineItems: Array<{
+    id: string;
+    plan: { pricingDetails: { __typename: 'AppRecurringPricing' | 'AppUsagePricing' } };
+  }>;
+}
+
+interface AppUsageRecordCreateResponse {
+  appUsageRecordCreate: {
+    appUsageRecord: { id: string } | null;
+    userErrors: UserError[];
+  };
+}
+
+function throwOnUserErrors(operation: string, userErrors: UserError[], shopDomain: string): void {
+  if (userErrors.length === 0) return;
+
+  throw new ExternalServiceError(
+    `${operation} failed: ${userErrors.map(e => e.message).join(', ')}`,
+    'shopify',
+    { shopDomain, userErrors }
+  );
+}
+
+async function requireAccessToken(shopDomain: string): Promise<string> {
+  const accessToken = await getOfflineAccessToken(shopDomain);
+  if (!accessToken) {
+    throw new ExternalServiceError('No offline session for shop', 'shopify', { shopDomain });
+  }
+  return accessToken;
+}
+
+// ============================================================================
+// Subscriptions
+// ============================================================================
+
+/**
+ * Shopify only charges test subscriptions outside production
+ */
+function isTestBilling(): boolean {
+  return process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Start a subscription to a plan; the merchant approves it at confirmationUrl
+ *
+ * Each subscription has a recurring line item for the plan price and a usage
+ * line item, capped at the plan's usage_cap, for overage minutes. Upgrades
+ * replace the current subscription immediately and Shopify prorates the
+ * difference; downgrades take effect at the next billing cycle.
+ */
+export async function createPlanSubscription(
+  shop: Shop,
+  plan: BillingPlan,
+  options: { returnUrl: string; trialDays: number }
+): Promise<{ confirmationUrl: string; subscriptionId: string }> {
+  const accessToken = await requireAccessToken(shop.shop_domain);
+  const currentPlan = shop.subscription_status === 'active' ? getPlanByName(shop.plan_name) : null;
+  const isDowngrade = !!currentPlan && plan.price < currentPlan.price;
+
+  const data = await adminGraphQL<AppSubscriptionCreateResponse>({
+    shopDomain: shop.shop_domain,
+    accessToken,
+    query: APP_SUBSCRIPTION_CREATE_MUTATION,
+    variables: {
+      name: plan.name,
+      returnUrl: options.returnUrl,
+      trialDays: options.trialDays,
+      test: isTestBilling(),
+      replacementBehavior: isDowngrade ? 'APPLY_ON_NEXT_BILLING_CYCLE' : 'APPLY_IMMEDIATELY',
+      lineItems: [
+        {
+          plan: {
+            appRecurringPricingDetails: {
+              price: { amount: plan.price, currencyCode: 'USD' },
+              interval: 'EVERY_30_DAYS',
+            },
+          },
+        },
+        {
+          plan: {
+            appUsagePricingDetails: {
+              cappedAmount: { amount: plan.usage_cap, currencyCode: 'USD' },
+              terms: `$${plan.overage_rate.toFixed(2)} per call minute over ${plan.minutes} minutes`,
+            },
+          },
+        },
+      ],
+    },
+  });
+
+  const result = data.appSubscriptionCreate;
+  throwOnUserErrors('appSubscriptionCreate', result.userErrors, shop.shop_domain);
+
+  if (!result.confirmationUrl || !result.appSubscription) {
+    throw new ExternalServiceError('Shopify returned no confirmation URL', 'shopify', {
+      shopDomain: shop.shop_domain,
+    });
+  }
+
+  console.log(
+    `[Billing] Created ${plan.id} subscription for ${shop.shop_domain}` +
+      (isDowngrade ? ' (applies next billing cycle)' : '')
+  );
+
+  return {
+    confirmationUrl: result.confirmationUrl,
+    subscriptionId: result.appSubscription.id,
+  };
+}
+
+export async function getAppSubscription(
+  shopDomain: string,
+  subscriptionId: string
+): Promise<AppSubscription | null> {
+  const accessToken = await requireAccessToken(shopDomain);
+
+  const data = await adminGraphQL<{ node: AppSubscription | null }>({
+    shopDomain,
+    accessToken,
+    query: APP_SUBSCRIPTION_QUERY,
+    variables: { id: subscriptionId },
+  });
+
+  return data.node?.id ? data.node : null;
+}
+
+/**
+ * Make an active Shopify subscription the shop's plan
+ *
+ * Moving off the trial (or a cancelled subscription) starts a fresh billing
+ * period; plan changes keep the minutes already used this period. Returns the
+ * shop unchanged when the subscription is not active or not one of our plans.
+ */
+export async function activateSubscription(shop: Shop, subscriptionId: string): Promise<Shop> {
+  const subscription = await getAppSubscription(shop.shop_domain, subscriptionId);
+
+  if (!subscription || subscription.status !== 'ACTIVE') {
+    console.warn(
+      `[Billing] Subscription ${subscriptionId} for ${shop.shop_domain} is ${subscription?.status ?? 'missing'}`
+    );
+    return shop;
+  }
+
+  const plan = getPlanByName(subscription.name);
+  if (!plan) {
+    console.warn(`[Billing] Unknown plan "${subscription.name}" on ${subscriptionId}`);
+    return shop;
+  }
+
+  const usageLineItem = subscription.lineItems.find(
+    item => item.plan.pricingDetails.__typename === 'AppUsagePricing'
+  );
+  const startsNewPeriod = shop.subscription_status !== 'active';
+
+  const updated = await updateShop(shop.id, {
+    subscription_status: 'active',
+    subscription_id: subscription.id,
+    subscription_line_item_id: usageLineItem?.id ?? null,
+    plan_name: plan.id,
+    call_minutes_limit: plan.minutes,
+    ...(startsNewPeriod && {
+      call_minutes_used: 0,
+      usage_alert_level: 0,
+      billing_period_start: new Date().toISOString(),
+    }),
+  });
+
+  console.log(`[Billing] ${shop.shop_domain} is on the ${plan.name} plan (${subscription.id})`);
+  return updated;
+}
+
+// ============================================================================
+// Usage Charges
+// ============================================================================
+
+/**
+ * Charge overage minutes from one call to the subscription's usage line item
+ * The idempotency key (call plus period usage after it) makes retries of the
+ * same charge safe.
+ */
+export async function chargeOverageMinutes(
+  shop: Shop,
+  plan: BillingPlan,
+  options: { callId: string; minutes: number; minutesUsed: number }
+): Promise<void> {
+  if (!shop.subscription_line_item_id || options.minutes <= 0) return;
+
+  const accessToken = await requireAccessToken(shop.shop_domain);
+  const amount = Math.round(options.minutes * plan.overage_rate * 100) / 100;
+
+  const data = await adminGraphQL<AppUsageRecordCreateResponse>({
+    shopDomain: shop.shop_domain,
+    accessToken,
+    query: APP_USAGE_RECORD_CREATE_MUTATION,
+    variables: {
+      subscriptionLineItemId: shop.subscription_line_item_id,
+      price: { amount, currencyCode: 'USD' },
+      description: `${options.minutes} overage call minute${options.minutes === 1 ? '' : 's'}`,
+      idempotencyKey: `call-${options.callId}-${options.minutesUsed}`,
+    },
+  });
+
+  throwOnUserErrors('appUsageRecordCreate', data.appUsageRecordCreate.userErrors, shop.shop_domain);
+  console.log(`[Billing] Charged ${shop.shop_domain} $${amount} for ${options.minutes} overage minutes`);
+}
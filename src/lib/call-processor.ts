@@ -1,3 +1,397 @@
-export async function generateCallSummary() {}
-export async function analyzeSentiment() {}
-export async function extractActionItems() {}
+import {
+  claimCallForProcessing,
+  getCallActions,
+  getCallsNeedingProcessing,
+  updateCall,
+  type Call,
+  type CallAction,
+} from './supabase/db';
+import type { CallTranscript, TranscriptTurn } from './vapi/webhook';
+import { logError } from './utils/errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CallSentiment = Call['sentiment'];
+export type CallResolution = Call['resolution_status'];
+
+/**
+ * Everything an analyzer may look at for a finished call
+ */
+export interface CallAnalysisInput {
+  customerName: string | null;
+  durationSeconds: number;
+  transcript: CallTranscript;
+  actions: CallAction[];
+}
+
+/**
+ * Fields produced by post-call processing and written back to the call
+ */
+export interface CallAnalysis {
+  summary: string;
+  sentiment: CallSentiment;
+  resolutionStatus: CallResolution;
+  actionItems: string[];
+  tags: string[];
+}
+
+/**
+ * Pluggable post-call analyzer
+ * The rule-based analyzer below needs no network access; an LLM-backed
+ * analyzer can be swapped in with setCallAnalyzer().
+ */
+export interface CallAnalyzer {
+  readonly name: string;
+  analyze(input: CallAnalysisInput): Promise<CallAnalysis>;
+}
+
+export interface CallProcessingResult {
+  callId: string;
+  status: 'completed' | 'failed' | 'skipped';
+  call?: Call;
+  error?: string;
+}
+
+// ============================================================================
+// Rule-Based Analysis
+// ============================================================================
+
+const POSITIVE_WORDS = [
+  'thank', 'thanks', 'great', 'perfect', 'awesome', 'helpful', 'appreciate',
+  'excellent', 'wonderful', 'amazing', 'love', 'fantastic', 'glad', 'happy',
+];
+
+const NEGATIVE_WORDS = [
+  'angry', 'frustrated', 'frustrating', 'terrible', 'awful', 'upset', 'disappointed',
+  'ridiculous', 'worst', 'unacceptable', 'annoyed', 'useless', 'horrible', 'complaint',
+  'broken', 'damaged', 'wrong', 'late', 'never arrived', 'still waiting',
+];
+
+const NEGATIONS = ['not', "don't", "didn't", "isn't", "wasn't", 'no', 'never'];
+
+/**
+ * Topic tags keyed on the phrases that suggest them
+ */
+const TOPIC_RULES: Array<{ tag: string; label: string; patterns: RegExp[] }> = [
+  {
+    tag: 'order-status',
+    label: 'order status',
+    patterns: [/\border\b/, /\btracking\b/, /\bshipp(ed|ing)\b/, /\bdeliver(y|ed)\b/, /\bpackage\b/],
+  },
+  {
+    tag: 'returns',
+    label: 'returns',
+    patterns: [/\breturn/, /\brefund/, /\bexchange\b/],
+  },
+  {
+    tag: 'product-inquiry',
+    label: 'products',
+    patterns: [/\bin stock\b/, /\bavailab/, /\bprice\b/, /\bsize\b/, /\bcolou?r\b/, /\bproduct\b/],
+  },
+  {
+    tag: 'store-info',
+    label: 'store information',
+    patterns: [/\bhours\b/, /\bopen\b/, /\bclose[sd]?\b/, /\blocation\b/, /\baddress\b/],
+  },
+];
+
+/**
+ * Follow-ups the merchant should act on, keyed on customer phrases
+ */
+const ACTION_ITEM_RULES: Array<{ item: string; patterns: RegExp[] }> = [
+  {
+    item: 'Call the customer back',
+    patterns: [/\bcall (me )?back\b/, /\bgive me a call\b/, /\breach (out to )?me\b/],
+  },
+  {
+    item: 'Follow up with the customer by email',
+    patterns: [/\bemail me\b/, /\bsend (me )?an email\b/],
+  },
+  {
+    item: 'Review the refund request',
+    patterns: [/\brefund\b/],
+  },
+  {
+    item: 'Process the return or exchange',
+    patterns: [/\breturn (it|this|my|the)\b/, /\bexchange\b/],
+  },
+  {
+    item: 'Review the order cancellation request',
+    patterns: [/\bcancel (my|the|an?) order\b/, /\bcancel it\b/],
+  },
+  {
+    item: 'Investigate a damaged or incorrect item',
+    patterns: [/\bdamaged\b/, /\bbroken\b/, /\bwrong (item|size|colou?r|product)\b/],
+  },
+];
+
+/**
+ * Calls shorter than this are treated as hang-ups even if the caller spoke
+ */
+const ABANDONED_CALL_SECONDS = 15;
+
+function customerTurns(transcript: CallTranscript): TranscriptTurn[] {
+  return transcript.turns.filter(turn => turn.role === 'customer');
+}
+
+/**
+ * Lowercased customer speech, falling back to the whole transcript when it
+ * was not split into turns
+ */
+function customerText(transcript: CallTranscript): string {
+  const turns = customerTurns(transcript);
+  const text = turns.length > 0 ? turns.map(turn => turn.text).join(' ') : transcript.text;
+  return text.toLowerCase();
+}
+
+function countPhrase(text: string, phrase: string): number {
+  let count = 0;
+  const pattern = new RegExp(`(\\b\\S+\\s+)?\\b${phrase}\\b`, 'g');
+
+  for (const match of text.matchAll(pattern)) {
+    const previous = match[1]?.trim();
+    count += previous && NEGATIONS.includes(previous) ? -1 : 1;
+  }
+
+  return count;
+}
+
+function detectTopics(transcript: CallTranscript, actions: CallAction[]) {
+  const text = customerText(transcript);
+  const topics = TOPIC_RULES.filter(rule => rule.patterns.some(pattern => pattern.test(text)));
+
+  const add = (tag: string) => {
+    const rule = TOPIC_RULES.find(r => r.tag === tag);
+    if (rule && !topics.includes(rule)) topics.push(rule);
+  };
+  if (actions.some(action => action.action_type === 'order_lookup')) add('order-status');
+  if (actions.some(action => action.action_type === 'product_search')) add('product-inquiry');
+
+  return topics;
+}
+
+function wasTransferred(actions: CallAction[]): boolean {
+  return actions.some(action => action.action_type === 'transfer_attempt' && action.success);
+}
+
+function pluralize(count: number, singular: string, plural = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
+/**
+ * Score customer speech against positive and negative word lists
+ * A negation directly before a word ("not happy") flips its contribution.
+ */
+export function analyzeSentiment(transcript: CallTranscript): CallSentiment {
+  const text = customerText(transcript);
+  if (!text.trim()) return 'neutral';
+
+  const positive = POSITIVE_WORDS.reduce((sum, word) => sum + countPhrase(text, word), 0);
+  const negative = NEGATIVE_WORDS.reduce((sum, word) => sum + countPhrase(text, word), 0);
+  const score = positive - negative;
+
+  if (score > 0) return 'positive';
+  if (score < 0) return 'negative';
+  return 'neutral';
+}
+
+/**
+ * Decide how the call ended from the transcript and the actions taken
+ */
+export function determineResolution(input: CallAnalysisInput): CallResolution {
+  if (wasTransferred(input.actions)) return 'escalated';
+
+  const spoke = customerTurns(input.transcript).length > 0 || input.transcript.text.trim() !== '';
+  if (!spoke || input.durationSeconds < ABANDONED_CALL_SECONDS) return 'abandoned';
+
+  return 'resolved';
+}
+
+/**
+ * Extract follow-ups for the merchant from customer requests and failed actions
+ */
+export function extractActionItems(input: CallAnalysisInput): string[] {
+  const text = customerText(input.transcript);
+  const items = ACTION_ITEM_RULES
+    .filter(rule => rule.patterns.some(pattern => pattern.test(text)))
+    .map(rule => rule.item);
+
+  const failedLookup = input.actions.some(
+    action => action.action_type === 'order_lookup' && !action.success
+  );
+  const failedTransfer = input.actions.some(
+    action => action.action_type === 'transfer_attempt' && !action.success
+  );
+
+  if (failedLookup) items.push("Look up the customer's order manually");
+  if (failedTransfer && !wasTransferred(input.actions)) {
+    items.push('Call the customer back - the transfer to staff did not connect');
+  }
+
+  return Array.from(new Set(items));
+}
+
+/**
+ * Build a short, deterministic summary of the call
+ */
+export function generateCallSummary(input: CallAnalysisInput): string {
+  const caller = input.customerName || 'The caller';
+  const resolution = determineResolution(input);
+
+  if (resolution === 'abandoned' && customerTurns(input.transcript).length === 0) {
+    return `${caller} hung up before the receptionist could help.`;
+  }
+
+  const sentences: string[] = [];
+  const topics = detectTopics(input.transcript, input.actions).map(topic => topic.label);
+
+  sentences.push(
+    topics.length > 0
+      ? `${caller} called about ${topics.join(', ').replace(/, ([^,]*)$/, ' and $1')}.`
+      : `${caller} called with a general question.`
+  );
+
+  const lookups = input.actions.filter(action => action.action_type === 'order_lookup').length;
+  const searches = input.actions.filter(action => action.action_type === 'product_search').length;
+  const work: string[] = [];
+  if (lookups > 0) work.push(`looked up ${pluralize(lookups, 'order')}`);
+  if (searches > 0) work.push(`ran ${pluralize(searches, 'product search', 'product searches')}`);
+  if (work.length > 0) sentences.push(`The receptionist ${work.join(' and ')}.`);
+
+  if (resolution === 'escalated') {
+    sentences.push('The call was transferred to staff.');
+  } else if (resolution === 'abandoned') {
+    sentences.push('The call ended early.');
+  }
+
+  const actionItems = extractActionItems(input);
+  if (actionItems.length > 0) {
+    sentences.push(`${pluralize(actionItems.length, 'follow-up')} needed.`);
+  }
+
+  return sentences.join(' ');
+}
+
+export const ruleBasedAnalyzer: CallAnalyzer = {
+  name: 'rule-based',
+  async analyze(input) {
+    const tags = detectTopics(input.transcript, input.actions).map(topic => topic.tag);
+    if (wasTransferred(input.actions)) tags.push('transferred');
+
+    return {
+      summary: generateCallSummary(input),
+      sentiment: analyzeSentiment(input.transcript),
+      resolutionStatus: determineResolution(input),
+      actionItems: extractActionItems(input),
+      tags,
+    };
+  },
+};
+
+let activeAnalyzer: CallAnalyzer = ruleBasedAnalyzer;
+
+export function getCallAnalyzer(): CallAnalyzer {
+  return activeAnalyzer;
+}
+
+export function setCallAnalyzer(analyzer: CallAnalyzer): void {
+  activeAnalyzer = analyzer;
+}
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+/**
+ * Normalize the stored transcript JSON into turns and text
+ */
+function readTranscript(stored: Call['transcript']): CallTranscript {
+  const text = typeof stored?.text === 'string' ? stored.text : '';
+  const turns = Array.isArray(stored?.turns) ? (stored.turns as TranscriptTurn[]) : [];
+  return { text, turns };
+}
+
+/**
+ * Run post-call processing for one call and store the results
+ * Never throws: failures are recorded on the call so a sweep can retry them.
+ */
+export async function processCall(
+  callId: string,
+  options: { force?: boolean; analyzer?: CallAnalyzer } = {}
+): Promise<CallProcessingResult> {
+  const analyzer = options.analyzer ?? activeAnalyzer;
+
+  let claimed: Call | null;
+  try {
+    claimed = await claimCallForProcessing(callId, { force: options.force });
+  } catch (error) {
+    logError(error, { context: 'processCall:claim', callId });
+    return { callId, status: 'failed', error: (error as Error).message };
+  }
+
+  if (!claimed) {
+    return { callId, status: 'skipped' };
+  }
+
+  try {
+    const actions = await getCallActions(claimed.id);
+    const analysis = await analyzer.analyze({
+      customerName: claimed.customer_name,
+      durationSeconds: claimed.duration_seconds,
+      transcript: readTranscript(claimed.transcript),
+      actions,
+    });
+
+    const call = await updateCall(claimed.id, {
+      summary: analysis.summary,
+      sentiment: analysis.sentiment,
+      resolution_status: analysis.resolutionStatus,
+      action_items: analysis.actionItems,
+      tags: Array.from(new Set([...(claimed.tags ?? []), ...analysis.tags])),
+      processing_status: 'completed',
+      processing_error: null,
+      processed_at: new Date().toISOString(),
+    });
+
+    console.log('[CallProcessor] Processed call:', {
+      callId,
+      analyzer: analyzer.name,
+      sentiment: analysis.sentiment,
+      resolution: analysis.resolutionStatus,
+    });
+
+    return { callId, status: 'completed', call };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logError(error, { context: 'processCall', callId, analyzer: analyzer.name });
+
+    try {
+      await updateCall(claimed.id, { processing_status: 'failed', processing_error: message });
+    } catch (updateError) {
+      logError(updateError, { context: 'processCall:markFailed', callId });
+    }
+
+    return { callId, status: 'failed', error: message };
+  }
+}
+
+/**
+ * Retry calls whose processing is pending, failed, or stuck
+ * Calls that have used up maxAttempts are left for manual review.
+ */
+export async function retryUnprocessedCalls(
+  options: { limit?: number; maxAttempts?: number } = {}
+): Promise<{ completed: number; failed: number; skipped: number }> {
+  const candidates = await getCallsNeedingProcessing(options.limit, options.maxAttempts);
+  const totals = { completed: 0, failed: 0, skipped: 0 };
+
+  // Sequential on purpose: the analyzer may be rate limited
+  for (const candidate of candidates) {
+    const result = await processCall(candidate.id);
+    totals[result.status]++;
+  }
+
+  return totals;
+}
@@ -0,0 +1,165 @@
+import {
+  transferSettingsSchema,
+  type TransferDestination,
+  type TransferHours,
+  type TransferSettings,
+} from './validations';
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+const DEFAULT_VOICEMAIL_MESSAGE =
+  "Let the caller know the team isn't available right now and offer to take a message with their name, phone number and reason for calling.";
+
+/**
+ * Read transfer settings from shops.settings
+ * Invalid or missing settings fall back to defaults (transfers disabled)
+ * rather than failing the call.
+ */
+export function getTransferSettings(settings: Record<string, unknown> | null | undefined): TransferSettings {
+  const parsed = transferSettingsSchema.safeParse(settings?.transfer ?? {});
+
+  if (!parsed.success) {
+    console.warn('[CallTransfer] Invalid transfer settings, transfers disabled:', parsed.error.issues);
+    return transferSettingsSchema.parse({});
+  }
+
+  return parsed.data;
+}
+
+export function getVoicemailMessage(settings: TransferSettings): string {
+  return settings.voicemail_message?.trim() || DEFAULT_VOICEMAIL_MESSAGE;
+}
+
+// ============================================================================
+// Hours-Aware Routing
+// ============================================================================
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Weekday and minutes since midnight in the shop's time zone
+ */
+function localTime(now: Date, timeZone: string): { day: (typeof WEEKDAYS)[number]; minutes: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch {
+    // Unknown time zone - fall back to UTC
+    return localTime(now, 'UTC');
+  }
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+  const day = get('weekday').toLowerCase().slice(0, 3) as (typeof WEEKDAYS)[number];
+
+  return { day, minutes: Number(get('hour')) * 60 + Number(get('minute')) };
+}
+
+/**
+ * Check whether a destination is staffed right now
+ * Windows that close before they open (e.g. 22:00-02:00) run past midnight
+ * and belong to the day they open on.
+ */
+export function isWithinHours(hours: TransferHours | null, timeZone: string, now = new Date()): boolean {
+  if (!hours) return true;
+
+  const { day, minutes } = localTime(now, timeZone);
+  const open = toMinutes(hours.open);
+  const close = toMinutes(hours.close);
+
+  if (open < close) {
+    return hours.days.includes(day) && minutes >= open && minutes < close;
+  }
+
+  const yesterday = WEEKDAYS[(WEEKDAYS.indexOf(day) + 6) % 7];
+  return (hours.days.includes(day) && minutes >= open) || (hours.days.includes(yesterday) && minutes < close);
+}
+
+export type TransferUnavailableReason = 'disabled' | 'no_destination' | 'outside_hours';
+
+export type TransferRouting =
+  | { available: true; destination: TransferDestination }
+  | { available: false; reason: TransferUnavailableReason };
+
+/**
+ * Pick where to send a transfer
+ * Destinations for the requested department are tried first, then the rest
+ * in the order the merchant listed them; the first one that is open wins.
+ */
+export function resolveTransferDestination(
+  settings: TransferSettings,
+  options: { department?: string | null; timeZone: string; now?: Date }
+): TransferRouting {
+  if (!settings.enabled) return { available: false, reason: 'disabled' };
+  if (settings.destinations.length === 0) return { available: false, reason: 'no_destination' };
+
+  const department = options.department?.trim().toLowerCase();
+  const ordered = department
+    ? [
+        ...settings.destinations.filter(d => d.department?.toLowerCase() === department),
+        ...settings.destinations.filter(d => d.department?.toLowerCase() !== department),
+      ]
+    : settings.destinations;
+
+  const destination = ordered.find(d => isWithinHours(d.hours, options.timeZone, options.now));
+
+  return destination
+    ? { available: true, destination }
+    : { available: false, reason: 'outside_hours' };
+}
+
+// ============================================================================
+// Prompt Guidance
+// ============================================================================
+
+/**
+ * Describe when the assistant should transfer, for the system prompt
+ * Returns an empty string when transfers are disabled.
+ */
+export function describeEscalationRules(settings: TransferSettings): string {
+  if (!settings.enabled || settings.destinations.length === 0) return '';
+
+  const triggers = settings.escalation_triggers;
+  const rules: string[] = [];
+
+  if (triggers.caller_requests_human) {
+    rules.push('The caller asks to speak with a person, manager or staff member');
+  }
+  if (triggers.caller_upset) {
+    rules.push('The caller is upset or frustrated and you cannot resolve their issue');
+  }
+  if (triggers.failed_order_lookups) {
+    rules.push(`You could not find their order after ${triggers.failed_order_lookups} attempts`);
+  }
+  if (triggers.keywords.length > 0) {
+    rules.push(`The caller mentions any of: ${triggers.keywords.join(', ')}`);
+  }
+
+  const departments = Array.from(
+    new Set(settings.destinations.map(d => d.department).filter((d): d is string => !!d))
+  );
+
+  const lines = [
+    'Call Transfers:',
+    'Use the transfer_call function to connect the caller with the team when:',
+    ...rules.map(rule => `- ${rule}`),
+  ];
+  if (departments.length > 0) {
+    lines.push(`Pass the department when it's clear (${departments.join(', ')}).`);
+  }
+  lines.push("Tell the caller you're transferring them before calling the function.");
+
+  return lines.join('\n');
+}
@@ -1,3 +1,5 @@
+export type BadgeTone = 'success' | 'critical' | 'warning' | 'attention' | 'info';
+
 export function formatDuration(seconds: number): string {
   const mins = Math.floor(seconds / 60);
   const secs = seconds % 60;
@@ -12,7 +14,11 @@ export function formatCallDate(date: string): string {
   return new Date(date).toLocaleDateString();
 }
 
-export function getSentimentColor(sentiment: string): string {
+export function formatCallDateTime(date: string): string {
+  return new Date(date).toLocaleString();
+}
+
+export function getSentimentColor(sentiment: string): BadgeTone {
   switch (sentiment) {
     case 'positive':
       return 'success';
@@ -23,8 +29,9 @@ export function getSentimentColor(sentiment: string): string {
   }
 }
 
-export function getStatusBadge(status: string): string {
+export function getStatusBadge(status: string): BadgeTone {
   switch (status) {
+    case 'resolved':
     case 'completed':
       return 'success';
     case 'abandoned':
@@ -0,0 +1,238 @@
+import { adminGraphQL } from './shopify/admin-graphql';
+import { phonesMatch } from './shopify/orders';
+import {
+  clearGdprExports,
+  completeGdprRequest,
+  createGdprRequest,
+  deleteShop,
+  deleteShopSessions,
+  getCallActions,
+  getOfflineAccessToken,
+  getShopByDomain,
+  getShopCallsByPhoneSuffix,
+  redactCalls,
+  type Call,
+  type Shop,
+} from './supabase/db';
+import { isCleanupComplete, runUninstallCleanup } from './shop-uninstall';
+import { deleteVapiCall } from './vapi';
+import { logError } from './utils/errors';
+
+/**
+ * Customer block shared by customers/data_request and customers/redact
+ */
+export interface GdprCustomer {
+  id?: number | string | null;
+  email?: string | null;
+  phone?: string | null;
+}
+
+// ============================================================================
+// Customer Lookup
+// ============================================================================
+
+const CUSTOMER_PHONES_QUERY = `
+  query customerPhones($id: ID!) {
+    customer(id: $id) {
+      phone
+      addresses(first: 10) {
+        phone
+      }
+    }
+  }
+`;
+
+/**
+ * Every phone number on file for the customer
+ * The payload only carries the primary phone, so address phones are read
+ * from the Admin API when the shop still has a session.
+ */
+async function getCustomerPhones(shop: Shop, customer: GdprCustomer): Promise<string[]> {
+  const phones = customer.phone ? [customer.phone] : [];
+  if (!customer.id) return phones;
+
+  try {
+    const accessToken = await getOfflineAccessToken(shop.shop_domain);
+    if (!accessToken) return phones;
+
+    const data = await adminGraphQL<{
+      customer: { phone: string | null; addresses: Array<{ phone: string | null }> } | null;
+    }>({
+      shopDomain: shop.shop_domain,
+      accessToken,
+      query: CUSTOMER_PHONES_QUERY,
+      variables: { id: `gid://shopify/Customer/${customer.id}` },
+    });
+
+    if (data.customer?.phone) phones.push(data.customer.phone);
+    for (const address of data.customer?.addresses || []) {
+      if (address.phone) phones.push(address.phone);
+    }
+  } catch (error) {
+    logError(error, { context: 'gdpr_customer_phones', shopDomain: shop.shop_domain });
+  }
+
+  return Array.from(new Set(phones));
+}
+
+async function findCustomerCalls(shop: Shop, phones: string[]): Promise<Call[]> {
+  const candidates = await getShopCallsByPhoneSuffix(shop.id, phones);
+  return candidates.filter(call => phones.some(phone => phonesMatch(call.customer_phone, phone)));
+}
+
+// ============================================================================
+// customers/data_request
+// ============================================================================
+
+/**
+ * Export every call, transcript and call action tied to the customer's phone
+ * numbers. The export is stored on the gdpr_requests row for the merchant to
+ * hand over (see GET /api/compliance).
+ */
+export async function exportCustomerData(
+  shopDomain: string,
+  customer: GdprCustomer,
+  dataRequestId?: string | number | null
+): Promise<{ requestId: string; calls: number } | null> {
+  const shop = await getShopByDomain(shopDomain);
+  if (!shop) {
+    console.warn(`[GDPR] Data request for unknown shop: ${shopDomain}`);
+    return null;
+  }
+
+  const request = await createGdprRequest({
+    shop_domain: shopDomain,
+    topic: 'customers/data_request',
+    shopify_customer_id: customer.id ? String(customer.id) : null,
+    shopify_request_id: dataRequestId ? String(dataRequestId) : null,
+  });
+
+  const phones = await getCustomerPhones(shop, customer);
+  const calls = await findCustomerCalls(shop, phones);
+
+  const exportedCalls = [];
+  for (const call of calls) {
+    exportedCalls.push({
+      id: call.id,
+      started_at: call.started_at,
+      ended_at: call.ended_at,
+      duration_seconds: call.duration_seconds,
+      customer_phone: call.customer_phone,
+      customer_name: call.customer_name,
+      summary: call.summary,
+      sentiment: call.sentiment,
+      resolution_status: call.resolution_status,
+      action_items: call.action_items,
+      recording_url: call.recording_url,
+      transcript: call.transcript,
+      actions: (await getCallActions(call.id)).map(action => ({
+        type: action.action_type,
+        success: action.success,
+        data: action.action_data,
+        created_at: action.created_at,
+      })),
+    });
+  }
+
+  await completeGdprRequest(request.id, {
+    export: {
+      generated_at: new Date().toISOString(),
+      customer: { id: customer.id ?? null, email: customer.email ?? null, phones },
+      calls: exportedCalls,
+    },
+    result: { calls: exportedCalls.length, phones_matched: phones.length },
+  });
+
+  console.log(`[GDPR] Exported ${exportedCalls.length} calls for customer ${customer.id} of ${shopDomain}`);
+  return { requestId: request.id, calls: exportedCalls.length };
+}
+
+// ============================================================================
+// customers/redact
+// ============================================================================
+
+/**
+ * Scrub the customer's calls: caller details, transcripts, summaries,
+ * recordings and action data. The Vapi call records holding the original
+ * recording are deleted too.
+ */
+export async function redactCustomer(
+  shopDomain: string,
+  customer: GdprCustomer
+): Promise<{ requestId: string; calls: number } | null> {
+  const shop = await getShopByDomain(shopDomain);
+  if (!shop) {
+    console.warn(`[GDPR] Redact request for unknown shop: ${shopDomain}`);
+    return null;
+  }
+
+  const customerId = customer.id ? String(customer.id) : null;
+  const request = await createGdprRequest({
+    shop_domain: shopDomain,
+    topic: 'customers/redact',
+    shopify_customer_id: customerId,
+  });
+
+  const phones = await getCustomerPhones(shop, customer);
+  const calls = await findCustomerCalls(shop, phones);
+
+  await redactCalls(calls.map(call => call.id));
+
+  let vapiCallsDeleted = 0;
+  for (const call of calls) {
+    try {
+      await deleteVapiCall(call.vapi_call_id);
+      vapiCallsDeleted++;
+    } catch (error) {
+      logError(error, { context: 'gdpr_delete_vapi_call', vapiCallId: call.vapi_call_id });
+    }
+  }
+
+  if (customerId) {
+    await clearGdprExports(shopDomain, customerId);
+  }
+
+  await completeGdprRequest(request.id, {
+    result: { calls_redacted: calls.length, vapi_calls_deleted: vapiCallsDeleted },
+  });
+
+  console.log(`[GDPR] Redacted ${calls.length} calls for customer ${customerId} of ${shopDomain}`);
+  return { requestId: request.id, calls: calls.length };
+}
+
+// ============================================================================
+// shop/redact
+// ============================================================================
+
+/**
+ * Hard-delete everything stored for a shop
+ * Shopify sends this 48 hours after uninstall, so it overrides the uninstall
+ * retention window. Vapi resources are released first if that hasn't
+ * happened yet.
+ */
+export async function redactShop(shopDomain: string): Promise<{ requestId: string }> {
+  const request = await createGdprRequest({ shop_domain: shopDomain, topic: 'shop/redact' });
+  const shop = await getShopByDomain(shopDomain);
+
+  const result: Record<string, unknown> = { shop_found: !!shop };
+
+  if (shop) {
+    if (!isCleanupComplete(shop)) {
+      const cleanup = await runUninstallCleanup(shop);
+      if (cleanup.failed.length > 0) {
+        // Kept so the Vapi resources can still be released by hand
+        result.cleanup_failed = cleanup.failed;
+        result.vapi_assistant_id = cleanup.shop.vapi_assistant_id;
+        result.vapi_phone_number_id = cleanup.shop.vapi_phone_number_id;
+      }
+    }
+    await deleteShop(shop.id);
+  }
+
+  await deleteShopSessions(shopDomain);
+  await clearGdprExports(shopDomain);
+  await completeGdprRequest(request.id, { result });
+
+  console.log(`[GDPR] Deleted all data for ${shopDomain}`);
+  return { requestId: request.id };
+}
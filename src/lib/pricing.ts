@@ -0,0 +1,252 @@
+/**
+ * Price Formatting
+ *
+ * Prices are amounts in their own currency (products.price, Shopify Money
+ * amounts), never cents. They're formatted here for the two places the
+ * receptionist uses them: written prices for tool results and the system
+ * prompt ("$24.99", "24,99 €"), and spoken prices for text-to-speech
+ * ("twenty-four ninety-nine").
+ */
+
+export interface PriceFormat {
+  /** ISO 4217 currency code, e.g. USD */
+  currency: string;
+  /** BCP 47 locale, e.g. en-US */
+  locale: string;
+}
+
+export const DEFAULT_PRICE_FORMAT: PriceFormat = { currency: 'USD', locale: 'en-US' };
+
+/**
+ * A price as a number, from a Shopify amount string or a stored amount
+ */
+export function toAmount(price: string | number | null | undefined): number | null {
+  if (price === null || price === undefined || price === '') return null;
+  const value = typeof price === 'string' ? parseFloat(price) : price;
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * A locale Intl can format in; unknown or malformed locales fall back to en-US
+ */
+function supportedLocale(locale: string | undefined): string {
+  try {
+    return (locale && Intl.NumberFormat.supportedLocalesOf(locale)[0]) || DEFAULT_PRICE_FORMAT.locale;
+  } catch {
+    return DEFAULT_PRICE_FORMAT.locale;
+  }
+}
+
+function currencyFormatter(currency: string, locale: string, options: Intl.NumberFormatOptions = {}) {
+  return new Intl.NumberFormat(supportedLocale(locale), { style: 'currency', currency, ...options });
+}
+
+/**
+ * Written price, e.g. formatPrice(24.99, 'USD') -> "$24.99"
+ */
+export function formatPrice(amount: number, currency: string, locale = DEFAULT_PRICE_FORMAT.locale): string {
+  try {
+    return currencyFormatter(currency, locale).format(amount);
+  } catch {
+    // Not an ISO currency code
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+// ============================================================================
+// Spoken Prices
+// ============================================================================
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+const SCALES: Array<[number, string]> = [
+  [1_000_000_000, 'billion'],
+  [1_000_000, 'million'],
+  [1_000, 'thousand'],
+];
+
+function spellBelowThousand(n: number): string {
+  const words: string[] = [];
+  if (n >= 100) {
+    words.push(`${ONES[Math.floor(n / 100)]} hundred`);
+    n %= 100;
+  }
+  if (n >= 20) {
+    words.push(n % 10 ? `${TENS[Math.floor(n / 10)]}-${ONES[n % 10]}` : TENS[Math.floor(n / 10)]);
+  } else if (n > 0 || words.length === 0) {
+    words.push(ONES[n]);
+  }
+  return words.join(' ');
+}
+
+/**
+ * A whole number in English words, e.g. 1249 -> "one thousand two hundred forty-nine"
+ */
+export function spellNumber(n: number): string {
+  if (n < 1000) return spellBelowThousand(n);
+
+  const words: string[] = [];
+  for (const [scale, name] of SCALES) {
+    if (n >= scale) {
+      words.push(`${spellNumber(Math.floor(n / scale))} ${name}`);
+      n %= scale;
+    }
+  }
+  if (n > 0) words.push(spellBelowThousand(n));
+  return words.join(' ');
+}
+
+/**
+ * Spoken currency name for an amount, e.g. "US dollars"; with short, the
+ * name without its country, e.g. "dollars"
+ */
+function currencyName(currency: string, amount: number, short: boolean): string {
+  let name = currency;
+  try {
+    name =
+      currencyFormatter(currency, 'en', { currencyDisplay: 'name', minimumFractionDigits: 0 })
+        .formatToParts(amount)
+        .find(part => part.type === 'currency')?.value ?? currency;
+  } catch {
+    // Not an ISO currency code; say the code
+  }
+  return short ? name.split(' ').pop()! : name;
+}
+
+/**
+ * Spoken price for text-to-speech
+ *
+ * English locales get the words a person would say: "twenty-four ninety-nine",
+ * "twelve dollars", "ninety-nine cents". When the price isn't in the shop's
+ * own currency (a Markets price for another country) the currency is named:
+ * "twenty-four ninety-nine in Canadian dollars". Other locales get Intl's
+ * spelled-out currency, e.g. "24,99 dollars canadiens", which their voices
+ * read naturally.
+ */
+export function formatPriceForSpeech(
+  amount: number,
+  currency: string,
+  format: PriceFormat = DEFAULT_PRICE_FORMAT
+): string {
+  const locale = supportedLocale(format.locale);
+
+  if (!locale.toLowerCase().startsWith('en')) {
+    try {
+      return currencyFormatter(currency, locale, { currencyDisplay: 'name' }).format(amount);
+    } catch {
+      return formatPrice(amount, currency, locale);
+    }
+  }
+
+  let fractionDigits = 2;
+  try {
+    fractionDigits = currencyFormatter(currency, 'en').resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    // Not an ISO currency code; assume cents
+  }
+
+  const factor = 10 ** fractionDigits;
+  const total = Math.round(Math.abs(amount) * factor);
+  const major = Math.floor(total / factor);
+  const minor = total % factor;
+  const foreign = currency.toUpperCase() !== format.currency.toUpperCase();
+
+  if (minor === 0) {
+    return `${spellNumber(major)} ${currencyName(currency, major, !foreign)}`;
+  }
+
+  // Three-decimal currencies (e.g. KWD) have no everyday spoken form
+  if (fractionDigits !== 2) {
+    const digits = String(minor).padStart(fractionDigits, '0').split('').map(d => ONES[Number(d)]);
+    return `${spellNumber(major)} point ${digits.join(' ')} ${currencyName(currency, amount, !foreign)}`;
+  }
+
+  const spoken =
+    major === 0
+      ? `${spellNumber(minor)} ${currency.toUpperCase() === 'GBP' ? 'pence' : minor === 1 ? 'cent' : 'cents'}`
+      : `${spellNumber(major)} ${minor < 10 ? `oh ${ONES[minor]}` : spellNumber(minor)}`;
+
+  return foreign ? `${spoken} in ${currencyName(currency, amount, false)}` : spoken;
+}
+
+// ============================================================================
+// Countries
+// ============================================================================
+
+/**
+ * What callers call countries that their English names don't cover
+ */
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: 'US',
+  'united states of america': 'US',
+  america: 'US',
+  'the states': 'US',
+  uk: 'GB',
+  britain: 'GB',
+  'great britain': 'GB',
+  england: 'GB',
+  scotland: 'GB',
+  wales: 'GB',
+  'northern ireland': 'GB',
+  holland: 'NL',
+  'the netherlands': 'NL',
+  uae: 'AE',
+  emirates: 'AE',
+  'south korea': 'KR',
+  korea: 'KR',
+  russia: 'RU',
+};
+
+/**
+ * Region codes that aren't countries: private use, unknown, EU and UN
+ */
+const NON_COUNTRY_CODES = /^(?:AA|Q[M-Z]|X[A-JL-Z]|ZZ|EU|EZ|UN)$/;
+
+let countryNames: Map<string, string> | null = null;
+
+/**
+ * English country name (lowercase) -> ISO 3166 code, built from Intl
+ */
+function getCountryNames(): Map<string, string> {
+  if (countryNames) return countryNames;
+
+  countryNames = new Map();
+  const displayNames = new Intl.DisplayNames(['en'], { type: 'region', fallback: 'none' });
+  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+  for (const first of letters) {
+    for (const second of letters) {
+      const code = `${first}${second}`;
+      if (NON_COUNTRY_CODES.test(code)) continue;
+      const name = displayNames.of(code);
+      if (name && name !== code) countryNames.set(name.toLowerCase(), code);
+    }
+  }
+  return countryNames;
+}
+
+/**
+ * ISO 3166 alpha-2 code for a country a caller named, e.g. "Canada" -> "CA"
+ * Accepts codes as well as names. Returns null when it isn't a country.
+ */
+export function resolveCountryCode(country: string): string | null {
+  const cleaned = country.trim().toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ');
+  if (!cleaned) return null;
+
+  if (COUNTRY_ALIASES[cleaned]) return COUNTRY_ALIASES[cleaned];
+
+  const names = getCountryNames();
+  const byName = names.get(cleaned) ?? names.get(cleaned.replace(/^the /, ''));
+  if (byName) return byName;
+
+  if (/^[a-z]{2}$/.test(cleaned)) {
+    const code = cleaned.toUpperCase();
+    return Array.from(names.values()).includes(code) ? code : null;
+  }
+  return null;
+}
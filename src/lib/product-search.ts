@@ -0,0 +1,193 @@
+import { recordProductInterest, searchProducts, type ProductSearchHit } from './supabase/db';
+import { logError } from './utils/errors';
+
+/**
+ * Local Product Search
+ *
+ * Fuzzy search over the synced products table for what callers say, which
+ * often isn't what Shopify's search can match: transcription misspellings
+ * ("sneekers"), spelled-out numbers ("air max ninety") and everyday words for
+ * catalog terms ("trainers"). Queries are normalized and expanded here;
+ * trigram and phonetic ranking happens in search_products_fuzzy
+ * (database/015_product_search.sql).
+ */
+
+// ============================================================================
+// Number Words
+// ============================================================================
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+function isNumberWord(table: Record<string, number>, word: string | undefined): word is string {
+  return word !== undefined && Object.prototype.hasOwnProperty.call(table, word);
+}
+
+/**
+ * A number below 100 spelled out from words[start], e.g. "ninety five"
+ */
+function readBelowHundred(words: string[], start: number): { value: number; consumed: number } | null {
+  const word = words[start];
+  if (isNumberWord(TENS, word)) {
+    const next = words[start + 1];
+    return isNumberWord(UNITS, next) && UNITS[next] > 0 && UNITS[next] < 10
+      ? { value: TENS[word] + UNITS[next], consumed: 2 }
+      : { value: TENS[word], consumed: 1 };
+  }
+  return isNumberWord(UNITS, word) ? { value: UNITS[word], consumed: 1 } : null;
+}
+
+/**
+ * Replace spelled-out numbers with digits: "air max ninety five" -> "air max 95",
+ * "five hundred twenty" -> "520"
+ * A lone "one" is left alone, since it's usually a pronoun ("the blue one").
+ */
+export function numberWordsToDigits(text: string): string {
+  const words = text.split(' ');
+  const output: string[] = [];
+  let i = 0;
+
+  while (i < words.length) {
+    const number = readBelowHundred(words, i);
+
+    if (!number || (words[i] === 'one' && words[i + 1] !== 'hundred')) {
+      output.push(words[i]);
+      i++;
+      continue;
+    }
+
+    let { value, consumed } = number;
+    if (words[i + consumed] === 'hundred') {
+      value *= 100;
+      consumed++;
+      const remainder = readBelowHundred(words, i + consumed);
+      if (remainder) {
+        value += remainder.value;
+        consumed += remainder.consumed;
+      }
+    }
+
+    output.push(String(value));
+    i += consumed;
+  }
+
+  return output.join(' ');
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/**
+ * Words that carry no product meaning in a spoken request
+ */
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'some', 'any', 'your', 'my', 'those', 'these', 'that', 'this',
+  'um', 'uh', 'like', 'please', 'pair', 'of',
+]);
+
+/**
+ * How requests start when the model passes the caller's whole sentence
+ */
+const REQUEST_PREFIX =
+  /^(?:(?:do|does) (?:you|yall|u) (?:guys )?(?:have|sell|carry|stock)|(?:i am|im|i was|we are|were) looking for|i (?:want|need|would like)|(?:can|could) i (?:get|buy|order)) /;
+
+/**
+ * Lowercase, strip punctuation, request phrasing and filler, and turn number
+ * words into digits
+ */
+export function normalizeSpokenQuery(query: string): string {
+  const words = query
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(REQUEST_PREFIX, '')
+    .split(' ')
+    .filter(word => word && !FILLER_WORDS.has(word));
+
+  return numberWordsToDigits(words.join(' '));
+}
+
+// ============================================================================
+// Synonyms
+// ============================================================================
+
+/**
+ * Interchangeable ways callers and catalogs name the same thing
+ */
+const SYNONYM_GROUPS: string[][] = [
+  ['sneakers', 'trainers', 'running shoes', 'kicks', 'tennis shoes'],
+  ['t shirt', 'tshirt', 'tee', 'tee shirt'],
+  ['hoodie', 'hooded sweatshirt', 'hoody'],
+  ['sweater', 'jumper', 'pullover'],
+  ['pants', 'trousers', 'slacks'],
+  ['jacket', 'coat'],
+  ['cap', 'hat', 'ball cap'],
+  ['bag', 'purse', 'handbag', 'tote'],
+  ['sofa', 'couch'],
+  ['cell phone', 'phone', 'mobile'],
+];
+
+/**
+ * Maximum query variants sent to the search function
+ */
+const MAX_SEARCH_TERMS = 6;
+
+/**
+ * The normalized query plus a variant for each synonym of a phrase it contains
+ */
+export function expandQuery(normalized: string): string[] {
+  const terms = [normalized];
+  const padded = ` ${normalized} `;
+
+  for (const group of SYNONYM_GROUPS) {
+    const found = group.find(phrase => padded.includes(` ${phrase} `));
+    if (!found) continue;
+
+    for (const synonym of group) {
+      if (synonym === found) continue;
+      terms.push(padded.replace(` ${found} `, ` ${synonym} `).trim());
+    }
+  }
+
+  return Array.from(new Set(terms)).slice(0, MAX_SEARCH_TERMS);
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Rank a shop's synced products against what the caller said
+ * Returns [] for queries with nothing searchable left after normalization.
+ */
+export async function searchLocalProducts(
+  shopId: string,
+  query: string,
+  limit = 5
+): Promise<ProductSearchHit[]> {
+  const normalized = normalizeSpokenQuery(query);
+  if (!normalized) return [];
+
+  return searchProducts(shopId, expandQuery(normalized), limit);
+}
+
+/**
+ * Count products a caller asked about towards their popularity ranking
+ * Never throws - it's bookkeeping for a live call.
+ */
+export async function noteProductInterest(shopId: string, shopifyProductIds: string[]): Promise<void> {
+  try {
+    await recordProductInterest(shopId, Array.from(new Set(shopifyProductIds)));
+  } catch (error) {
+    logError(error, { context: 'noteProductInterest', shopId });
+  }
+}
@@ -0,0 +1,393 @@
+import { requestAssistantSync } from './assistant-sync';
+import {
+  claimProductSyncRun,
+  createProductSyncRun,
+  deleteProductsNotSyncedSince,
+  getLatestProductSyncRun,
+  getOfflineAccessToken,
+  getProductSyncRun,
+  getResumableProductSyncRuns,
+  getShopById,
+  updateProductSyncRun,
+  updateShop,
+  upsertProduct,
+  upsertProducts,
+  type ProductSyncMode,
+  type ProductSyncRun,
+  type Shop,
+} from './supabase/db';
+import {
+  countProducts,
+  fetchProductsPage,
+  getBulkOperation,
+  readBulkProductExport,
+  startBulkProductExport,
+  toSyncedProduct,
+  type ShopifyProduct,
+} from './shopify/products';
+import { fetchShopLocalization } from './shopify/shop';
+import { functionCache } from './vapi/function-cache';
+import { ExternalServiceError, RateLimitError, ValidationError, logError } from './utils/errors';
+
+/**
+ * Product Catalog Sync
+ *
+ * Copies a shop's active products from Shopify into the products table as a
+ * recorded run (product_sync_runs) worked through in time-boxed slices:
+ * - full: every active product, page by page
+ * - delta: only products updated since the last completed run
+ * - bulk: a Shopify bulk export, for catalogs too big to page through
+ *
+ * Each slice checkpoints after every page, so a run cut off by a function
+ * timeout resumes from its last page. The merchant's sync screen drives
+ * slices while it's open; the /api/products/sync/resume cron picks up the rest.
+ */
+
+/**
+ * Time one slice may spend before checkpointing and handing back
+ * Leaves headroom under a 60 second function limit.
+ */
+export const SYNC_SLICE_BUDGET_MS = 45_000;
+
+/**
+ * A running run with no checkpoint for this long is assumed dead and reclaimed
+ */
+export const SYNC_STALE_AFTER_MS = 2 * 60 * 1000;
+
+/**
+ * Catalogs larger than this sync with a bulk export instead of paging
+ */
+export const BULK_SYNC_THRESHOLD = 2000;
+
+/**
+ * Slices after which a run is failed rather than resumed again
+ */
+const MAX_SYNC_SLICES = 100;
+
+const BULK_POLL_INTERVAL_MS = 3000;
+const BULK_SAVE_BATCH_SIZE = 100;
+const ACTIVE_PRODUCTS_QUERY = 'status:active';
+
+function productQuery(run: Pick<ProductSyncRun, 'mode' | 'updated_since'>): string {
+  return run.mode === 'delta' && run.updated_since
+    ? `${ACTIVE_PRODUCTS_QUERY} updated_at:>'${run.updated_since}'`
+    : ACTIVE_PRODUCTS_QUERY;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Delta once a run has completed; otherwise full, or bulk for big catalogs
+ */
+export function determineSyncMode(estimatedCount: number, hasCompletedRun: boolean): ProductSyncMode {
+  if (hasCompletedRun) return 'delta';
+  return estimatedCount > BULK_SYNC_THRESHOLD ? 'bulk' : 'full';
+}
+
+async function getAccessToken(shopDomain: string): Promise<string> {
+  const accessToken = await getOfflineAccessToken(shopDomain);
+  if (!accessToken) {
+    throw new ExternalServiceError('No offline session for shop', 'shopify', { shopDomain });
+  }
+  return accessToken;
+}
+
+// ============================================================================
+// Starting a Run
+// ============================================================================
+
+/**
+ * Pick up currency and locale changes before products are saved in the
+ * shop's currency
+ * A failed lookup keeps the stored values rather than failing the sync.
+ */
+async function refreshShopLocalization(shop: Shop, accessToken: string): Promise<void> {
+  try {
+    const { currency, locale } = await fetchShopLocalization(accessToken, shop.shop_domain);
+    if (currency !== shop.currency || locale !== shop.locale) {
+      await updateShop(shop.id, { currency, locale });
+    }
+  } catch (error) {
+    logError(error, { context: 'refreshShopLocalization', shopId: shop.id });
+  }
+}
+
+/**
+ * Queue a sync run for a shop, or return the one already in progress
+ */
+export async function startProductSync(
+  shop: Shop,
+  options: { mode?: ProductSyncMode } = {}
+): Promise<{ run: ProductSyncRun; created: boolean }> {
+  const active = await getLatestProductSyncRun(shop.id, ['pending', 'running']);
+  if (active) return { run: active, created: false };
+
+  const lastCompleted = await getLatestProductSyncRun(shop.id, ['completed']);
+  if (options.mode === 'delta' && !lastCompleted?.started_at) {
+    throw new ValidationError('A delta sync needs a completed sync to start from');
+  }
+
+  const accessToken = await getAccessToken(shop.shop_domain);
+  await refreshShopLocalization(shop, accessToken);
+  const estimate = await countProducts(accessToken, shop.shop_domain, ACTIVE_PRODUCTS_QUERY);
+  const mode = options.mode ?? determineSyncMode(estimate, !!lastCompleted?.started_at);
+  // Changes made while the last run was in progress are picked up again
+  const updatedSince = mode === 'delta' ? lastCompleted!.started_at : null;
+
+  const run = await createProductSyncRun(shop.id, {
+    mode,
+    updated_since: updatedSince,
+    total_estimate:
+      mode === 'delta'
+        ? await countProducts(accessToken, shop.shop_domain, productQuery({ mode, updated_since: updatedSince }))
+        : estimate,
+  });
+
+  if (run) {
+    console.log(`[ProductSync] Queued ${mode} sync for ${shop.shop_domain} (~${run.total_estimate} products)`);
+    return { run, created: true };
+  }
+
+  // Another request queued one between our check and insert
+  const raced = await getLatestProductSyncRun(shop.id, ['pending', 'running']);
+  if (!raced) throw new ExternalServiceError('Failed to queue product sync', 'supabase', { shopId: shop.id });
+  return { run: raced, created: false };
+}
+
+// ============================================================================
+// Working a Run
+// ============================================================================
+
+interface SliceContext {
+  shopId: string;
+  shopDomain: string;
+  accessToken: string;
+  /** Shop currency; Admin API prices are in it */
+  currency: string;
+  deadline: number;
+}
+
+interface SliceProgress {
+  done: boolean;
+  processed: number;
+  failed: number;
+}
+
+/**
+ * Save a batch in one request, falling back to one at a time so a single bad
+ * product doesn't fail the rest
+ */
+async function saveProducts(
+  ctx: SliceContext,
+  products: ShopifyProduct[]
+): Promise<{ saved: number; failed: number }> {
+  const rows = products.map(product => toSyncedProduct(product, ctx.shopDomain, ctx.currency));
+
+  try {
+    return { saved: await upsertProducts(ctx.shopId, rows), failed: 0 };
+  } catch (error) {
+    logError(error, { context: 'product_sync_batch', shopId: ctx.shopId, count: rows.length });
+  }
+
+  let saved = 0;
+  for (const { shopify_product_id, ...row } of rows) {
+    try {
+      await upsertProduct(ctx.shopId, shopify_product_id, row);
+      saved++;
+    } catch (error) {
+      logError(error, { context: 'product_sync_upsert', shopId: ctx.shopId, shopifyProductId: shopify_product_id });
+    }
+  }
+  return { saved, failed: rows.length - saved };
+}
+
+/**
+ * Page through products from the run's cursor until done or out of time
+ */
+async function runPagedSlice(run: ProductSyncRun, ctx: SliceContext): Promise<SliceProgress> {
+  let { cursor, processed, failed } = run;
+
+  while (Date.now() < ctx.deadline) {
+    let page: Awaited<ReturnType<typeof fetchProductsPage>>;
+    try {
+      page = await fetchProductsPage(ctx.accessToken, ctx.shopDomain, { after: cursor, query: productQuery(run) });
+    } catch (error) {
+      if (!(error instanceof RateLimitError)) throw error;
+      await sleep(1000);
+      continue;
+    }
+
+    const result = await saveProducts(ctx, page.products);
+    processed += result.saved;
+    failed += result.failed;
+    cursor = page.endCursor ?? cursor;
+
+    if (!page.hasNextPage) return { done: true, processed, failed };
+    await updateProductSyncRun(run.id, { cursor, processed, failed });
+  }
+
+  return { done: false, processed, failed };
+}
+
+/**
+ * Start or wait on the run's bulk export, then save it from the last offset
+ */
+async function runBulkSlice(run: ProductSyncRun, ctx: SliceContext): Promise<SliceProgress> {
+  const { processed, failed } = run;
+  let bulkOperationId = run.bulk_operation_id;
+
+  if (!bulkOperationId) {
+    const operation = await startBulkProductExport(ctx.accessToken, ctx.shopDomain, ACTIVE_PRODUCTS_QUERY);
+    bulkOperationId = operation.id;
+    await updateProductSyncRun(run.id, { bulk_operation_id: bulkOperationId });
+  }
+
+  for (;;) {
+    const operation = await getBulkOperation(ctx.accessToken, ctx.shopDomain, bulkOperationId);
+    if (!operation) {
+      throw new ExternalServiceError('Bulk export not found', 'shopify', { bulkOperationId });
+    }
+
+    if (operation.status === 'COMPLETED') {
+      // No url means the export matched no products
+      return operation.url
+        ? saveBulkExport(run, ctx, operation.url)
+        : { done: true, processed, failed };
+    }
+
+    if (operation.status !== 'CREATED' && operation.status !== 'RUNNING') {
+      throw new ExternalServiceError(
+        `Bulk export ${operation.status.toLowerCase()}${operation.errorCode ? `: ${operation.errorCode}` : ''}`,
+        'shopify',
+        { bulkOperationId }
+      );
+    }
+
+    if (Date.now() + BULK_POLL_INTERVAL_MS >= ctx.deadline) {
+      return { done: false, processed, failed };
+    }
+    await updateProductSyncRun(run.id, {});
+    await sleep(BULK_POLL_INTERVAL_MS);
+  }
+}
+
+async function saveBulkExport(run: ProductSyncRun, ctx: SliceContext, url: string): Promise<SliceProgress> {
+  let { processed, failed } = run;
+  const products = await readBulkProductExport(url);
+
+  if (run.total_estimate !== products.length) {
+    await updateProductSyncRun(run.id, { total_estimate: products.length });
+  }
+
+  // Every product is counted once, as saved or failed, so the sum is the offset
+  for (let offset = processed + failed; offset < products.length; offset += BULK_SAVE_BATCH_SIZE) {
+    if (Date.now() >= ctx.deadline) return { done: false, processed, failed };
+
+    const result = await saveProducts(ctx, products.slice(offset, offset + BULK_SAVE_BATCH_SIZE));
+    processed += result.saved;
+    failed += result.failed;
+    await updateProductSyncRun(run.id, { processed, failed });
+  }
+
+  return { done: true, processed, failed };
+}
+
+/**
+ * Finish a run: drop products Shopify no longer has, clear cached answers
+ * and queue an assistant re-sync for the new product list
+ * Removal only follows complete full and bulk runs, since a delta or a run
+ * with failed products doesn't touch every current product.
+ */
+async function completeRun(run: ProductSyncRun, progress: SliceProgress): Promise<ProductSyncRun> {
+  const removed =
+    run.mode !== 'delta' && progress.failed === 0 && run.started_at
+      ? await deleteProductsNotSyncedSince(run.shop_id, run.started_at)
+      : 0;
+
+  await functionCache.invalidateShop(run.shop_id);
+  await requestAssistantSync(run.shop_id, 'product_sync_completed');
+
+  const completed = await updateProductSyncRun(run.id, {
+    status: 'completed',
+    processed: progress.processed,
+    failed: progress.failed,
+    removed,
+    error: null,
+    completed_at: new Date().toISOString(),
+  });
+
+  console.log(
+    `[ProductSync] Completed ${run.mode} sync ${run.id}: ${progress.processed} saved, ${progress.failed} failed, ${removed} removed`
+  );
+  return completed;
+}
+
+/**
+ * Work on a run for up to budgetMs
+ * Returns the run as the slice left it: completed, failed, or pending with a
+ * checkpoint for the next slice. A run another slice is working on is
+ * returned unchanged.
+ */
+export async function runProductSyncSlice(
+  runId: string,
+  options: { budgetMs?: number } = {}
+): Promise<ProductSyncRun | null> {
+  const run = await claimProductSyncRun(runId, SYNC_STALE_AFTER_MS);
+  if (!run) return getProductSyncRun(runId);
+
+  if (run.attempts > MAX_SYNC_SLICES) {
+    return updateProductSyncRun(run.id, { status: 'failed', error: `Gave up after ${MAX_SYNC_SLICES} slices` });
+  }
+
+  try {
+    const shop = await getShopById(run.shop_id);
+    if (!shop) throw new ValidationError('Shop not found for product sync');
+
+    const ctx: SliceContext = {
+      shopId: shop.id,
+      shopDomain: shop.shop_domain,
+      accessToken: await getAccessToken(shop.shop_domain),
+      currency: shop.currency,
+      deadline: Date.now() + (options.budgetMs ?? SYNC_SLICE_BUDGET_MS),
+    };
+
+    const progress = run.mode === 'bulk' ? await runBulkSlice(run, ctx) : await runPagedSlice(run, ctx);
+
+    if (progress.done) return await completeRun(run, progress);
+    return await updateProductSyncRun(run.id, {
+      status: 'pending',
+      processed: progress.processed,
+      failed: progress.failed,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logError(error, { context: 'runProductSyncSlice', runId, mode: run.mode });
+
+    // Failures are final; the next run starts from the last completed one
+    return updateProductSyncRun(run.id, { status: 'failed', error: message });
+  }
+}
+
+/**
+ * Carry on every run that's waiting for a slice or whose slice died
+ */
+export async function resumeProductSyncs(
+  options: { budgetMs?: number } = {}
+): Promise<{ completed: number; pending: number; failed: number; skipped: number }> {
+  const deadline = Date.now() + (options.budgetMs ?? SYNC_SLICE_BUDGET_MS);
+  const totals = { completed: 0, pending: 0, failed: 0, skipped: 0 };
+
+  // Sequential on purpose: each slice already spends the time it's given
+  for (const candidate of await getResumableProductSyncRuns(SYNC_STALE_AFTER_MS)) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+
+    const run = await runProductSyncSlice(candidate.id, { budgetMs: remaining });
+    if (!run || run.status === 'running') totals.skipped++;
+    else totals[run.status]++;
+  }
+
+  return totals;
+}
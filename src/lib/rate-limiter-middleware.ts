@@ -8,6 +8,7 @@ import {
 } from './rate-limiter';
 import { RateLimitError } from './utils/errors';
 import { logError } from './utils/errors';
+import { getShopFromWebhook, parseWebhookPayload } from './webhooks';
 
 /**
  * Extract shop ID from request context
@@ -68,6 +69,23 @@ export async function withShopifyRateLimit(
   }
 }
 
+/**
+ * Shop a Shopify webhook delivery is for
+ * Shopify sends it as X-Shopify-Shop-Domain; the payload is read from a
+ * clone so the handler still gets the raw body for HMAC verification.
+ */
+async function getWebhookShopDomain(request: NextRequest): Promise<string | null> {
+  const header = request.headers.get('x-shopify-shop-domain');
+  if (header) return header;
+
+  try {
+    const payload = parseWebhookPayload(await request.clone().text());
+    return payload ? getShopFromWebhook(payload) : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Middleware for webhook rate limiting
  */
@@ -82,7 +100,7 @@ export async function withWebhookRateLimit(
     );
   }
 
-  const shopDomain = request.headers.get('x-shopify-shop-api-call-limit');
+  const shopDomain = await getWebhookShopDomain(request);
 
   if (!shopDomain) {
     return NextResponse.json(
@@ -91,9 +109,9 @@ export async function withWebhookRateLimit(
     );
   }
 
-  const status = webhookLimiter.checkLimit(shopDomain);
+  const { allowed, status } = await webhookLimiter.checkLimit(shopDomain);
 
-  if (status.remaining === 0) {
+  if (!allowed) {
     const headers = getRateLimitHeaders(status);
     logError(new Error('Webhook rate limit exceeded'), {
       shop: shopDomain,
@@ -126,7 +144,7 @@ export async function withAuthRateLimit(
   handler: () => Promise<NextResponse>
 ): Promise<NextResponse> {
   const ip = getIpFromRequest(request);
-  const { allowed, status } = authLimiter.checkAuthAttempt(ip);
+  const { allowed, status } = await authLimiter.checkAuthAttempt(ip);
 
   if (!allowed) {
     const headers = getRateLimitHeaders(status);
@@ -160,12 +178,10 @@ export async function withAuthRateLimit(
 /**
  * Middleware for Vapi call rate limiting
  */
-export function checkVapiRateLimit(
-  shopId: string,
-  durationSeconds: number,
-  costCents: number
-): { allowed: boolean; message?: string } {
-  const result = vapiLimiter.recordCall(shopId, durationSeconds, costCents);
+export async function checkVapiRateLimit(
+  shopId: string
+): Promise<{ allowed: boolean; message?: string }> {
+  const result = await vapiLimiter.recordCall(shopId);
 
   if (!result.allowed) {
     logError(new Error('Vapi rate limit exceeded'), {
@@ -1,4 +1,5 @@
-import { RateLimitError } from './utils/errors';
+import { hitRateLimit, resetRateLimit } from './supabase/db';
+import { logError } from './utils/errors';
 
 // ============================================================================
 // Rate Limiter Interfaces
@@ -7,6 +8,11 @@ import { RateLimitError } from './utils/errors';
 export interface RateLimitConfig {
   maxRequests: number;
   windowMs: number; // milliseconds
+  /**
+   * Count requests over the last windowMs rather than since the window
+   * started, so a burst can't straddle a window boundary (default: true)
+   */
+  sliding?: boolean;
 }
 
 export interface RateLimitStatus {
@@ -15,222 +21,234 @@ export interface RateLimitStatus {
   limit: number;
 }
 
+export interface RateLimitResult {
+  allowed: boolean;
+  status: RateLimitStatus;
+}
+
+export interface RateLimiterStats {
+  identifiers: number;
+  entries: number;
+  store: RateLimitStore['name'];
+  /** Checks answered from memory because the shared store failed */
+  fallbacks: number;
+}
+
 // ============================================================================
-// Base Rate Limiter Class
+// Rate Limit Stores
 // ============================================================================
 
-class RateLimiter {
-  private store: Map<string, { count: number; resetTime: number }> = new Map();
-
-  constructor(private config: RateLimitConfig) {}
+/**
+ * Where request counts live
+ * hit() counts one request if it's within the limit, atomically.
+ */
+export interface RateLimitStore {
+  readonly name: 'memory' | 'postgres';
+  hit(key: string, config: Required<RateLimitConfig>): Promise<RateLimitResult>;
+  reset(key: string): Promise<void>;
+}
 
-  private getKey(identifier: string): string {
-    return identifier;
-  }
+function toResult(allowed: boolean, count: number, resetAt: number, limit: number): RateLimitResult {
+  return {
+    allowed,
+    status: {
+      remaining: allowed ? Math.max(0, Math.floor(limit - count)) : 0,
+      resetAt,
+      limit,
+    },
+  };
+}
 
-  private cleanupExpired(): void {
-    const now = Date.now();
-    for (const [key, data] of this.store.entries()) {
-      if (data.resetTime < now) {
-        this.store.delete(key);
+/**
+ * Counts in this process only
+ * Fixed windows aligned to the epoch; sliding limits weight the previous
+ * window's count by how much of it overlaps the last windowMs, like
+ * rate_limit_hit in database/018_rate_limits.sql.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory' as const;
+  private windows: Map<string, { windowStart: number; count: number; previous: number; expiresAt: number }> =
+    new Map();
+
+  private cleanupExpired(now: number): void {
+    for (const [key, entry] of this.windows.entries()) {
+      if (entry.expiresAt < now) {
+        this.windows.delete(key);
       }
     }
   }
 
-  isAllowed(identifier: string): { allowed: boolean; status: RateLimitStatus } {
-    this.cleanupExpired();
-    const key = this.getKey(identifier);
+  async hit(key: string, config: Required<RateLimitConfig>): Promise<RateLimitResult> {
+    const { maxRequests, windowMs, sliding } = config;
     const now = Date.now();
-
-    let entry = this.store.get(key);
-
-    if (!entry || entry.resetTime < now) {
-      // Create new window
-      entry = {
-        count: 1,
-        resetTime: now + this.config.windowMs,
-      };
-      this.store.set(key, entry);
-      return {
-        allowed: true,
-        status: {
-          remaining: this.config.maxRequests - 1,
-          resetAt: entry.resetTime,
-          limit: this.config.maxRequests,
-        },
-      };
+    const windowStart = now - (now % windowMs);
+    this.cleanupExpired(now);
+
+    let entry = this.windows.get(key);
+    if (!entry || entry.windowStart !== windowStart) {
+      const previous = entry?.windowStart === windowStart - windowMs ? entry.count : 0;
+      entry = { windowStart, count: 0, previous, expiresAt: windowStart + 2 * windowMs };
+      this.windows.set(key, entry);
     }
 
-    // Check if limit exceeded
-    if (entry.count >= this.config.maxRequests) {
-      return {
-        allowed: false,
-        status: {
-          remaining: 0,
-          resetAt: entry.resetTime,
-          limit: this.config.maxRequests,
-        },
-      };
+    const overlap = sliding ? 1 - (now - windowStart) / windowMs : 0;
+    const weighted = entry.previous * overlap + entry.count;
+    const resetAt = windowStart + windowMs;
+
+    if (weighted + 1 > maxRequests) {
+      return toResult(false, weighted, resetAt, maxRequests);
     }
 
-    // Increment counter
     entry.count += 1;
-    return {
-      allowed: true,
-      status: {
-        remaining: this.config.maxRequests - entry.count,
-        resetAt: entry.resetTime,
-        limit: this.config.maxRequests,
-      },
-    };
+    return toResult(true, weighted + 1, resetAt, maxRequests);
   }
 
-  reset(identifier: string): void {
-    this.store.delete(this.getKey(identifier));
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key);
   }
 
-  getStats(): { identifiers: number; entries: number } {
-    this.cleanupExpired();
-    return {
-      identifiers: this.store.size,
-      entries: this.store.size,
-    };
+  size(): number {
+    this.cleanupExpired(Date.now());
+    return this.windows.size;
   }
 }
 
-// ============================================================================
-// Shopify API Rate Limiter
-// ============================================================================
+/**
+ * Counts in rate_limit_counters, shared by every server instance
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres' as const;
 
-export class ShopifyRateLimiter extends RateLimiter {
-  // 2 calls per second per shop (Shopify REST API limit)
-  constructor() {
-    super({ maxRequests: 2, windowMs: 1000 });
+  async hit(key: string, config: Required<RateLimitConfig>): Promise<RateLimitResult> {
+    const { allowed, count, resetAt } = await hitRateLimit(key, config.maxRequests, config.windowMs, config.sliding);
+    return toResult(allowed, count, resetAt, config.maxRequests);
   }
 
-  async executeWithLimit(
-    shopId: string,
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    fn: () => Promise<any>
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  ): Promise<any> {
-    const { allowed, status } = this.isAllowed(shopId);
-
-    if (!allowed) {
-      const retryAfter = Math.ceil((status.resetAt - Date.now()) / 1000);
-      console.warn(`Shopify API rate limit hit for shop ${shopId}. Retry after ${retryAfter}s`);
-      throw new RateLimitError(`Shopify API rate limit exceeded. Retry after ${retryAfter}s`);
-    }
-
-    return fn();
+  async reset(key: string): Promise<void> {
+    await resetRateLimit(key);
   }
+}
 
-  // Monitor X-Shopify-Shop-Api-Call-Limit header
-  updateFromHeader(shopId: string, limitHeader: string): RateLimitStatus | null {
-    try {
-      const [used, total] = limitHeader.split('/').map(Number);
-      const threshold = total * 0.8; // Alert at 80% usage
-
-      if (used >= threshold) {
-        console.warn(`Shopify API approaching limit for shop ${shopId}: ${used}/${total}`);
-      }
+const postgresStore = new PostgresRateLimitStore();
 
-      // Return current status
-      return {
-        remaining: total - used,
-        resetAt: Date.now() + 1000,
-        limit: total,
-      };
-    } catch {
-      return null;
-    }
-  }
+/**
+ * The shared store whenever Supabase is configured, unless
+ * RATE_LIMIT_PERSIST=false; per-instance counts don't limit anything on
+ * serverless, so memory is only the fallback
+ */
+function defaultSharedStore(): RateLimitStore | null {
+  if (process.env.RATE_LIMIT_PERSIST === 'false') return null;
+  return process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY ? postgresStore : null;
 }
 
 // ============================================================================
-// Vapi Call Rate Limiter
+// Base Rate Limiter Class
 // ============================================================================
 
-export class VapiRateLimiter extends RateLimiter {
-  // Track calls per shop per hour
-  private hourlyStore: Map<
-    string,
-    {
-      count: number;
-      resetTime: number;
-      totalCostCents: number;
-    }
-  > = new Map();
-
+class RateLimiter {
+  private config: Required<RateLimitConfig>;
+  private memory = new MemoryRateLimitStore();
+  private fallbacks = 0;
+
+  /**
+   * @param name - Prefix for this limiter's keys in a shared store
+   * @param store - Where to count; defaults to Postgres when Supabase is
+   *   configured and RATE_LIMIT_PERSIST isn't false, otherwise memory
+   */
   constructor(
-    private costAlertThreshold: number = 10000 // $100 in cents
+    config: RateLimitConfig,
+    private name: string,
+    private store?: RateLimitStore
   ) {
-    super({ maxRequests: 100, windowMs: 60 * 60 * 1000 });
+    this.config = { sliding: true, ...config };
   }
 
-  recordCall(
-    shopId: string,
-    _durationSeconds: number,
-    costCents: number
-  ): {
-    allowed: boolean;
-    callsRemaining: number;
-    estimatedCost: number;
-  } {
-    const { allowed, status } = this.isAllowed(shopId);
-    const key = `vapi:${shopId}`;
-    const now = Date.now();
+  private getKey(identifier: string): string {
+    return `${this.name}:${identifier}`;
+  }
 
-    let entry = this.hourlyStore.get(key);
-    if (!entry || entry.resetTime < now) {
-      entry = {
-        count: 1,
-        resetTime: now + 60 * 60 * 1000,
-        totalCostCents: costCents,
-      };
-    } else {
-      entry.count += 1;
-      entry.totalCostCents += costCents;
-
-      // Alert on cost threshold
-      if (
-        entry.totalCostCents >= this.costAlertThreshold &&
-        entry.totalCostCents - costCents < this.costAlertThreshold
-      ) {
-        console.warn(
-          `Vapi cost alert for shop ${shopId}: $${(entry.totalCostCents / 100).toFixed(2)} in current hour`
-        );
+  private getStore(): RateLimitStore {
+    return this.store ?? defaultSharedStore() ?? this.memory;
+  }
+
+  /**
+   * Count a request and say whether it's within the limit
+   * If the shared store is unreachable the request is counted in memory
+   * instead, so limits degrade to per-instance rather than off.
+   */
+  async isAllowed(identifier: string): Promise<RateLimitResult> {
+    const key = this.getKey(identifier);
+    const store = this.getStore();
+
+    if (store !== this.memory) {
+      try {
+        return await store.hit(key, this.config);
+      } catch (error) {
+        this.fallbacks++;
+        logError(error, { context: 'rate_limiter', limiter: this.name, store: store.name });
       }
     }
 
-    this.hourlyStore.set(key, entry);
+    return this.memory.hit(key, this.config);
+  }
+
+  async reset(identifier: string): Promise<void> {
+    const key = this.getKey(identifier);
+    await this.memory.reset(key);
 
+    const store = this.getStore();
+    if (store !== this.memory) await store.reset(key);
+  }
+
+  /**
+   * Keys counted in this instance's memory; with a shared store that's only
+   * those counted during fallbacks
+   */
+  getStats(): RateLimiterStats {
+    const entries = this.memory.size();
     return {
-      allowed,
-      callsRemaining: status.remaining,
-      estimatedCost: entry.totalCostCents,
+      identifiers: entries,
+      entries,
+      store: this.getStore().name,
+      fallbacks: this.fallbacks,
     };
   }
 }
 
+// ============================================================================
+// Vapi Call Rate Limiter
+// ============================================================================
+
+export class VapiRateLimiter extends RateLimiter {
+  // 100 calls per shop per hour; spend is tracked in Postgres (see spend.ts)
+  constructor(store?: RateLimitStore) {
+    super({ maxRequests: 100, windowMs: 60 * 60 * 1000 }, 'vapi', store);
+  }
+
+  async recordCall(shopId: string): Promise<{ allowed: boolean; callsRemaining: number }> {
+    const { allowed, status } = await this.isAllowed(shopId);
+    return { allowed, callsRemaining: status.remaining };
+  }
+}
+
 // ============================================================================
 // Webhook Rate Limiter
 // ============================================================================
 
 export class WebhookRateLimiter extends RateLimiter {
   // Max 100 webhooks per shop per minute
-  constructor() {
-    super({ maxRequests: 100, windowMs: 60 * 1000 });
+  constructor(store?: RateLimitStore) {
+    super({ maxRequests: 100, windowMs: 60 * 1000 }, 'webhook', store);
   }
 
-  checkLimit(shopId: string): RateLimitStatus {
-    const { allowed, status } = this.isAllowed(shopId);
+  async checkLimit(shopId: string): Promise<RateLimitResult> {
+    const result = await this.isAllowed(shopId);
 
-    if (!allowed) {
+    if (!result.allowed) {
       console.warn(`Webhook rate limit hit for shop ${shopId}`);
     }
 
-    return status;
+    return result;
   }
 }
 
@@ -241,12 +259,12 @@ export class WebhookRateLimiter extends RateLimiter {
 export class AuthRateLimiter extends RateLimiter {
   // Max 50 OAuth attempts per IP per hour (increased for development testing)
   // Production uses strict 5 attempts per hour
-  constructor() {
+  constructor(store?: RateLimitStore) {
     const maxRequests = process.env.NODE_ENV === 'development' ? 50 : 5;
-    super({ maxRequests, windowMs: 60 * 60 * 1000 });
+    super({ maxRequests, windowMs: 60 * 60 * 1000 }, 'auth', store);
   }
 
-  checkAuthAttempt(ipAddress: string): { allowed: boolean; status: RateLimitStatus } {
+  async checkAuthAttempt(ipAddress: string): Promise<RateLimitResult> {
     // Bypass rate limiting completely in development
     if (process.env.NODE_ENV === 'development') {
       return {
@@ -258,7 +276,7 @@ export class AuthRateLimiter extends RateLimiter {
         },
       };
     }
-    return this.isAllowed(`auth:${ipAddress}`);
+    return this.isAllowed(ipAddress);
   }
 }
 
@@ -266,7 +284,6 @@ export class AuthRateLimiter extends RateLimiter {
 // Global Limiter Instances
 // ============================================================================
 
-export const shopifyLimiter = new ShopifyRateLimiter();
 export const vapiLimiter = new VapiRateLimiter();
 export const webhookLimiter = new WebhookRateLimiter();
 export const authLimiter = new AuthRateLimiter();
@@ -290,15 +307,13 @@ export function getRateLimitHeaders(status: RateLimitStatus): Record<string, str
 // ============================================================================
 
 export interface RateLimitMetrics {
-  shopify: { identifiers: number; entries: number };
-  vapi: { identifiers: number; entries: number };
-  webhook: { identifiers: number; entries: number };
-  auth: { identifiers: number; entries: number };
+  vapi: RateLimiterStats;
+  webhook: RateLimiterStats;
+  auth: RateLimiterStats;
 }
 
 export function getMetrics(): RateLimitMetrics {
   return {
-    shopify: shopifyLimiter.getStats(),
     vapi: vapiLimiter.getStats(),
     webhook: webhookLimiter.getStats(),
     auth: authLimiter.getStats(),
@@ -0,0 +1,126 @@
+import { getAssistantConfig, requestAssistantSync, syncAssistant } from './assistant-sync';
+import {
+  getPersonaVersion,
+  getPersonaVersions,
+  publishPersonaVersion,
+  savePersonaDraft,
+  type PersonaVersion,
+  type Shop,
+} from './supabase/db';
+import { compilePrompt, parsePersona, type CompiledPrompt } from './vapi/prompt';
+import type { ReceptionistPersona } from './validations';
+import { NotFoundError, ValidationError } from './utils/errors';
+
+/**
+ * Receptionist Persona
+ *
+ * Merchants describe how their receptionist should sound and what it should
+ * know (greeting, tone, store policies, FAQs, forbidden topics). Every save
+ * goes to the shop's draft in receptionist_persona_versions; publishing
+ * archives the previously published version and re-syncs the assistant
+ * (assistant-sync.ts), which compiles the persona into its prompt
+ * (vapi/prompt.ts).
+ */
+
+export interface PersonaVersionSummary {
+  version: number;
+  status: PersonaVersion['status'];
+  published_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PersonaOverview {
+  /** What the editor shows: the draft, else the published version, else defaults */
+  persona: ReceptionistPersona;
+  draft: PersonaVersionSummary | null;
+  published: PersonaVersionSummary | null;
+  versions: PersonaVersionSummary[];
+}
+
+export interface PublishResult {
+  published: PersonaVersionSummary;
+  prompt: CompiledPrompt;
+  /**
+   * The assistant is taking messages only (quota or spend pause); the new
+   * prompt goes live when it's restored
+   */
+  deferred: boolean;
+}
+
+function summarize(version: PersonaVersion): PersonaVersionSummary {
+  return {
+    version: version.version,
+    status: version.status,
+    published_at: version.published_at,
+    created_at: version.created_at,
+    updated_at: version.updated_at,
+  };
+}
+
+export async function getPersonaOverview(shop: Shop): Promise<PersonaOverview> {
+  const versions = await getPersonaVersions(shop.id);
+  const draft = versions.find(v => v.status === 'draft') ?? null;
+  const published = versions.find(v => v.status === 'published') ?? null;
+
+  return {
+    persona: parsePersona((draft ?? published)?.persona),
+    draft: draft && summarize(draft),
+    published: published && summarize(published),
+    versions: versions.map(summarize),
+  };
+}
+
+/**
+ * Save the merchant's edits as the shop's draft
+ */
+export async function savePersona(shop: Shop, persona: ReceptionistPersona): Promise<PersonaOverview> {
+  await savePersonaDraft(shop.id, persona);
+  return getPersonaOverview(shop);
+}
+
+/**
+ * The prompt a persona compiles to for this shop, without publishing it
+ * Defaults to the persona the editor shows.
+ */
+export async function previewPersona(shop: Shop, persona?: ReceptionistPersona): Promise<CompiledPrompt> {
+  const target = persona ?? (await getPersonaOverview(shop)).persona;
+  return compilePrompt(await getAssistantConfig(shop, target));
+}
+
+/**
+ * Publish the draft, or a given version (rolling back to an archived one),
+ * and sync the shop's assistant with it
+ *
+ * While the assistant is in voicemail-only mode the prompt replaces the one
+ * saved for restoring, so it goes live when full answers resume. If the
+ * assistant can't be updated the version stays published and the sync is
+ * retried by the sweep.
+ */
+export async function publishPersona(shop: Shop, version?: number): Promise<PublishResult> {
+  const target = await getPersonaVersion(
+    shop.id,
+    version !== undefined ? { version } : { status: 'draft' }
+  );
+  if (!target) {
+    throw version !== undefined
+      ? new NotFoundError(`Persona version ${version} not found`)
+      : new ValidationError('There are no unpublished changes');
+  }
+
+  if (!shop.vapi_assistant_id) {
+    throw new ValidationError('Set up your receptionist before publishing a persona');
+  }
+
+  const prompt = compilePrompt(await getAssistantConfig(shop, parsePersona(target.persona)));
+  const published = await publishPersonaVersion(shop.id, target.id, prompt);
+  console.log(`[Persona] ${shop.shop_domain} published persona version ${published.version}`);
+
+  try {
+    const sync = await syncAssistant(shop);
+    return { published: summarize(published), prompt, deferred: sync.deferred };
+  } catch (error) {
+    await requestAssistantSync(shop.id, 'persona_published');
+    throw error;
+  }
+}
@@ -0,0 +1,191 @@
+import {
+  createAuditLog,
+  deleteShop,
+  deleteShopSessions,
+  getShopByDomain,
+  getUninstalledShops,
+  updateShop,
+  type Shop,
+} from './supabase/db';
+import { deleteVapiAssistant, releasePhoneNumber } from './vapi';
+import { logError } from './utils/errors';
+
+/**
+ * Days shop data is kept after uninstall before it is purged
+ * Reinstalling within the window keeps call history.
+ */
+export const UNINSTALL_RETENTION_DAYS = 30;
+
+export type CleanupStep = 'vapi_phone_number' | 'vapi_assistant' | 'sessions';
+
+/**
+ * Cleanup steps in the order they run
+ * The phone number goes first so callers stop reaching the assistant.
+ */
+const CLEANUP_STEPS: Array<{ step: CleanupStep; run: (shop: Shop) => Promise<void> }> = [
+  {
+    step: 'vapi_phone_number',
+    run: async shop => {
+      if (!shop.vapi_phone_number_id) return;
+      await releasePhoneNumber(shop.vapi_phone_number_id);
+      await updateShop(shop.id, { vapi_phone_number_id: null, phone_number: null });
+    },
+  },
+  {
+    step: 'vapi_assistant',
+    run: async shop => {
+      if (!shop.vapi_assistant_id) return;
+      await deleteVapiAssistant(shop.vapi_assistant_id);
+      await updateShop(shop.id, { vapi_assistant_id: null });
+    },
+  },
+  {
+    step: 'sessions',
+    run: shop => deleteShopSessions(shop.shop_domain),
+  },
+];
+
+export interface CleanupResult {
+  completed: CleanupStep[];
+  failed: CleanupStep[];
+  /** The shop row after this run */
+  shop: Shop;
+}
+
+/**
+ * Write an audit entry without letting an audit failure stop the cleanup
+ */
+async function audit(shop: Shop, event: string, details: Record<string, unknown> = {}): Promise<void> {
+  try {
+    await createAuditLog(event, { shopDomain: shop.shop_domain, shopId: shop.id, details });
+  } catch (error) {
+    logError(error, { context: 'uninstall_audit', event, shopDomain: shop.shop_domain });
+  }
+}
+
+/**
+ * Run the cleanup steps that haven't succeeded yet
+ *
+ * Every step runs even if an earlier one fails; successful steps are stored
+ * in shops.cleanup_state so the next run only retries what's left.
+ */
+export async function runUninstallCleanup(shop: Shop): Promise<CleanupResult> {
+  const state = { ...shop.cleanup_state };
+  const completed: CleanupStep[] = [];
+  const failed: CleanupStep[] = [];
+  const errors: string[] = [];
+
+  for (const { step, run } of CLEANUP_STEPS) {
+    if (state[step]) continue;
+
+    try {
+      await run(shop);
+      state[step] = new Date().toISOString();
+      completed.push(step);
+    } catch (error) {
+      failed.push(step);
+      errors.push(`${step}: ${error instanceof Error ? error.message : String(error)}`);
+      logError(error, { context: 'uninstall_cleanup', step, shopDomain: shop.shop_domain });
+    }
+  }
+
+  const updated = await updateShop(shop.id, {
+    cleanup_state: state,
+    cleanup_error: errors.length > 0 ? errors.join('; ') : null,
+  });
+
+  if (completed.length > 0 || failed.length > 0) {
+    await audit(shop, failed.length > 0 ? 'uninstall.cleanup_failed' : 'uninstall.cleanup_completed', {
+      completed,
+      failed,
+      ...(errors.length > 0 && { errors }),
+    });
+  }
+
+  return { completed, failed, shop: updated };
+}
+
+export function isCleanupComplete(shop: Shop): boolean {
+  return CLEANUP_STEPS.every(({ step }) => !!shop.cleanup_state[step]);
+}
+
+/**
+ * Handle app/uninstalled for a shop
+ *
+ * Marks the shop uninstalled (starting the retention window), then releases
+ * its Vapi resources and sessions. Safe to call again for the same shop: an
+ * earlier uninstall keeps its timestamps and only unfinished steps rerun.
+ */
+export async function uninstallShop(shopDomain: string): Promise<CleanupResult | null> {
+  const shop = await getShopByDomain(shopDomain);
+  if (!shop) {
+    console.warn(`[Uninstall] No shop record for ${shopDomain}`);
+    return null;
+  }
+
+  let current = shop;
+  if (!shop.uninstalled_at) {
+    const now = new Date();
+    current = await updateShop(shop.id, {
+      uninstalled_at: now.toISOString(),
+      purge_after: new Date(now.getTime() + UNINSTALL_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      subscription_status: 'cancelled',
+    });
+    await audit(current, 'uninstall.received', {
+      purge_after: current.purge_after,
+      vapi_assistant_id: shop.vapi_assistant_id,
+      vapi_phone_number_id: shop.vapi_phone_number_id,
+    });
+  }
+
+  return runUninstallCleanup(current);
+}
+
+/**
+ * Delete an uninstalled shop's data once its retention window has passed
+ * Waits for the cleanup steps so no Vapi resource is orphaned by the purge.
+ */
+export async function purgeShopIfDue(shop: Shop, now = new Date()): Promise<boolean> {
+  if (!shop.uninstalled_at || !shop.purge_after) return false;
+  if (new Date(shop.purge_after).getTime() > now.getTime()) return false;
+  if (!isCleanupComplete(shop)) return false;
+
+  await deleteShop(shop.id);
+  await audit(shop, 'uninstall.purged', { uninstalled_at: shop.uninstalled_at });
+  console.log(`[Uninstall] Purged data for ${shop.shop_domain}`);
+  return true;
+}
+
+/**
+ * Scheduled sweep: retry unfinished cleanups and purge expired shops
+ */
+export async function processUninstalledShops(
+  options: { limit?: number } = {}
+): Promise<{ cleaned: number; failed: number; purged: number }> {
+  const shops = await getUninstalledShops(options.limit);
+  const totals = { cleaned: 0, failed: 0, purged: 0 };
+
+  for (const shop of shops) {
+    try {
+      let current = shop;
+
+      if (!isCleanupComplete(shop)) {
+        const result = await runUninstallCleanup(shop);
+        if (result.failed.length > 0) {
+          totals.failed++;
+          continue;
+        }
+        totals.cleaned++;
+        current = result.shop;
+      }
+
+      if (await purgeShopIfDue(current)) totals.purged++;
+    } catch (error) {
+      totals.failed++;
+      logError(error, { context: 'process_uninstalled_shop', shopDomain: shop.shop_domain });
+    }
+  }
+
+  return totals;
+}
+
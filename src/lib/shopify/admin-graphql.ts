@@ -1,3 +1,5 @@
+import { requestShopifyGraphQL } from './graphql-throttle';
+
 /**
  * Shopify Admin GraphQL utility with explicit credentials
  * 
@@ -11,6 +13,7 @@ export interface GraphQLResponse<T> {
     message: string;
     locations?: Array<{ line: number; column: number }>;
     path?: string[];
+    extensions?: { code?: string };
   }>;
   extensions?: {
     cost: {
@@ -25,16 +28,22 @@ export interface GraphQLResponse<T> {
   };
 }
 
+export interface MoneyV2 {
+  amount: string;
+  currencyCode: string;
+}
+
 export interface ProductNode {
   id: string;
   title: string;
   handle: string;
   availableForSale: boolean;
   priceRange: {
-    minVariantPrice: {
-      amount: string;
-      currencyCode: string;
-    };
+    minVariantPrice: MoneyV2;
+  };
+  /** Shopify Markets price for the requested country, when one was given */
+  contextualPricing?: {
+    minVariantPricing: { price: MoneyV2 } | null;
   };
   variants: {
     edges: Array<{
@@ -42,10 +51,8 @@ export interface ProductNode {
         id: string;
         title: string;
         availableForSale: boolean;
-        price: {
-          amount: string;
-          currencyCode: string;
-        };
+        price: MoneyV2;
+        contextualPricing?: { price: MoneyV2 };
       };
     }>;
   };
@@ -82,33 +89,9 @@ export async function adminGraphQL<T>(params: {
     throw new Error('No access token provided for GraphQL request');
   }
 
-  const url = `https://${shopDomain}/admin/api/2024-10/graphql.json`;
-  
   try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Shopify-Access-Token': accessToken,
-      },
-      body: JSON.stringify({
-        query,
-        variables,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[adminGraphQL] GraphQL request failed:', {
-        status: response.status,
-        statusText: response.statusText,
-        shopDomain,
-        errorBody: errorText
-      });
-      throw new Error(`GraphQL request failed: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-
-    const result: GraphQLResponse<T> = await response.json();
+    // Waits for and retries on the shop's query cost limit (graphql-throttle.ts)
+    const result = await requestShopifyGraphQL<T>({ shopDomain, accessToken, query, variables });
 
     // Check for GraphQL errors
     if (result.errors && result.errors.length > 0) {
@@ -116,18 +99,6 @@ export async function adminGraphQL<T>(params: {
       throw new Error(`GraphQL errors: ${result.errors.map(e => e.message).join(', ')}`);
     }
 
-    // Check rate limiting
-    if (result.extensions?.cost) {
-      const { throttleStatus } = result.extensions.cost;
-      if (throttleStatus.currentlyAvailable < 10) {
-        console.warn('[adminGraphQL] Rate limit warning:', {
-          currentlyAvailable: throttleStatus.currentlyAvailable,
-          maximumAvailable: throttleStatus.maximumAvailable,
-          restoreRate: throttleStatus.restoreRate
-        });
-      }
-    }
-
     return result.data as T;
   } catch (error) {
     console.error('[adminGraphQL] Request failed:', error);
@@ -135,6 +106,21 @@ export async function adminGraphQL<T>(params: {
   }
 }
 
+/**
+ * Shopify Markets prices for $country, selected when a caller names a country
+ */
+const PRODUCT_CONTEXTUAL_PRICING = `
+  contextualPricing(context: { country: $country }) {
+    minVariantPricing { price { amount currencyCode } }
+  }
+`;
+
+const VARIANT_CONTEXTUAL_PRICING = `
+  contextualPricing(context: { country: $country }) {
+    price { amount currencyCode }
+  }
+`;
+
 /**
  * Get products with efficient field selection using explicit credentials
  */
@@ -142,11 +128,13 @@ export async function getProducts(params: {
   shopDomain: string;
   accessToken: string;
   limit?: number;
+  /** ISO country code to include that market's prices for */
+  country?: string;
 }): Promise<ProductNode[]> {
-  const { shopDomain, accessToken, limit = 5 } = params;
+  const { shopDomain, accessToken, limit = 5, country } = params;
 
   const query = `
-    query getProducts($first: Int!) {
+    query getProducts($first: Int!${country ? ', $country: CountryCode!' : ''}) {
       products(first: $first) {
         edges {
           node {
@@ -160,6 +148,7 @@ export async function getProducts(params: {
                 currencyCode
               }
             }
+            ${country ? PRODUCT_CONTEXTUAL_PRICING : ''}
             variants(first: 10) {
               edges {
                 node {
@@ -170,6 +159,7 @@ export async function getProducts(params: {
                     amount
                     currencyCode
                   }
+                  ${country ? VARIANT_CONTEXTUAL_PRICING : ''}
                 }
               }
             }
@@ -183,7 +173,7 @@ export async function getProducts(params: {
     shopDomain,
     accessToken,
     query,
-    variables: { first: limit }
+    variables: { first: limit, ...(country && { country }) }
   });
   
   if (!result) {
@@ -201,11 +191,13 @@ export async function searchProducts(params: {
   accessToken: string;
   query: string;
   limit?: number;
+  /** ISO country code to include that market's prices for */
+  country?: string;
 }): Promise<ProductNode[]> {
-  const { shopDomain, accessToken, query: searchQuery, limit = 5 } = params;
+  const { shopDomain, accessToken, query: searchQuery, limit = 5, country } = params;
 
   const graphqlQuery = `
-    query searchProducts($query: String!, $first: Int!) {
+    query searchProducts($query: String!, $first: Int!${country ? ', $country: CountryCode!' : ''}) {
       products(first: $first, query: $query) {
         edges {
           node {
@@ -219,6 +211,7 @@ export async function searchProducts(params: {
                 currencyCode
               }
             }
+            ${country ? PRODUCT_CONTEXTUAL_PRICING : ''}
             variants(first: 10) {
               edges {
                 node {
@@ -229,6 +222,7 @@ export async function searchProducts(params: {
                     amount
                     currencyCode
                   }
+                  ${country ? VARIANT_CONTEXTUAL_PRICING : ''}
                 }
               }
             }
@@ -244,7 +238,8 @@ export async function searchProducts(params: {
     query: graphqlQuery,
     variables: { 
       query: searchQuery, 
-      first: limit 
+      first: limit,
+      ...(country && { country }),
     }
   });
   
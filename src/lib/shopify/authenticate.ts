@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { shopify } from './client';
+import { normalizeShopDomain } from '../normalize';
+import { AuthenticationError } from '../utils/errors';
+
+/**
+ * Admin context decoded from an App Bridge session token
+ */
+export interface AdminContext {
+  shop: string;
+  userId: string | null;
+}
+
+/**
+ * Authenticate an embedded admin request
+ *
+ * App Bridge v4 attaches `Authorization: Bearer <session token>` to fetch
+ * requests made from the embedded app. The token is a JWT signed with the
+ * app secret; decodeSessionToken verifies the signature, expiry and audience.
+ */
+export async function authenticateAdmin(request: NextRequest): Promise<AdminContext> {
+  const authHeader = request.headers.get('authorization');
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    throw new AuthenticationError('Session token required');
+  }
+
+  try {
+    const payload = await shopify.session.decodeSessionToken(authHeader.replace('Bearer ', ''));
+
+    return {
+      shop: normalizeShopDomain(payload.dest),
+      userId: payload.sub || null,
+    };
+  } catch (error) {
+    console.warn('[Auth] Session token validation failed:', (error as Error).message);
+    throw new AuthenticationError('Invalid session token');
+  }
+}
@@ -0,0 +1,277 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { RateLimitError } from '../utils/errors';
+import type { GraphQLResponse } from './admin-graphql';
+
+/**
+ * Shopify GraphQL Cost Throttle
+ *
+ * The Admin GraphQL API limits each shop by query cost rather than request
+ * count: a bucket of points (maximumAvailable) that refills at restoreRate
+ * points per second, with every query spending its cost. Each response
+ * reports the bucket in extensions.cost.throttleStatus.
+ *
+ * requestShopifyGraphQL keeps a per-shop copy of that bucket, waits before
+ * sending a query the bucket can't cover yet, and retries queries Shopify
+ * rejects as THROTTLED once enough points have been restored. A query's cost
+ * is remembered from its last response so the wait can be sized to it.
+ *
+ * Cost is also added up per tool call (trackQueryCost) for the function
+ * call log, to show which tools' queries are expensive.
+ */
+
+export interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+type QueryCostExtension = NonNullable<GraphQLResponse<unknown>['extensions']>['cost'];
+
+interface Bucket extends ThrottleStatus {
+  /** When currentlyAvailable was last reported or spent */
+  updatedAt: number;
+}
+
+export interface QueryCost {
+  queries: number;
+  requested: number;
+  actual: number;
+  /** THROTTLED responses that were retried */
+  throttled: number;
+}
+
+export interface GraphQLThrottleMetrics {
+  shops: number;
+  queries: number;
+  actualCost: number;
+  waits: number;
+  waitedMs: number;
+  throttled: number;
+  buckets: Record<string, ThrottleStatus>;
+}
+
+/**
+ * Cost assumed for a query before Shopify has reported it
+ */
+const DEFAULT_QUERY_COST = 50;
+
+/**
+ * Longest a request waits for points before giving up with a RateLimitError
+ * Callers with more time (product sync) catch it and try again later; callers
+ * with less (Vapi tools) set a shorter wait with withGraphQLMaxWait.
+ */
+const DEFAULT_MAX_WAIT_MS = 10_000;
+
+const MAX_THROTTLED_RETRIES = 3;
+
+const ADMIN_API_VERSION = '2024-10';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Operation name, or the query itself for anonymous operations
+ */
+function queryKey(query: string): string {
+  const match = query.match(/^\s*(?:query|mutation)\s+(\w+)/);
+  return match ? match[1] : query.trim();
+}
+
+class GraphQLCostThrottle {
+  private buckets = new Map<string, Bucket>();
+  private queryCosts = new Map<string, number>();
+  private totals = { queries: 0, actualCost: 0, waits: 0, waitedMs: 0, throttled: 0 };
+
+  /**
+   * Points the shop has now, counting restores since the last report
+   * Null until Shopify has reported the shop's bucket.
+   */
+  private available(shopDomain: string, now = Date.now()): number | null {
+    const bucket = this.buckets.get(shopDomain);
+    if (!bucket) return null;
+
+    const restored = ((now - bucket.updatedAt) / 1000) * bucket.restoreRate;
+    return Math.min(bucket.maximumAvailable, bucket.currentlyAvailable + restored);
+  }
+
+  estimateCost(query: string): number {
+    return this.queryCosts.get(queryKey(query)) ?? DEFAULT_QUERY_COST;
+  }
+
+  /**
+   * Wait until the shop's bucket can cover a query, then spend its estimated
+   * cost so concurrent requests don't all count the same points
+   */
+  async acquire(shopDomain: string, query: string, maxWaitMs: number): Promise<void> {
+    const bucket = this.buckets.get(shopDomain);
+    const available = this.available(shopDomain);
+    if (!bucket || available === null) return;
+
+    const cost = Math.min(this.estimateCost(query), bucket.maximumAvailable);
+    const waitMs = available >= cost ? 0 : Math.ceil(((cost - available) / bucket.restoreRate) * 1000);
+
+    if (waitMs > maxWaitMs) {
+      throw new RateLimitError(
+        `Shopify GraphQL cost limit reached for ${shopDomain}. Retry after ${Math.ceil(waitMs / 1000)}s`
+      );
+    }
+
+    const now = Date.now();
+    this.buckets.set(shopDomain, { ...bucket, currentlyAvailable: available - cost, updatedAt: now });
+
+    if (waitMs > 0) {
+      this.totals.waits++;
+      this.totals.waitedMs += waitMs;
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Take the bucket and the query's cost from a response
+   */
+  record(shopDomain: string, query: string, cost: QueryCostExtension): void {
+    this.buckets.set(shopDomain, { ...cost.throttleStatus, updatedAt: Date.now() });
+    this.queryCosts.set(queryKey(query), cost.requestedQueryCost);
+
+    if (typeof cost.actualQueryCost === 'number') {
+      this.totals.queries++;
+      this.totals.actualCost += cost.actualQueryCost;
+    }
+  }
+
+  /**
+   * How long until a throttled query's requested cost has been restored
+   */
+  throttledDelay(shopDomain: string, requestedCost: number): number {
+    this.totals.throttled++;
+    const bucket = this.buckets.get(shopDomain);
+    const available = this.available(shopDomain) ?? 0;
+    const restoreRate = bucket?.restoreRate || DEFAULT_QUERY_COST;
+    return Math.max(1000, Math.ceil(((requestedCost - available) / restoreRate) * 1000));
+  }
+
+  getMetrics(): GraphQLThrottleMetrics {
+    const now = Date.now();
+    const buckets: Record<string, ThrottleStatus> = {};
+
+    this.buckets.forEach((bucket, shopDomain) => {
+      buckets[shopDomain] = {
+        maximumAvailable: bucket.maximumAvailable,
+        currentlyAvailable: Math.round(this.available(shopDomain, now) ?? 0),
+        restoreRate: bucket.restoreRate,
+      };
+    });
+
+    return { shops: this.buckets.size, ...this.totals, buckets };
+  }
+}
+
+export const graphqlThrottle = new GraphQLCostThrottle();
+
+export function getGraphQLThrottleMetrics(): GraphQLThrottleMetrics {
+  return graphqlThrottle.getMetrics();
+}
+
+// ============================================================================
+// Cost Tracking
+// ============================================================================
+
+const costTracking = new AsyncLocalStorage<QueryCost>();
+
+export function emptyQueryCost(): QueryCost {
+  return { queries: 0, requested: 0, actual: 0, throttled: 0 };
+}
+
+/**
+ * Run fn, adding the cost of every Shopify GraphQL query it makes to cost
+ */
+export function trackQueryCost<T>(cost: QueryCost, fn: () => Promise<T>): Promise<T> {
+  return costTracking.run(cost, fn);
+}
+
+const maxWaitScope = new AsyncLocalStorage<number>();
+
+/**
+ * Run fn with every Shopify GraphQL query it makes waiting at most maxWaitMs
+ * in total for points, unless the query sets its own
+ */
+export function withGraphQLMaxWait<T>(maxWaitMs: number, fn: () => Promise<T>): Promise<T> {
+  return maxWaitScope.run(maxWaitMs, fn);
+}
+
+// ============================================================================
+// Requests
+// ============================================================================
+
+function isThrottled<T>(result: GraphQLResponse<T>): boolean {
+  return (result.errors ?? []).some(error => error.extensions?.code === 'THROTTLED');
+}
+
+/**
+ * POST a query to a shop's Admin GraphQL API within its cost limit
+ *
+ * Returns the full response, GraphQL errors included, except that THROTTLED
+ * responses are retried and throw a RateLimitError once retries run out.
+ * maxWaitMs bounds the total time spent waiting for points and retries.
+ * Throws on HTTP errors other than 429.
+ */
+export async function requestShopifyGraphQL<T>(params: {
+  shopDomain: string;
+  accessToken: string;
+  query: string;
+  variables?: Record<string, unknown>;
+  maxWaitMs?: number;
+}): Promise<GraphQLResponse<T>> {
+  const { shopDomain, accessToken, query, variables = {} } = params;
+  const maxWaitMs = params.maxWaitMs ?? maxWaitScope.getStore() ?? DEFAULT_MAX_WAIT_MS;
+  const waitDeadline = Date.now() + maxWaitMs;
+  const tracked = costTracking.getStore();
+
+  for (let attempt = 0; ; attempt++) {
+    await graphqlThrottle.acquire(shopDomain, query, Math.max(0, waitDeadline - Date.now()));
+
+    const response = await fetch(`https://${shopDomain}/admin/api/${ADMIN_API_VERSION}/graphql.json`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Shopify-Access-Token': accessToken,
+      },
+      body: JSON.stringify({ query, variables }),
+    });
+
+    let delayMs: number;
+
+    if (response.status === 429) {
+      delayMs = Math.max(1, Number(response.headers.get('Retry-After')) || 1) * 1000;
+    } else if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`GraphQL request failed: ${response.status} ${response.statusText} - ${errorText}`);
+    } else {
+      const result = (await response.json()) as GraphQLResponse<T>;
+      const cost = result.extensions?.cost;
+
+      if (cost) {
+        graphqlThrottle.record(shopDomain, query, cost);
+        if (tracked) {
+          tracked.queries++;
+          tracked.requested += cost.requestedQueryCost;
+          tracked.actual += cost.actualQueryCost ?? 0;
+        }
+      }
+
+      if (!isThrottled(result)) return result;
+      delayMs = graphqlThrottle.throttledDelay(shopDomain, cost?.requestedQueryCost ?? graphqlThrottle.estimateCost(query));
+      if (tracked) tracked.throttled++;
+    }
+
+    if (attempt >= MAX_THROTTLED_RETRIES || Date.now() + delayMs > waitDeadline) {
+      throw new RateLimitError(
+        `Shopify GraphQL request throttled for ${shopDomain}. Retry after ${Math.ceil(delayMs / 1000)}s`
+      );
+    }
+
+    console.warn('[graphqlThrottle] Throttled, retrying:', { shopDomain, attempt: attempt + 1, delayMs });
+    await sleep(delayMs);
+  }
+}
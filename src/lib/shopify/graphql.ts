@@ -1,3 +1,5 @@
+import { requestShopifyGraphQL } from './graphql-throttle';
+
 // Simple session interface for GraphQL client
 export interface GraphQLSession {
   shop: string;
@@ -10,7 +12,7 @@ export interface GraphQLSession {
  * Provides efficient GraphQL queries for Shopify Admin API with:
  * - Precise field selection for optimal performance
  * - Proper error handling for GraphQL responses
- * - Rate limiting and retry logic
+ * - Query cost throttling and THROTTLED retries (graphql-throttle.ts)
  * - Type-safe query building
  */
 
@@ -20,6 +22,7 @@ export interface GraphQLResponse<T> {
     message: string;
     locations?: Array<{ line: number; column: number }>;
     path?: string[];
+    extensions?: { code?: string };
   }>;
   extensions?: {
     cost: {
@@ -91,46 +94,20 @@ export async function executeGraphQL<T>(
     throw new Error('No access token available for GraphQL request');
   }
 
-  const url = `https://${shop}/admin/api/2024-10/graphql.json`;
-  
   try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Shopify-Access-Token': accessToken,
-      },
-      body: JSON.stringify({
-        query,
-        variables,
-      }),
+    const result: GraphQLResponse<T> = await requestShopifyGraphQL<T>({
+      shopDomain: shop,
+      accessToken,
+      query,
+      variables,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`GraphQL request failed: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-
-    const result: GraphQLResponse<T> = await response.json();
-
     // Check for GraphQL errors
     if (result.errors && result.errors.length > 0) {
       console.error('[GraphQL] Query errors:', result.errors);
       throw new Error(`GraphQL errors: ${result.errors.map(e => e.message).join(', ')}`);
     }
 
-    // Check rate limiting
-    if (result.extensions?.cost) {
-      const { throttleStatus } = result.extensions.cost;
-      if (throttleStatus.currentlyAvailable < 10) {
-        console.warn('[GraphQL] Rate limit warning:', {
-          currentlyAvailable: throttleStatus.currentlyAvailable,
-          maximumAvailable: throttleStatus.maximumAvailable,
-          restoreRate: throttleStatus.restoreRate
-        });
-      }
-    }
-
     return result;
   } catch (error) {
     console.error('[GraphQL] Request failed:', error);
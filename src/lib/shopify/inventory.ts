@@ -0,0 +1,400 @@
+import { adminGraphQL } from './admin-graphql';
+
+// ============================================================================
+// Shopify GraphQL Query for Availability
+// ============================================================================
+
+/**
+ * Products matching a spoken name, with every variant's options, inventory
+ * policy and stock per location (requires read_inventory and read_locations)
+ * Limits keep the query cost around 500 points.
+ */
+const PRODUCT_AVAILABILITY_QUERY = `
+  query productAvailability($query: String!) {
+    products(first: 3, query: $query) {
+      edges {
+        node {
+          id
+          title
+          status
+          variants(first: 30) {
+            edges {
+              node {
+                id
+                title
+                availableForSale
+                inventoryPolicy
+                inventoryQuantity
+                selectedOptions {
+                  name
+                  value
+                }
+                inventoryItem {
+                  tracked
+                  inventoryLevels(first: 5) {
+                    edges {
+                      node {
+                        location {
+                          name
+                        }
+                        quantities(names: ["available"]) {
+                          name
+                          quantity
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AvailabilityVariantNode {
+  id: string;
+  title: string;
+  availableForSale: boolean;
+  inventoryPolicy: 'DENY' | 'CONTINUE';
+  inventoryQuantity: number | null;
+  selectedOptions: Array<{ name: string; value: string }>;
+  inventoryItem: {
+    tracked: boolean;
+    inventoryLevels: {
+      edges: Array<{
+        node: {
+          location: { name: string };
+          quantities: Array<{ name: string; quantity: number }>;
+        };
+      }>;
+    };
+  } | null;
+}
+
+export interface AvailabilityProductNode {
+  id: string;
+  title: string;
+  status: string;
+  variants: { edges: Array<{ node: AvailabilityVariantNode }> };
+}
+
+interface ProductAvailabilityResponse {
+  products: { edges: Array<{ node: AvailabilityProductNode }> };
+}
+
+/**
+ * Option values the caller asked for
+ * Color and size are matched against options of that name when the product
+ * has one; other values may match any option.
+ */
+export interface RequestedOptions {
+  color?: string;
+  size?: string;
+  options?: string[];
+}
+
+export type VariantStockStatus = 'in_stock' | 'low_stock' | 'backorder' | 'out_of_stock';
+
+export interface VariantAvailability {
+  id: string;
+  title: string;
+  options: Record<string, string>;
+  status: VariantStockStatus;
+  /** null when Shopify doesn't track inventory for the variant */
+  quantity: number | null;
+  locations: Array<{ name: string; quantity: number }>;
+}
+
+/**
+ * At or below this many units a variant is reported as "only a few left"
+ */
+export const LOW_STOCK_THRESHOLD = 3;
+
+// ============================================================================
+// Option Matching
+// ============================================================================
+
+/**
+ * Spoken and abbreviated forms of apparel sizes, keyed by canonical size
+ */
+const SIZE_ALIASES: Record<string, string[]> = {
+  xxs: ['xxs', '2xs', 'extra extra small', 'double extra small'],
+  xs: ['xs', 'extra small', 'x small'],
+  s: ['s', 'sm', 'small'],
+  m: ['m', 'md', 'med', 'medium'],
+  l: ['l', 'lg', 'large'],
+  xl: ['xl', 'extra large', 'x large'],
+  xxl: ['xxl', '2xl', 'extra extra large', 'double extra large', 'xx large'],
+  xxxl: ['xxxl', '3xl', 'triple extra large', 'xxx large'],
+};
+
+function normalizeOptionValue(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9.]+/g, ' ').trim();
+}
+
+function canonicalSize(value: string): string | null {
+  const normalized = normalizeOptionValue(value).replace(/^size /, '');
+  const match = Object.entries(SIZE_ALIASES).find(([, aliases]) => aliases.includes(normalized));
+  return match ? match[0] : null;
+}
+
+/**
+ * Whether a spoken value names an option value
+ * Matches exact values, size aliases ("medium" and "M") and whole-word
+ * overlaps ("navy" and "Navy Blue").
+ */
+export function optionValueMatches(spoken: string, value: string): boolean {
+  const a = normalizeOptionValue(spoken);
+  const b = normalizeOptionValue(value);
+  if (!a || !b) return false;
+  if (a === b) return true;
+
+  const sizeA = canonicalSize(a);
+  if (sizeA && sizeA === canonicalSize(b)) return true;
+
+  const wordsA = a.split(' ');
+  const wordsB = b.split(' ');
+  return wordsA.every(word => wordsB.includes(word)) || wordsB.every(word => wordsA.includes(word));
+}
+
+const OPTION_NAMES: Record<'color' | 'size', string[]> = {
+  color: ['color', 'colour'],
+  size: ['size'],
+};
+
+interface OptionRequest {
+  spoken: string;
+  /** Option names this value must match, empty for any option */
+  optionNames: string[];
+}
+
+function toOptionRequests(requested: RequestedOptions, product: AvailabilityProductNode): OptionRequest[] {
+  const productOptions = new Set(
+    product.variants.edges.flatMap(edge => edge.node.selectedOptions.map(option => option.name.toLowerCase()))
+  );
+
+  const named = (kind: 'color' | 'size', spoken: string | undefined): OptionRequest[] => {
+    if (!spoken) return [];
+    const names = OPTION_NAMES[kind].filter(name => productOptions.has(name));
+    return [{ spoken, optionNames: names }];
+  };
+
+  return [
+    ...named('color', requested.color),
+    ...named('size', requested.size),
+    ...(requested.options ?? []).map(spoken => ({ spoken, optionNames: [] })),
+  ];
+}
+
+function variantSatisfies(variant: AvailabilityVariantNode, request: OptionRequest): boolean {
+  return variant.selectedOptions.some(
+    option =>
+      (request.optionNames.length === 0 || request.optionNames.includes(option.name.toLowerCase())) &&
+      optionValueMatches(request.spoken, option.value)
+  );
+}
+
+// ============================================================================
+// Stock
+// ============================================================================
+
+export function getVariantAvailability(variant: AvailabilityVariantNode): VariantAvailability {
+  const locations = (variant.inventoryItem?.inventoryLevels.edges ?? []).map(edge => ({
+    name: edge.node.location.name,
+    quantity: edge.node.quantities.find(quantity => quantity.name === 'available')?.quantity ?? 0,
+  }));
+  const tracked = variant.inventoryItem?.tracked ?? variant.inventoryQuantity !== null;
+  const quantity = !tracked
+    ? null
+    : locations.length > 0
+      ? locations.reduce((total, location) => total + location.quantity, 0)
+      : variant.inventoryQuantity ?? 0;
+
+  let status: VariantStockStatus;
+  if (quantity === null) {
+    status = variant.availableForSale ? 'in_stock' : 'out_of_stock';
+  } else if (quantity > LOW_STOCK_THRESHOLD) {
+    status = 'in_stock';
+  } else if (quantity > 0) {
+    status = 'low_stock';
+  } else {
+    // "Continue selling when out of stock" keeps the variant orderable
+    status = variant.inventoryPolicy === 'CONTINUE' ? 'backorder' : 'out_of_stock';
+  }
+
+  return {
+    id: variant.id,
+    title: variant.title,
+    options: Object.fromEntries(variant.selectedOptions.map(option => [option.name, option.value])),
+    status,
+    quantity,
+    locations: locations.filter(location => location.quantity > 0),
+  };
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+export interface ProductAvailability {
+  product: { id: string; title: string };
+  /** Requested values the product isn't offered in */
+  unmatched: string[];
+  /** Values offered for each option, e.g. { Color: ['Blue', 'Black'] } */
+  offered: Record<string, string[]>;
+  variants: VariantAvailability[];
+}
+
+/**
+ * Find the product a caller named and the variants matching the options they
+ * asked for. Returns null when no active product matches the name.
+ */
+export async function findProductAvailability(params: {
+  shopDomain: string;
+  accessToken: string;
+  product: string;
+  requested: RequestedOptions;
+}): Promise<ProductAvailability | null> {
+  const { shopDomain, accessToken, product: spokenProduct, requested } = params;
+
+  const result = await adminGraphQL<ProductAvailabilityResponse>({
+    shopDomain,
+    accessToken,
+    query: PRODUCT_AVAILABILITY_QUERY,
+    variables: { query: `${spokenProduct.replace(/["*:]/g, '')} status:active` },
+  });
+
+  if (!result) {
+    throw new Error('No data returned from product availability query');
+  }
+
+  const products = result.products.edges.map(edge => edge.node);
+  if (products.length === 0) return null;
+
+  // Prefer the product offered in everything the caller asked for
+  const candidates = products.map(product => {
+    const requests = toOptionRequests(requested, product);
+    const variants = product.variants.edges.map(edge => edge.node);
+    const unmatched = requests.filter(request => !variants.some(variant => variantSatisfies(variant, request)));
+    return { product, variants, requests, unmatched };
+  });
+  const best = candidates.find(candidate => candidate.unmatched.length === 0) ?? candidates[0];
+
+  const offered: Record<string, string[]> = {};
+  for (const variant of best.variants) {
+    for (const option of variant.selectedOptions) {
+      const values = (offered[option.name] ??= []);
+      if (!values.includes(option.value)) values.push(option.value);
+    }
+  }
+
+  const matchable = best.requests.filter(request => !best.unmatched.includes(request));
+  const matching = best.variants.filter(variant =>
+    matchable.every(request => variantSatisfies(variant, request))
+  );
+
+  return {
+    product: { id: best.product.id, title: best.product.title },
+    unmatched: best.unmatched.map(request => request.spoken),
+    offered,
+    variants: best.unmatched.length > 0 ? [] : matching.map(getVariantAvailability),
+  };
+}
+
+// ============================================================================
+// Voice Formatting
+// ============================================================================
+
+/**
+ * "a", "a and b", "a, b and c"
+ */
+function joinSpoken(items: string[]): string {
+  if (items.length <= 1) return items[0] ?? '';
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+/**
+ * Variant label without the values the caller already said, e.g. "Large"
+ * when they asked for the blue one
+ */
+function variantLabel(variant: VariantAvailability, requested: RequestedOptions): string {
+  const spoken = [requested.color, requested.size, ...(requested.options ?? [])].filter(
+    (value): value is string => !!value
+  );
+  const remaining = Object.values(variant.options).filter(
+    value => value !== 'Default Title' && !spoken.some(s => optionValueMatches(s, value))
+  );
+  return remaining.join(' ') || variant.title;
+}
+
+function describeLocations(variant: VariantAvailability): string {
+  if (variant.locations.length < 2) return '';
+  return ` It's available at ${joinSpoken(variant.locations.map(location => location.name))}.`;
+}
+
+/**
+ * Answer an availability question in sentences the assistant can read aloud
+ * Exact stock counts are only mentioned when few are left.
+ */
+export function formatAvailabilityForVoice(availability: ProductAvailability, requested: RequestedOptions): string {
+  const { product, unmatched, offered, variants } = availability;
+  const asked = [requested.color, requested.size, ...(requested.options ?? [])].filter(Boolean).join(' ');
+  const subject = asked ? `the ${product.title} in ${asked}` : `the ${product.title}`;
+
+  if (unmatched.length > 0) {
+    const alternatives = Object.entries(offered)
+      .filter(([name, values]) => name !== 'Title' && values.length > 1)
+      .map(([name, values]) => ` ${name} options are ${joinSpoken(values)}.`);
+    return `The ${product.title} doesn't come in ${joinSpoken(unmatched)}.${alternatives.join('')}`;
+  }
+
+  const orderable = variants.filter(variant => variant.status !== 'out_of_stock');
+
+  if (variants.length === 1) {
+    const [variant] = variants;
+    switch (variant.status) {
+      case 'in_stock':
+        return `Yes, ${subject} is in stock.${describeLocations(variant)}`;
+      case 'low_stock':
+        return `Yes, ${subject} is in stock, but there ${variant.quantity === 1 ? 'is only 1' : `are only ${variant.quantity}`} left.${describeLocations(variant)}`;
+      case 'backorder':
+        return `${capitalize(subject)} is out of stock right now, but it can still be ordered and will ship once it's restocked.`;
+      default:
+        return `Sorry, ${subject} is sold out right now.`;
+    }
+  }
+
+  if (orderable.length === 0) {
+    return `Sorry, ${subject} is sold out in every option right now.`;
+  }
+
+  const inStock = orderable.filter(variant => variant.status !== 'backorder');
+  const backorder = orderable.filter(variant => variant.status === 'backorder');
+  const soldOut = variants.filter(variant => variant.status === 'out_of_stock');
+  const sentences: string[] = [];
+
+  if (inStock.length > 0) {
+    sentences.push(`${capitalize(subject)} is in stock in ${joinSpoken(inStock.map(v => variantLabel(v, requested)))}.`);
+  }
+  if (backorder.length > 0) {
+    sentences.push(
+      `${capitalize(joinSpoken(backorder.map(v => variantLabel(v, requested))))} can be ordered now and will ship once restocked.`
+    );
+  }
+  if (soldOut.length > 0) {
+    sentences.push(`${capitalize(joinSpoken(soldOut.map(v => variantLabel(v, requested))))} is sold out.`);
+  }
+
+  return sentences.join(' ');
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
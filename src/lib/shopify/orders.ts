@@ -0,0 +1,295 @@
+import { adminGraphQL } from './admin-graphql';
+
+// ============================================================================
+// Shopify GraphQL Query for Orders
+// ============================================================================
+
+/**
+ * Find orders by name (e.g. "#1001") with the fields needed to verify the
+ * caller and describe fulfillment over the phone
+ */
+const FIND_ORDERS_QUERY = `
+  query findOrders($query: String!) {
+    orders(first: 5, query: $query, sortKey: CREATED_AT, reverse: true) {
+      edges {
+        node {
+          id
+          name
+          createdAt
+          cancelledAt
+          email
+          phone
+          displayFinancialStatus
+          displayFulfillmentStatus
+          customer {
+            firstName
+            email
+            phone
+          }
+          shippingAddress {
+            phone
+          }
+          billingAddress {
+            phone
+          }
+          lineItems(first: 5) {
+            edges {
+              node {
+                name
+                quantity
+              }
+            }
+          }
+          fulfillments(first: 5) {
+            displayStatus
+            createdAt
+            inTransitAt
+            deliveredAt
+            estimatedDeliveryAt
+            trackingInfo(first: 1) {
+              company
+              number
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OrderFulfillment {
+  displayStatus: string | null;
+  createdAt: string;
+  inTransitAt: string | null;
+  deliveredAt: string | null;
+  estimatedDeliveryAt: string | null;
+  trackingInfo: Array<{ company: string | null; number: string | null }>;
+}
+
+export interface OrderNode {
+  id: string;
+  name: string;
+  createdAt: string;
+  cancelledAt: string | null;
+  email: string | null;
+  phone: string | null;
+  displayFinancialStatus: string | null;
+  displayFulfillmentStatus: string;
+  customer: { firstName: string | null; email: string | null; phone: string | null } | null;
+  shippingAddress: { phone: string | null } | null;
+  billingAddress: { phone: string | null } | null;
+  lineItems: { edges: Array<{ node: { name: string; quantity: number } }> };
+  fulfillments: OrderFulfillment[];
+}
+
+interface FindOrdersResponse {
+  orders: { edges: Array<{ node: OrderNode }> };
+}
+
+export interface OrderVerification {
+  phone?: string | null;
+  email?: string | null;
+}
+
+// ============================================================================
+// Lookup & Verification
+// ============================================================================
+
+/**
+ * Normalize a spoken or typed order number into a Shopify order name
+ * "1001", "#1001" and "order 10-01" all become "#1001"; custom prefixes
+ * such as "AB-1001" are kept as-is.
+ */
+export function normalizeOrderName(input: string): string {
+  const cleaned = input.trim().replace(/^order\s*/i, '').replace(/\s/g, '');
+  const digits = cleaned.replace(/[#-]/g, '');
+  return /^\d+$/.test(digits) ? `#${digits}` : cleaned.toUpperCase();
+}
+
+function phoneDigits(phone: string | null | undefined): string {
+  return (phone || '').replace(/\D/g, '');
+}
+
+/**
+ * Compare phone numbers on their last 10 digits so "+1 (555) 123-4567"
+ * matches "5551234567"
+ */
+export function phonesMatch(a: string | null | undefined, b: string | null | undefined): boolean {
+  const left = phoneDigits(a).slice(-10);
+  const right = phoneDigits(b).slice(-10);
+  return left.length >= 7 && left === right;
+}
+
+/**
+ * Check the caller-supplied phone or email against every contact on the order
+ */
+export function verifyOrderContact(order: OrderNode, verification: OrderVerification): boolean {
+  const email = verification.email?.trim().toLowerCase();
+  if (email) {
+    const emails = [order.email, order.customer?.email].map(e => e?.trim().toLowerCase());
+    if (emails.includes(email)) return true;
+  }
+
+  if (verification.phone) {
+    const phones = [
+      order.phone,
+      order.customer?.phone,
+      order.shippingAddress?.phone,
+      order.billingAddress?.phone,
+    ];
+    if (phones.some(phone => phonesMatch(phone, verification.phone))) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Find an order by name and verify the caller owns it
+ * Returns null both when no order exists and when verification fails, so the
+ * assistant cannot be used to probe which order numbers exist.
+ */
+export async function findVerifiedOrder(params: {
+  shopDomain: string;
+  accessToken: string;
+  orderNumber: string;
+  verification: OrderVerification;
+}): Promise<OrderNode | null> {
+  const { shopDomain, accessToken, orderNumber, verification } = params;
+  const name = normalizeOrderName(orderNumber);
+
+  const result = await adminGraphQL<FindOrdersResponse>({
+    shopDomain,
+    accessToken,
+    query: FIND_ORDERS_QUERY,
+    variables: { query: `name:"${name.replace(/"/g, '')}"` },
+  });
+
+  if (!result) {
+    throw new Error('No data returned from orders query');
+  }
+
+  // Order search is prefix-based, so require an exact name match
+  const candidates = result.orders.edges
+    .map(edge => edge.node)
+    .filter(order => order.name.toUpperCase() === name.toUpperCase());
+
+  return candidates.find(order => verifyOrderContact(order, verification)) ?? null;
+}
+
+// ============================================================================
+// Voice Formatting
+// ============================================================================
+
+const FULFILLMENT_PHRASES: Record<string, string> = {
+  LABEL_PRINTED: 'is packed and waiting for the carrier',
+  LABEL_PURCHASED: 'is packed and waiting for the carrier',
+  CONFIRMED: 'has shipped',
+  FULFILLED: 'has shipped',
+  MARKED_AS_FULFILLED: 'has shipped',
+  SUBMITTED: 'has shipped',
+  IN_TRANSIT: 'is on its way',
+  OUT_FOR_DELIVERY: 'is out for delivery today',
+  ATTEMPTED_DELIVERY: 'had a delivery attempt, but it could not be delivered',
+  DELIVERED: 'was delivered',
+  READY_FOR_PICKUP: 'is ready for pickup',
+  PICKED_UP: 'was picked up',
+  FAILURE: 'ran into a delivery problem',
+  NOT_DELIVERED: 'ran into a delivery problem',
+};
+
+const ORDER_STATUS_PHRASES: Record<string, string> = {
+  UNFULFILLED: "hasn't shipped yet",
+  PENDING_FULFILLMENT: 'is being prepared for shipping',
+  IN_PROGRESS: 'is being prepared for shipping',
+  OPEN: 'is being prepared for shipping',
+  SCHEDULED: 'is scheduled to ship soon',
+  ON_HOLD: 'is on hold',
+  PARTIALLY_FULFILLED: 'has partially shipped',
+  FULFILLED: 'has shipped',
+  RESTOCKED: 'was returned and restocked',
+};
+
+function formatSpokenDate(iso: string, timeZone?: string): string {
+  const options: Intl.DateTimeFormatOptions = { weekday: 'long', month: 'long', day: 'numeric' };
+  try {
+    return new Date(iso).toLocaleDateString('en-US', { ...options, timeZone });
+  } catch {
+    // Unknown time zone - fall back to the server's
+    return new Date(iso).toLocaleDateString('en-US', options);
+  }
+}
+
+export interface VoiceOrderStatus {
+  orderName: string;
+  status: string;
+  fulfillmentStatus: string;
+  carrier: string | null;
+  trackingNumberLast4: string | null;
+  estimatedDelivery: string | null;
+  deliveredOn: string | null;
+  message: string;
+}
+
+/**
+ * Describe an order's fulfillment, tracking and delivery state in sentences
+ * the assistant can read aloud. Full tracking numbers are never spoken; the
+ * last four digits are enough for a caller to match their confirmation.
+ */
+export function formatOrderStatusForVoice(order: OrderNode, timeZone?: string): VoiceOrderStatus {
+  const latest = [...order.fulfillments]
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+  const tracking = latest?.trackingInfo[0];
+  const trackingNumberLast4 = tracking?.number ? tracking.number.slice(-4) : null;
+  const carrier = tracking?.company || null;
+
+  const sentences: string[] = [];
+  const placedOn = formatSpokenDate(order.createdAt, timeZone);
+  let status: string;
+
+  if (order.cancelledAt) {
+    status = 'cancelled';
+    sentences.push(`Order ${order.name}, placed on ${placedOn}, was cancelled.`);
+  } else if (latest?.displayStatus && FULFILLMENT_PHRASES[latest.displayStatus]) {
+    status = latest.displayStatus.toLowerCase();
+    let sentence = `Order ${order.name}, placed on ${placedOn}, ${FULFILLMENT_PHRASES[latest.displayStatus]}`;
+    if (latest.displayStatus === 'DELIVERED' && latest.deliveredAt) {
+      sentence += ` on ${formatSpokenDate(latest.deliveredAt, timeZone)}`;
+    }
+    sentences.push(`${sentence}.`);
+  } else {
+    status = order.displayFulfillmentStatus.toLowerCase();
+    const phrase = ORDER_STATUS_PHRASES[order.displayFulfillmentStatus] || 'is being processed';
+    sentences.push(`Order ${order.name}, placed on ${placedOn}, ${phrase}.`);
+  }
+
+  if (carrier && !order.cancelledAt) {
+    sentences.push(
+      trackingNumberLast4
+        ? `It's shipping with ${carrier}, tracking number ending in ${trackingNumberLast4}.`
+        : `It's shipping with ${carrier}.`
+    );
+  }
+
+  const estimatedDelivery =
+    latest?.estimatedDeliveryAt && !latest.deliveredAt
+      ? formatSpokenDate(latest.estimatedDeliveryAt, timeZone)
+      : null;
+  if (estimatedDelivery && !order.cancelledAt) {
+    sentences.push(`It's expected to arrive on ${estimatedDelivery}.`);
+  }
+
+  return {
+    orderName: order.name,
+    status,
+    fulfillmentStatus: order.displayFulfillmentStatus,
+    carrier,
+    trackingNumberLast4,
+    estimatedDelivery,
+    deliveredOn: latest?.deliveredAt ? formatSpokenDate(latest.deliveredAt, timeZone) : null,
+    message: sentences.join(' '),
+  };
+}
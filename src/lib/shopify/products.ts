@@ -1,44 +1,74 @@
 import { z } from 'zod';
-import { shopifyLimiter } from '../rate-limiter';
 import { logError } from '../utils/errors';
-import { ExternalServiceError, ValidationError } from '../utils/errors';
-import { upsertProduct, deleteProduct } from '../supabase/db';
+import { ExternalServiceError, RateLimitError, ValidationError } from '../utils/errors';
+import {
+  upsertProduct,
+  deleteProduct,
+  getOfflineAccessToken,
+  getProductByInventoryItemId,
+  getProductByShopifyId,
+  updateProduct,
+  type ProductInput,
+} from '../supabase/db';
+import { adminGraphQL } from './admin-graphql';
+import { requestShopifyGraphQL } from './graphql-throttle';
+import { toAmount } from '../pricing';
 
 // ============================================================================
 // Shopify GraphQL Query for Products
 // ============================================================================
 
+/**
+ * Product fields stored locally, shared by the paged and bulk queries
+ * Variants carry what handleInventoryLevelUpdate needs to match stock
+ * updates to a product.
+ */
+const PRODUCT_FIELDS = `
+  id
+  title
+  description
+  handle
+  vendor
+  productType
+  createdAt
+  updatedAt
+  featuredImage {
+    url
+  }
+`;
+
+const VARIANT_FIELDS = `
+  id
+  title
+  price
+  sku
+  inventoryQuantity
+  inventoryItem {
+    id
+  }
+`;
+
+/**
+ * Products per page and variants per product for paged syncs
+ * Keeps each page's query cost around 700 of the 1,000 point limit; products
+ * with more variants are complete in bulk syncs.
+ */
+export const PRODUCT_PAGE_SIZE = 25;
+const VARIANTS_PER_PRODUCT = 25;
+
 /**
  * GraphQL query to fetch products with cursor-based pagination
- * Fetches 250 products per request (Shopify max)
  */
 const GET_PRODUCTS_QUERY = `
   query GetProducts($first: Int!, $after: String, $query: String) {
     products(first: $first, after: $after, query: $query) {
       edges {
         node {
-          id
-          title
-          description
-          handle
-          vendor
-          productType
-          createdAt
-          updatedAt
-          images(first: 1) {
-            edges {
-              node {
-                url
-              }
-            }
-          }
-          variants(first: 1) {
+          ${PRODUCT_FIELDS}
+          variants(first: ${VARIANTS_PER_PRODUCT}) {
             edges {
               node {
-                id
-                title
-                price
-                sku
+                ${VARIANT_FIELDS}
               }
             }
           }
@@ -62,10 +92,8 @@ const ShopifyProductVariantSchema = z.object({
   title: z.string(),
   price: z.string().or(z.number()).nullable(),
   sku: z.string().nullable(),
-});
-
-const ShopifyProductImageSchema = z.object({
-  url: z.string().url(),
+  inventoryQuantity: z.number().int().nullable().optional(),
+  inventoryItem: z.object({ id: z.string() }).nullable().optional(),
 });
 
 const ShopifyProductSchema = z.object({
@@ -77,15 +105,7 @@ const ShopifyProductSchema = z.object({
   productType: z.string().nullable(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
-  images: z
-    .object({
-      edges: z.array(
-        z.object({
-          node: ShopifyProductImageSchema,
-        })
-      ),
-    })
-    .optional(),
+  featuredImage: z.object({ url: z.string().url() }).nullable().optional(),
   variants: z
     .object({
       edges: z.array(
@@ -97,7 +117,53 @@ const ShopifyProductSchema = z.object({
     .optional(),
 });
 
-type ShopifyProduct = z.infer<typeof ShopifyProductSchema>;
+export type ShopifyProduct = z.infer<typeof ShopifyProductSchema>;
+
+/**
+ * products/create and products/update webhooks deliver the REST Admin API
+ * product resource, not the GraphQL shape above
+ */
+const ShopifyRestVariantSchema = z.object({
+  id: z.union([z.number(), z.string()]),
+  title: z.string().nullable().optional(),
+  price: z.union([z.string(), z.number()]).nullable().optional(),
+  sku: z.string().nullable().optional(),
+  inventory_quantity: z.number().int().nullable().optional(),
+  inventory_item_id: z.union([z.number(), z.string()]).nullable().optional(),
+});
+
+const ShopifyRestProductSchema = z.object({
+  id: z.union([z.number(), z.string()]),
+  title: z.string(),
+  body_html: z.string().nullable().optional(),
+  handle: z.string(),
+  vendor: z.string().nullable().optional(),
+  product_type: z.string().nullable().optional(),
+  status: z.enum(['active', 'archived', 'draft']).optional(),
+  updated_at: z.string().datetime({ offset: true }),
+  variants: z.array(ShopifyRestVariantSchema).default([]),
+  image: z.object({ src: z.string().url() }).nullable().optional(),
+  images: z.array(z.object({ src: z.string().url() })).default([]),
+});
+
+const InventoryLevelPayloadSchema = z.object({
+  inventory_item_id: z.union([z.number(), z.string()]),
+  location_id: z.union([z.number(), z.string()]).optional(),
+  available: z.number().int().nullable().optional(),
+});
+
+/**
+ * Variant summary stored under products.variants.items
+ * Prices are amounts in the product's currency, like products.price.
+ */
+export interface StoredVariant {
+  id: string;
+  title: string | null;
+  price: number | null;
+  sku: string | null;
+  inventory_quantity: number;
+  inventory_item_id: string | null;
+}
 
 const ShopifyGraphQLResponseSchema = z.object({
   data: z.object({
@@ -124,7 +190,7 @@ const ShopifyGraphQLResponseSchema = z.object({
  * Extract Shopify product ID from GraphQL ID
  * GraphQL ID format: "gid://shopify/Product/1234567890"
  */
-function extractShopifyProductId(graphqlId: string): string {
+export function extractShopifyProductId(graphqlId: string): string {
   const match = graphqlId.match(/Product\/(\d+)/);
   return match ? match[1] : graphqlId;
 }
@@ -143,96 +209,66 @@ function sanitizeDescription(description: string | null): string | null {
 }
 
 /**
- * Fetch products from Shopify Admin API with cursor-based pagination
- * Handles rate limiting and exponential backoff
+ * Fetch one page of products from Shopify Admin API
+ * Waits for the shop's query cost limit and retries with backoff.
  */
-export async function fetchAllProducts(
+export async function fetchProductsPage(
   accessToken: string,
   shopDomain: string,
   options: {
-    maxProducts?: number;
+    after?: string | null;
     query?: string;
+    first?: number;
   } = {}
 ): Promise<{
   products: ShopifyProduct[];
-  totalFetched: number;
-  hasMore: boolean;
+  endCursor: string | null;
+  hasNextPage: boolean;
 }> {
-  const { maxProducts = Infinity, query = '' } = options;
-  const allProducts: ShopifyProduct[] = [];
-  let endCursor: string | null = null;
-  let hasNextPage = true;
-  const BATCH_SIZE = 250; // Shopify max per request
+  const { after = null, query = '', first = PRODUCT_PAGE_SIZE } = options;
 
   try {
-    while (hasNextPage && allProducts.length < maxProducts) {
-      // Check rate limit before making request
-      try {
-        await shopifyLimiter.executeWithLimit(shopDomain, async () => {
-          const response = await makeShopifyGraphQLRequest(
-            accessToken,
-            shopDomain,
-            GET_PRODUCTS_QUERY,
-            {
-              first: Math.min(BATCH_SIZE, maxProducts - allProducts.length),
-              after: endCursor,
-              query: query || undefined,
-            }
-          );
-
-          const validated = ShopifyGraphQLResponseSchema.parse(response);
-          const { edges, pageInfo } = validated.data.products;
-
-          // Extract and validate products
-          for (const edge of edges) {
-            try {
-              const product = ShopifyProductSchema.parse(edge.node);
-              allProducts.push(product);
-            } catch (err) {
-              logError(err, {
-                context: 'product_validation',
-                productId: edge.node.id,
-              });
-              // Continue with next product
-            }
-          }
+    const response = await makeShopifyGraphQLRequest(accessToken, shopDomain, GET_PRODUCTS_QUERY, {
+      first,
+      after,
+      query: query || undefined,
+    });
 
-          hasNextPage = pageInfo.hasNextPage;
-          endCursor = pageInfo.endCursor;
-        });
+    const validated = ShopifyGraphQLResponseSchema.parse(response);
+    const { edges, pageInfo } = validated.data.products;
+    const products: ShopifyProduct[] = [];
+
+    for (const edge of edges) {
+      try {
+        products.push(ShopifyProductSchema.parse(edge.node));
       } catch (err) {
-        if (err instanceof Error && err.message.includes('rate limit')) {
-          // Rate limit hit - stop here
-          logError(err, {
-            context: 'product_fetch_rate_limit',
-            productsFetched: allProducts.length,
-          });
-          break;
-        }
-        throw err;
+        logError(err, {
+          context: 'product_validation',
+          productId: edge.node.id,
+        });
+        // Continue with next product
       }
     }
 
-    return {
-      products: allProducts,
-      totalFetched: allProducts.length,
-      hasMore: hasNextPage,
-    };
+    return { products, endCursor: pageInfo.endCursor, hasNextPage: pageInfo.hasNextPage };
   } catch (error) {
+    // The caller decides whether to wait for the limit or stop here
+    if (error instanceof RateLimitError) throw error;
     logError(error, {
-      context: 'fetch_all_products',
+      context: 'fetch_products_page',
       shopDomain,
-      productsFetched: allProducts.length,
+      after,
     });
     throw new ExternalServiceError('Failed to fetch products from Shopify', 'shopify', {
       shopDomain,
-      productsFetched: allProducts.length,
     });
   }
 }
 
 /**
  * Make GraphQL request to Shopify Admin API with retry logic
+ * The query cost limit is handled by requestShopifyGraphQL; its
+ * RateLimitError is passed on rather than retried here.
  */
 async function makeShopifyGraphQLRequest(
   accessToken: string,
@@ -245,33 +281,16 @@ async function makeShopifyGraphQLRequest(
 
   for (let attempt = 0; attempt < retries; attempt++) {
     try {
-      const response = await fetch(`https://${shopDomain}/admin/api/2024-01/graphql.json`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Shopify-Access-Token': accessToken,
-        },
-        body: JSON.stringify({
-          query,
-          variables,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Shopify API returned ${response.status}: ${response.statusText}`);
-      }
-
-      const data = await response.json();
+      const data = await requestShopifyGraphQL({ shopDomain, accessToken, query, variables });
 
       // Check for GraphQL errors
-      if ((data as Record<string, unknown>).errors) {
-        throw new Error(
-          `GraphQL error: ${JSON.stringify((data as Record<string, unknown>).errors)}`
-        );
+      if (data.errors) {
+        throw new Error(`GraphQL error: ${JSON.stringify(data.errors)}`);
       }
 
       return data;
     } catch (error) {
+      if (error instanceof RateLimitError) throw error;
       lastError = error instanceof Error ? error : new Error(String(error));
 
       // Exponential backoff: 1s, 2s, 4s
@@ -286,127 +305,253 @@ async function makeShopifyGraphQLRequest(
 }
 
 /**
- * Sync all products for a shop from Shopify to Supabase
- * Handles pagination and large catalogs
+ * Local product row for a product from a paged or bulk sync
  */
-export async function syncProductsForShop(
-  shopId: string,
-  accessToken: string,
+export function toSyncedProduct(
+  product: ShopifyProduct,
   shopDomain: string,
-  onProgress?: (fetched: number, total: number) => void
-): Promise<{
-  synced: number;
-  deleted: number;
-  errors: number;
-}> {
-  let synced = 0;
-  const deleted = 0;
-  let errors = 0;
+  currency: string
+): ProductInput & { shopify_product_id: string } {
+  const items: StoredVariant[] = (product.variants?.edges ?? []).map(({ node: variant }) => ({
+    id: variant.id.replace(/^gid:\/\/shopify\/ProductVariant\//, ''),
+    title: variant.title,
+    price: toAmount(variant.price),
+    sku: variant.sku || null,
+    inventory_quantity: variant.inventoryQuantity ?? 0,
+    inventory_item_id: variant.inventoryItem?.id.replace(/^gid:\/\/shopify\/InventoryItem\//, '') ?? null,
+  }));
+
+  const prices = items.map(item => item.price).filter((price): price is number => price !== null);
+
+  return {
+    shopify_product_id: extractShopifyProductId(product.id),
+    title: product.title,
+    description: sanitizeDescription(product.description),
+    price: prices.length > 0 ? Math.min(...prices) : null,
+    currency,
+    inventory_quantity: items.reduce((total, item) => total + Math.max(0, item.inventory_quantity), 0),
+    image_url: product.featuredImage?.url || null,
+    product_url: `https://${shopDomain}/products/${product.handle}`,
+    variants: {
+      handle: product.handle,
+      vendor: product.vendor,
+      productType: product.productType,
+      items,
+    },
+    shopify_updated_at: product.updatedAt,
+  };
+}
 
-  try {
-    // Sync products from Shopify
-    const { products } = await fetchAllProducts(accessToken, shopDomain, {
-      maxProducts: 5000, // Reasonable limit for first sync
-    });
+/**
+ * Number of products matching a search query, e.g. "status:active"
+ */
+export async function countProducts(accessToken: string, shopDomain: string, query: string): Promise<number> {
+  const data = await adminGraphQL<{ productsCount: { count: number } | null }>({
+    shopDomain,
+    accessToken,
+    query: `query countProducts($query: String) { productsCount(query: $query) { count } }`,
+    variables: { query },
+  });
+
+  return data.productsCount?.count ?? 0;
+}
+
+// ============================================================================
+// Bulk Operations
+// ============================================================================
+
+export interface BulkOperation {
+  id: string;
+  status: 'CREATED' | 'RUNNING' | 'COMPLETED' | 'CANCELING' | 'CANCELED' | 'FAILED' | 'EXPIRED';
+  errorCode: string | null;
+  objectCount: string;
+  url: string | null;
+}
 
-    // Batch insert products into Supabase
-    const batchSize = 50; // Insert 50 at a time
-    for (let i = 0; i < products.length; i += batchSize) {
-      const batch = products.slice(i, i + batchSize);
-
-      for (const product of batch) {
-        try {
-          const shopifyId = extractShopifyProductId(product.id);
-          const imageUrl = product.images?.edges?.[0]?.node?.url || null;
-          const variantPrice = product.variants?.edges?.[0]?.node?.price || null;
-
-          // Convert price string to number if needed
-          const price = typeof variantPrice === 'string' ? parseFloat(variantPrice) : variantPrice;
-
-          await upsertProduct(shopId, shopifyId, {
-            title: product.title,
-            description: sanitizeDescription(product.description),
-            price: price ? Math.round(price * 100) : null, // Convert to cents
-            currency: 'USD',
-            inventory_quantity: 0, // Would fetch from inventory API separately
-            image_url: imageUrl,
-            product_url: `https://${shopDomain}/products/${product.handle}`,
-            variants: {
-              handle: product.handle,
-              vendor: product.vendor,
-              productType: product.productType,
-            },
-          });
-
-          synced++;
-          if (onProgress) {
-            onProgress(synced + deleted, products.length);
+/**
+ * Start a Shopify bulk export of every product matching a search query
+ * Shopify runs one bulk query per shop at a time.
+ */
+export async function startBulkProductExport(
+  accessToken: string,
+  shopDomain: string,
+  query: string
+): Promise<BulkOperation> {
+  const bulkQuery = `{
+    products(query: ${JSON.stringify(query)}) {
+      edges {
+        node {
+          ${PRODUCT_FIELDS}
+          variants {
+            edges {
+              node {
+                ${VARIANT_FIELDS}
+              }
+            }
           }
-        } catch (err) {
-          errors++;
-          logError(err, {
-            context: 'product_sync_upsert',
-            shopId,
-            productId: product.id,
-          });
         }
       }
     }
+  }`;
 
-    return {
-      synced,
-      deleted,
-      errors,
+  const data = await adminGraphQL<{
+    bulkOperationRunQuery: {
+      bulkOperation: BulkOperation | null;
+      userErrors: Array<{ field: string[] | null; message: string }>;
     };
-  } catch (error) {
-    logError(error, {
-      context: 'sync_products_for_shop',
-      shopId,
-      shopDomain,
-    });
-    throw new ExternalServiceError('Failed to sync products', 'shopify', {
-      shopId,
-      shopDomain,
-      synced,
-      errors,
-    });
+  }>({
+    shopDomain,
+    accessToken,
+    query: `
+      mutation runBulkProductExport($query: String!) {
+        bulkOperationRunQuery(query: $query) {
+          bulkOperation { id status errorCode objectCount url }
+          userErrors { field message }
+        }
+      }
+    `,
+    variables: { query: bulkQuery },
+  });
+
+  const { bulkOperation, userErrors } = data.bulkOperationRunQuery;
+  if (!bulkOperation || userErrors.length > 0) {
+    throw new ExternalServiceError(
+      `Bulk export failed to start: ${userErrors.map(e => e.message).join(', ')}`,
+      'shopify',
+      { shopDomain }
+    );
+  }
+
+  return bulkOperation;
+}
+
+export async function getBulkOperation(
+  accessToken: string,
+  shopDomain: string,
+  bulkOperationId: string
+): Promise<BulkOperation | null> {
+  const data = await adminGraphQL<{ node: BulkOperation | null }>({
+    shopDomain,
+    accessToken,
+    query: `
+      query bulkOperation($id: ID!) {
+        node(id: $id) {
+          ... on BulkOperation { id status errorCode objectCount url }
+        }
+      }
+    `,
+    variables: { id: bulkOperationId },
+  });
+
+  return data.node;
+}
+
+/**
+ * Download a finished bulk export and rebuild products from its JSONL
+ * Variants come on their own lines after their product, linked by
+ * __parentId; they're put back under product.variants.edges.
+ */
+export async function readBulkProductExport(url: string): Promise<ShopifyProduct[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new ExternalServiceError(`Bulk export download failed: ${response.status}`, 'shopify');
   }
+
+  const products: ShopifyProduct[] = [];
+  const byId = new Map<string, ShopifyProduct>();
+
+  for (const line of (await response.text()).split('\n')) {
+    if (!line.trim()) continue;
+    const record = JSON.parse(line) as Record<string, unknown>;
+
+    if (typeof record.__parentId === 'string') {
+      const parent = byId.get(record.__parentId);
+      const variant = ShopifyProductVariantSchema.safeParse(record);
+      if (parent && variant.success) parent.variants!.edges.push({ node: variant.data });
+      continue;
+    }
+
+    const product = ShopifyProductSchema.safeParse({ ...record, variants: { edges: [] } });
+    if (!product.success) {
+      logError(product.error, { context: 'bulk_product_validation', productId: record.id });
+      continue;
+    }
+    products.push(product.data);
+    byId.set(product.data.id, product.data);
+  }
+
+  return products;
+}
+
+function stripHtml(html: string | null | undefined): string | null {
+  if (!html) return null;
+  return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim() || null;
 }
 
 /**
- * Handle product creation from webhook
+ * Create or update a product from a products/create or products/update webhook
+ *
+ * Deliveries older than the stored version are ignored, and products that are
+ * no longer active (draft or archived) are removed so callers aren't offered
+ * them. Webhook prices are in the shop's currency. Returns what happened for
+ * logging.
  */
-export async function handleProductCreate(
+export async function handleProductUpsert(
   shopId: string,
   shopDomain: string,
-  shopifyProductData: Record<string, unknown>
-): Promise<void> {
-  try {
-    // Validate product data
-    const product = ShopifyProductSchema.parse(shopifyProductData);
-    const shopifyId = extractShopifyProductId(product.id);
-
-    await upsertProduct(shopId, shopifyId, {
-      title: product.title,
-      description: sanitizeDescription(product.description),
-      price: null,
-      currency: 'USD',
-      inventory_quantity: 0,
-      image_url: product.images?.edges?.[0]?.node?.url || null,
-      product_url: `https://${shopDomain}/products/${product.handle}`,
-      variants: {
-        handle: product.handle,
-        vendor: product.vendor,
-        productType: product.productType,
-      },
-    });
-  } catch (error) {
-    logError(error, {
-      context: 'handle_product_create',
-      shopId,
-    });
-    throw new ValidationError('Failed to handle product creation');
+  payload: Record<string, unknown>,
+  currency: string
+): Promise<'upserted' | 'removed' | 'stale'> {
+  const parsed = ShopifyRestProductSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid product webhook payload', parsed.error.flatten());
   }
+
+  const product = parsed.data;
+  const shopifyId = String(product.id);
+
+  const existing = await getProductByShopifyId(shopId, shopifyId);
+  if (
+    existing?.shopify_updated_at &&
+    new Date(existing.shopify_updated_at).getTime() > new Date(product.updated_at).getTime()
+  ) {
+    return 'stale';
+  }
+
+  if (product.status && product.status !== 'active') {
+    if (existing) await deleteProduct(shopId, shopifyId);
+    return 'removed';
+  }
+
+  const items: StoredVariant[] = product.variants.map(variant => ({
+    id: String(variant.id),
+    title: variant.title ?? null,
+    price: toAmount(variant.price),
+    sku: variant.sku || null,
+    inventory_quantity: variant.inventory_quantity ?? 0,
+    inventory_item_id: variant.inventory_item_id ? String(variant.inventory_item_id) : null,
+  }));
+
+  const prices = items.map(item => item.price).filter((price): price is number => price !== null);
+
+  await upsertProduct(shopId, shopifyId, {
+    title: product.title,
+    description: sanitizeDescription(stripHtml(product.body_html)),
+    price: prices.length > 0 ? Math.min(...prices) : null,
+    currency,
+    inventory_quantity: items.reduce((total, item) => total + Math.max(0, item.inventory_quantity), 0),
+    image_url: product.image?.src || product.images[0]?.src || null,
+    product_url: `https://${shopDomain}/products/${product.handle}`,
+    variants: {
+      handle: product.handle,
+      vendor: product.vendor ?? null,
+      productType: product.product_type ?? null,
+      items,
+    },
+    shopify_updated_at: product.updated_at,
+  });
+
+  return 'upserted';
 }
 
 /**
@@ -414,7 +559,7 @@ export async function handleProductCreate(
  */
 export async function handleProductDelete(shopId: string, shopifyProductId: string): Promise<void> {
   try {
-    await deleteProduct(shopifyProductId);
+    await deleteProduct(shopId, shopifyProductId);
   } catch (error) {
     logError(error, {
       context: 'handle_product_delete',
@@ -425,16 +570,62 @@ export async function handleProductDelete(shopId: string, shopifyProductId: stri
   }
 }
 
+const INVENTORY_ITEM_QUERY = `
+  query inventoryItemVariant($id: ID!) {
+    inventoryItem(id: $id) {
+      variant {
+        id
+        inventoryQuantity
+      }
+    }
+  }
+`;
+
 /**
- * Determine sync strategy based on product count
+ * Refresh a variant's stock from an inventory_levels/update webhook
+ *
+ * The webhook only carries one location's level, so the variant's total
+ * across locations is read back from the Admin API. Items we don't have
+ * locally (e.g. untracked products) are ignored.
  */
-export function determineSyncStrategy(estimatedCount: number): {
-  immediate: number;
-  deferred: boolean;
-} {
-  if (estimatedCount <= 500) {
-    return { immediate: estimatedCount, deferred: false };
+export async function handleInventoryLevelUpdate(
+  shopId: string,
+  shopDomain: string,
+  payload: Record<string, unknown>
+): Promise<boolean> {
+  const parsed = InventoryLevelPayloadSchema.safeParse(payload);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid inventory webhook payload', parsed.error.flatten());
   }
-  // For large catalogs: sync top 50 immediately, rest later
-  return { immediate: 50, deferred: true };
+
+  const inventoryItemId = String(parsed.data.inventory_item_id);
+  const product = await getProductByInventoryItemId(shopId, inventoryItemId);
+  if (!product) return false;
+
+  const accessToken = await getOfflineAccessToken(shopDomain);
+  if (!accessToken) {
+    throw new ExternalServiceError('No offline session for shop', 'shopify', { shopDomain });
+  }
+
+  const data = await adminGraphQL<{
+    inventoryItem: { variant: { id: string; inventoryQuantity: number | null } | null } | null;
+  }>({
+    shopDomain,
+    accessToken,
+    query: INVENTORY_ITEM_QUERY,
+    variables: { id: `gid://shopify/InventoryItem/${inventoryItemId}` },
+  });
+
+  const quantity = data.inventoryItem?.variant?.inventoryQuantity ?? parsed.data.available ?? 0;
+  const variants = product.variants || {};
+  const items = ((variants.items as StoredVariant[] | undefined) || []).map(item =>
+    item.inventory_item_id === inventoryItemId ? { ...item, inventory_quantity: quantity } : item
+  );
+
+  await updateProduct(product.id, {
+    inventory_quantity: items.reduce((total, item) => total + Math.max(0, item.inventory_quantity), 0),
+    variants: { ...variants, items },
+  });
+
+  return true;
 }
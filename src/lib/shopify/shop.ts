@@ -0,0 +1,53 @@
+import { adminGraphQL } from './admin-graphql';
+import { logError } from '../utils/errors';
+
+/**
+ * Currency and locale prices are quoted in for a shop (shops.currency,
+ * shops.locale)
+ */
+export interface ShopLocalization {
+  currency: string;
+  locale: string;
+}
+
+/**
+ * BCP 47 locale from a Shopify locale ("en", "fr-CA") and the shop's country
+ * A locale that already names a region keeps it.
+ */
+export function toShopLocale(shopifyLocale: string | null | undefined, countryCode: string | null | undefined): string {
+  const [language, region] = (shopifyLocale || 'en').split('-');
+  const country = region || countryCode;
+  return country ? `${language.toLowerCase()}-${country.toUpperCase()}` : language.toLowerCase();
+}
+
+/**
+ * Fetch the shop's store currency and primary locale from the Admin API
+ * The primary locale needs the read_locales scope; without it the locale is
+ * English in the shop's country.
+ */
+export async function fetchShopLocalization(accessToken: string, shopDomain: string): Promise<ShopLocalization> {
+  const data = await adminGraphQL<{
+    shop: { currencyCode: string; billingAddress: { countryCodeV2: string | null } | null };
+  }>({
+    shopDomain,
+    accessToken,
+    query: `query shopLocalization { shop { currencyCode billingAddress { countryCodeV2 } } }`,
+  });
+
+  let primaryLocale: string | null = null;
+  try {
+    const locales = await adminGraphQL<{ shopLocales: Array<{ locale: string; primary: boolean }> }>({
+      shopDomain,
+      accessToken,
+      query: `query shopLocales { shopLocales { locale primary } }`,
+    });
+    primaryLocale = locales.shopLocales.find(locale => locale.primary)?.locale ?? null;
+  } catch (error) {
+    logError(error, { context: 'fetchShopLocalization:locales', shopDomain });
+  }
+
+  return {
+    currency: data.shop.currencyCode,
+    locale: toShopLocale(primaryLocale, data.shop.billingAddress?.countryCodeV2),
+  };
+}
@@ -0,0 +1,411 @@
+import { getSpendPause, syncQuotaMode, type SpendPauseState } from './billing-guard';
+import { getPlanByName } from './billing/plans';
+import {
+  createAuditLog,
+  getShopById,
+  getShopDailySpend,
+  getSpendByPlan,
+  getSpendPausedShops,
+  recordCallSpend,
+  setShopSetting,
+  type CallSpend,
+  type Shop,
+} from './supabase/db';
+import { spendBudgetSchema, type SpendBudget } from './validations';
+import { logError } from './utils/errors';
+
+/**
+ * Vapi Spend
+ *
+ * What each shop's calls cost us in Vapi charges (calls.cost_cents, from the
+ * end-of-call report), rolled up per UTC day in shop_daily_spend, checked
+ * against budgets and compared with plan revenue.
+ *
+ * Budgets cover a UTC day or the shop's billing period. Merchants set their
+ * own under shops.settings.spend_budget; operators set one for every shop
+ * with VAPI_DAILY_BUDGET_CENTS and VAPI_MONTHLY_BUDGET_CENTS. Crossing a
+ * budget raises one alert (error log, audit_log and SPEND_ALERT_WEBHOOK_URL)
+ * and, when the budget auto-pauses, switches the assistant to voicemail-only
+ * until the budget's window resets (shops.settings.spend_pause).
+ */
+
+export type BudgetWindow = SpendPauseState['window'];
+export type BudgetSource = SpendPauseState['source'];
+
+export interface BudgetLimit {
+  window: BudgetWindow;
+  source: BudgetSource;
+  limitCents: number;
+  autoPause: boolean;
+}
+
+export interface SpendSummary {
+  today_cents: number;
+  period_cents: number;
+  /** UTC day the billing period started, YYYY-MM-DD */
+  period_start: string;
+  budget: SpendBudget;
+  paused: SpendPauseState | null;
+}
+
+export interface PlanMargin {
+  plan: string;
+  shops: number;
+  paying_shops: number;
+  calls: number;
+  cost_cents: number;
+  /** Subscription revenue for the window, prorated from monthly prices */
+  revenue_cents: number;
+  margin_cents: number;
+  /** Margin as a share of revenue; null without revenue */
+  margin_rate: number | null;
+}
+
+export interface SpendReport {
+  since: string;
+  days: number;
+  plans: PlanMargin[];
+  totals: Omit<PlanMargin, 'plan'>;
+}
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+export function getSpendBudget(settings: Record<string, unknown> | null | undefined): SpendBudget {
+  const parsed = spendBudgetSchema.safeParse(settings?.spend_budget ?? {});
+
+  if (!parsed.success) {
+    console.warn('[Spend] Invalid spend budget, budgets disabled:', parsed.error.issues);
+    return spendBudgetSchema.parse({});
+  }
+
+  return parsed.data;
+}
+
+function centsFromEnv(name: string): number | null {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : null;
+}
+
+/**
+ * The merchant's and the operator's budgets that apply to a shop
+ */
+export function getBudgetLimits(shop: Shop): BudgetLimit[] {
+  const budget = getSpendBudget(shop.settings);
+  const operatorAutoPause = process.env.VAPI_BUDGET_AUTO_PAUSE === 'true';
+
+  const limits: Array<BudgetLimit | null> = [
+    budget.daily_cents
+      ? { window: 'daily', source: 'merchant', limitCents: budget.daily_cents, autoPause: budget.auto_pause }
+      : null,
+    budget.monthly_cents
+      ? { window: 'monthly', source: 'merchant', limitCents: budget.monthly_cents, autoPause: budget.auto_pause }
+      : null,
+  ];
+
+  const operatorDaily = centsFromEnv('VAPI_DAILY_BUDGET_CENTS');
+  const operatorMonthly = centsFromEnv('VAPI_MONTHLY_BUDGET_CENTS');
+  if (operatorDaily) {
+    limits.push({ window: 'daily', source: 'operator', limitCents: operatorDaily, autoPause: operatorAutoPause });
+  }
+  if (operatorMonthly) {
+    limits.push({ window: 'monthly', source: 'operator', limitCents: operatorMonthly, autoPause: operatorAutoPause });
+  }
+
+  return limits.filter((limit): limit is BudgetLimit => limit !== null);
+}
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Start of the shop's current billing period; trials count from install
+ */
+function getPeriodStart(shop: Shop): Date {
+  return new Date(shop.billing_period_start ?? shop.installed_at);
+}
+
+/**
+ * When a budget window containing the given UTC day resets
+ */
+function getWindowEnd(window: BudgetWindow, day: string, shop: Shop): Date {
+  if (window === 'daily') {
+    const end = new Date(`${day}T00:00:00.000Z`);
+    end.setUTCDate(end.getUTCDate() + 1);
+    return end;
+  }
+
+  const end = getPeriodStart(shop);
+  do {
+    end.setUTCMonth(end.getUTCMonth() + 1);
+  } while (end.getTime() <= Date.now());
+  return end;
+}
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function describeBudget(limit: BudgetLimit): string {
+  return `${limit.source === 'operator' ? 'Operator' : 'Merchant'} ${limit.window} budget of ${formatCents(limit.limitCents)}`;
+}
+
+// ============================================================================
+// Alerts and Pausing
+// ============================================================================
+
+/**
+ * Report a crossed budget everywhere operators look
+ * Each channel is best-effort; one failing doesn't stop the others.
+ */
+async function sendSpendAlert(shop: Shop, limit: BudgetLimit, spentCents: number): Promise<void> {
+  const message = `${shop.shop_domain} has spent ${formatCents(spentCents)} on calls, reaching its ${describeBudget(limit)}`;
+
+  logError(new Error(message), {
+    type: 'vapi_spend_budget',
+    shopId: shop.id,
+    window: limit.window,
+    source: limit.source,
+    limitCents: limit.limitCents,
+    spentCents,
+  });
+
+  try {
+    await createAuditLog('spend_budget_reached', {
+      shopDomain: shop.shop_domain,
+      shopId: shop.id,
+      details: { window: limit.window, source: limit.source, limit_cents: limit.limitCents, spent_cents: spentCents },
+    });
+  } catch (error) {
+    logError(error, { context: 'sendSpendAlert:audit', shopDomain: shop.shop_domain });
+  }
+
+  const webhookUrl = process.env.SPEND_ALERT_WEBHOOK_URL;
+  if (!webhookUrl) return;
+
+  try {
+    // Slack-compatible incoming webhook payload
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: message }),
+    });
+    if (!response.ok) throw new Error(`Spend alert webhook returned ${response.status}`);
+  } catch (error) {
+    logError(error, { context: 'sendSpendAlert:webhook', shopDomain: shop.shop_domain });
+  }
+}
+
+/**
+ * Switch the assistant to voicemail-only until the budget's window resets
+ */
+async function pauseForBudget(shop: Shop, limit: BudgetLimit, day: string): Promise<Shop> {
+  const pause: SpendPauseState = {
+    since: new Date().toISOString(),
+    until: getWindowEnd(limit.window, day, shop).toISOString(),
+    reason: `${describeBudget(limit)} reached`,
+    window: limit.window,
+    source: limit.source,
+    limit_cents: limit.limitCents,
+  };
+
+  const updated = await setShopSetting(shop.id, 'spend_pause', pause);
+  await syncQuotaMode(updated);
+  console.warn(`[Spend] ${shop.shop_domain} paused until ${pause.until}: ${pause.reason}`);
+  return updated;
+}
+
+type WindowSpend = Pick<CallSpend, 'day' | 'dayCents' | 'periodCents'>;
+
+function spentInWindow(window: BudgetWindow, spend: WindowSpend): number {
+  return window === 'daily' ? spend.dayCents : spend.periodCents;
+}
+
+/**
+ * The exceeded auto-pausing budget that would keep the assistant paused
+ * longest, or null when none should pause it
+ */
+function getPausingLimit(shop: Shop, spend: WindowSpend): BudgetLimit | null {
+  const now = Date.now();
+  let pausing: { limit: BudgetLimit; until: number } | null = null;
+
+  for (const limit of getBudgetLimits(shop)) {
+    if (!limit.autoPause || spentInWindow(limit.window, spend) < limit.limitCents) continue;
+
+    // A late report for a past day doesn't pause today's calls
+    const until = getWindowEnd(limit.window, spend.day, shop).getTime();
+    if (until > now && (!pausing || until > pausing.until)) pausing = { limit, until };
+  }
+
+  return pausing?.limit ?? null;
+}
+
+/**
+ * Add an ended call's cost to its shop's spend and enforce budgets
+ * Alerts once per budget crossed, when the call takes spend from under the
+ * budget to at or over it. Never throws - spend tracking must not fail the
+ * Vapi webhook.
+ */
+export async function recordSpendForCall(callId: string): Promise<CallSpend | null> {
+  try {
+    const spend = await recordCallSpend(callId);
+    if (!spend) return null;
+
+    const shop = await getShopById(spend.shopId);
+    if (!shop) return spend;
+
+    const limits = getBudgetLimits(shop);
+
+    for (const limit of limits) {
+      const spent = spentInWindow(limit.window, spend);
+      if (spent >= limit.limitCents && spent - spend.centsAdded < limit.limitCents) {
+        await sendSpendAlert(shop, limit, spent);
+      }
+    }
+
+    const pausing = getPausingLimit(shop, spend);
+    if (pausing && !getSpendPause(shop.settings)) {
+      await pauseForBudget(shop, pausing, spend.day);
+    }
+
+    return spend;
+  } catch (error) {
+    logError(error, { context: 'recordSpendForCall', callId });
+    return null;
+  }
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+/**
+ * Today's and this billing period's spend against the shop's budget
+ */
+export async function getSpendSummary(shop: Shop): Promise<SpendSummary> {
+  const periodStart = utcDay(getPeriodStart(shop));
+  const today = utcDay(new Date());
+  const days = await getShopDailySpend(shop.id, periodStart < today ? periodStart : today);
+
+  return {
+    today_cents: days.find(day => day.day === today)?.cost_cents ?? 0,
+    period_cents: days.reduce((total, day) => total + day.cost_cents, 0),
+    period_start: periodStart,
+    budget: getSpendBudget(shop.settings),
+    paused: getSpendPause(shop.settings),
+  };
+}
+
+/**
+ * Bring a shop's spend pause in line with its budgets: pause when an
+ * auto-pausing budget is already exceeded (e.g. one just lowered below this
+ * period's spend), and lift the pause once none is - its window has reset,
+ * the budget was raised or removed, or auto-pause was turned off
+ */
+export async function reconcileSpendPause(shop: Shop): Promise<Shop> {
+  const summary = await getSpendSummary(shop);
+  const today = utcDay(new Date());
+  const pausing = getPausingLimit(shop, {
+    day: today,
+    dayCents: summary.today_cents,
+    periodCents: summary.period_cents,
+  });
+
+  if (pausing) {
+    return summary.paused ? shop : pauseForBudget(shop, pausing, today);
+  }
+
+  if (!shop.settings.spend_pause) return shop;
+
+  const updated = await setShopSetting(shop.id, 'spend_pause', undefined);
+  await syncQuotaMode(updated);
+  console.log(`[Spend] ${shop.shop_domain} spend pause lifted`);
+  return updated;
+}
+
+/**
+ * Lift spend pauses that no longer apply (see vercel.json crons)
+ */
+export async function resumeSpendPausedShops(): Promise<{ checked: number; resumed: number; failed: number }> {
+  const shops = await getSpendPausedShops();
+  const totals = { checked: shops.length, resumed: 0, failed: 0 };
+
+  for (const shop of shops) {
+    try {
+      const updated = await reconcileSpendPause(shop);
+      if (!updated.settings.spend_pause) totals.resumed++;
+    } catch (error) {
+      totals.failed++;
+      logError(error, { context: 'resumeSpendPausedShops', shopDomain: shop.shop_domain });
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Vapi spend against subscription revenue per plan over the last few days
+ * Trials are reported as their own plan. Revenue is each active shop's
+ * monthly plan price prorated to the window; usage charges for overage
+ * minutes aren't included.
+ */
+export async function getSpendReport(days = 30): Promise<SpendReport> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const rows = await getSpendByPlan(utcDay(since));
+  const byPlan = new Map<string, PlanMargin>();
+
+  for (const row of rows) {
+    const plan = row.subscription_status === 'trial' ? 'trial' : row.plan_name;
+    const paying = row.subscription_status === 'active' ? row.shops : 0;
+    const price = getPlanByName(row.plan_name)?.price ?? 0;
+    const current = byPlan.get(plan) ?? {
+      plan,
+      shops: 0,
+      paying_shops: 0,
+      calls: 0,
+      cost_cents: 0,
+      revenue_cents: 0,
+      margin_cents: 0,
+      margin_rate: null,
+    };
+
+    byPlan.set(plan, {
+      ...current,
+      shops: current.shops + row.shops,
+      paying_shops: current.paying_shops + paying,
+      calls: current.calls + row.calls,
+      cost_cents: current.cost_cents + row.cost_cents,
+      revenue_cents: current.revenue_cents + Math.round((paying * price * 100 * days) / 30),
+    });
+  }
+
+  const withMargin = <T extends { revenue_cents: number; cost_cents: number }>(row: T) => ({
+    ...row,
+    margin_cents: row.revenue_cents - row.cost_cents,
+    margin_rate:
+      row.revenue_cents > 0
+        ? Math.round(((row.revenue_cents - row.cost_cents) / row.revenue_cents) * 1000) / 1000
+        : null,
+  });
+
+  const plans = Array.from(byPlan.values())
+    .map(withMargin)
+    .sort((a, b) => b.revenue_cents - a.revenue_cents || b.cost_cents - a.cost_cents);
+
+  const totals = withMargin(
+    plans.reduce(
+      (sum, plan) => ({
+        shops: sum.shops + plan.shops,
+        paying_shops: sum.paying_shops + plan.paying_shops,
+        calls: sum.calls + plan.calls,
+        cost_cents: sum.cost_cents + plan.cost_cents,
+        revenue_cents: sum.revenue_cents + plan.revenue_cents,
+      }),
+      { shops: 0, paying_shops: 0, calls: 0, cost_cents: 0, revenue_cents: 0 }
+    )
+  );
+
+  return { since: since.toISOString(), days, plans, totals };
+}
@@ -12,17 +12,35 @@ export const ShopSchema = z.object({
   shop_name: z.string().nullable(),
   email: z.string().email().nullable(),
   timezone: z.string().default('UTC'),
+  currency: z.string().default('USD'),
+  locale: z.string().default('en-US'),
   phone_number: z.string().nullable(),
   vapi_assistant_id: z.string().nullable(),
   vapi_phone_number_id: z.string().nullable(),
+  vapi_server_secret_hash: z.string().nullable().default(null),
+  vapi_previous_server_secret_hash: z.string().nullable().default(null),
+  vapi_previous_server_secret_expires_at: z.string().datetime({ offset: true }).nullable().default(null),
+  vapi_server_secret_rotated_at: z.string().datetime({ offset: true }).nullable().default(null),
+  vapi_config_hash: z.string().nullable().default(null),
+  vapi_config_synced_at: z.string().datetime({ offset: true }).nullable().default(null),
+  vapi_sync_requested_at: z.string().datetime({ offset: true }).nullable().default(null),
+  vapi_sync_due_at: z.string().datetime({ offset: true }).nullable().default(null),
   settings: z.record(z.string(), z.unknown()).default({}),
   subscription_status: z.enum(['trial', 'active', 'cancelled', 'suspended']),
   plan_name: z.string(),
+  subscription_id: z.string().nullable().default(null),
+  subscription_line_item_id: z.string().nullable().default(null),
   call_minutes_used: z.number().int(),
   call_minutes_limit: z.number().int(),
-  installed_at: z.string().datetime(),
-  updated_at: z.string().datetime(),
-  created_at: z.string().datetime(),
+  billing_period_start: z.string().datetime({ offset: true }).nullable().default(null),
+  usage_alert_level: z.number().int().default(0),
+  uninstalled_at: z.string().datetime({ offset: true }).nullable().default(null),
+  purge_after: z.string().datetime({ offset: true }).nullable().default(null),
+  cleanup_state: z.record(z.string(), z.string()).default({}),
+  cleanup_error: z.string().nullable().default(null),
+  installed_at: z.string().datetime({ offset: true }),
+  updated_at: z.string().datetime({ offset: true }),
+  created_at: z.string().datetime({ offset: true }),
 });
 
 export type Shop = z.infer<typeof ShopSchema>;
@@ -41,13 +59,31 @@ export const CallSchema = z.object({
   sentiment: z.enum(['positive', 'neutral', 'negative']),
   resolution_status: z.enum(['resolved', 'escalated', 'abandoned']),
   tags: z.array(z.string()).nullable(),
-  started_at: z.string().datetime().nullable(),
-  ended_at: z.string().datetime().nullable(),
-  created_at: z.string().datetime(),
+  started_at: z.string().datetime({ offset: true }).nullable(),
+  ended_at: z.string().datetime({ offset: true }).nullable(),
+  processing_status: z.enum(['pending', 'processing', 'completed', 'failed']).default('pending'),
+  processing_attempts: z.number().int().default(0),
+  processing_error: z.string().nullable().default(null),
+  processing_started_at: z.string().datetime({ offset: true }).nullable().default(null),
+  processed_at: z.string().datetime({ offset: true }).nullable().default(null),
+  action_items: z.array(z.string()).default([]),
+  billed_minutes: z.number().int().nullable().default(null),
+  created_at: z.string().datetime({ offset: true }),
 });
 
 export type Call = z.infer<typeof CallSchema>;
 
+export const CallActionSchema = z.object({
+  id: z.string().uuid(),
+  call_id: z.string().uuid(),
+  action_type: z.enum(['order_lookup', 'product_search', 'transfer_attempt']),
+  action_data: z.record(z.string(), z.unknown()).nullable(),
+  success: z.boolean(),
+  created_at: z.string().datetime({ offset: true }),
+});
+
+export type CallAction = z.infer<typeof CallActionSchema>;
+
 export const ProductSchema = z.object({
   id: z.string().uuid(),
   shop_id: z.string().uuid(),
@@ -60,8 +96,11 @@ export const ProductSchema = z.object({
   image_url: z.string().nullable(),
   product_url: z.string().nullable(),
   variants: z.record(z.string(), z.unknown()).nullable(),
-  updated_at: z.string().datetime(),
-  created_at: z.string().datetime(),
+  shopify_updated_at: z.string().datetime({ offset: true }).nullable().default(null),
+  // Times callers asked about it; maintained by record_product_interest()
+  popularity: z.number().int().default(0),
+  updated_at: z.string().datetime({ offset: true }),
+  created_at: z.string().datetime({ offset: true }),
 });
 
 export type Product = z.infer<typeof ProductSchema>;
@@ -76,7 +115,7 @@ export type Product = z.infer<typeof ProductSchema>;
 export async function getShopByDomain(domain: string): Promise<Shop | null> {
   try {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { data, error } = await (supabase as any)
+    const { data, error } = await (supabaseAdmin as any)
       .from('shops')
       .select('*')
       .eq('shop_domain', domain)
@@ -99,6 +138,57 @@ export async function getShopByDomain(domain: string): Promise<Shop | null> {
   }
 }
 
+/**
+ * Get shop by ID
+ */
+export async function getShopById(shopId: string): Promise<Shop | null> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('shops')
+      .select('*')
+      .eq('id', shopId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return ShopSchema.parse(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse shop data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch shop', 'supabase', { shopId });
+  }
+}
+
+/**
+ * Get shop by its Vapi assistant ID
+ * Used by Vapi webhooks, which only identify the assistant
+ */
+export async function getShopByAssistantId(assistantId: string): Promise<Shop | null> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('shops')
+      .select('*')
+      .eq('vapi_assistant_id', assistantId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return ShopSchema.parse(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse shop data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch shop by assistant', 'supabase', {
+      assistantId,
+    });
+  }
+}
+
 /**
  * Create or update shop
  * Uses supabaseAdmin to bypass RLS for OAuth operations
@@ -144,6 +234,52 @@ export async function upsertShop(
   }
 }
 
+/**
+ * Offline Admin API token for a shop, from the sessions the Shopify library
+ * stores after OAuth
+ */
+export async function getOfflineAccessToken(shopDomain: string): Promise<string | null> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('shopify_sessions')
+      .select('access_token')
+      .eq('shop', shopDomain)
+      .eq('is_online', false)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.access_token || null;
+  } catch {
+    throw new ExternalServiceError('Failed to fetch offline session', 'supabase', { shopDomain });
+  }
+}
+
+export type ShopUpdate = Partial<Omit<Shop, 'id' | 'shop_domain' | 'created_at'>>;
+
+/**
+ * Update shop columns by ID
+ */
+export async function updateShop(shopId: string, fields: ShopUpdate): Promise<Shop> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('shops')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', shopId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return ShopSchema.parse(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse shop data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to update shop', 'supabase', { shopId });
+  }
+}
+
 /**
  * Update shop settings
  */
@@ -153,7 +289,7 @@ export async function updateShopSettings(
 ): Promise<Shop> {
   try {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { data, error } = await (supabase as any)
+    const { data, error } = await (supabaseAdmin as any)
       .from('shops')
       .update({ settings })
       .eq('id', shopId)
@@ -170,6 +306,36 @@ export async function updateShopSettings(
   }
 }
 
+/**
+ * Set one key of shops.settings, or a nested path like ['quota_mode', 'saved'],
+ * leaving the rest as stored; undefined removes it (see set_shop_setting in
+ * database/023_shop_settings_keys.sql)
+ */
+export async function setShopSetting(
+  shopId: string,
+  path: string | string[],
+  value: unknown
+): Promise<Shop> {
+  const keys = Array.isArray(path) ? path : [path];
+
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any).rpc('set_shop_setting', {
+      p_shop_id: shopId,
+      p_path: keys,
+      p_value: value === undefined ? null : value,
+    });
+
+    if (error) throw error;
+    return ShopSchema.parse(Array.isArray(data) ? data[0] : data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse shop data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to update shop setting', 'supabase', { shopId, key: keys.join('.') });
+  }
+}
+
 // ============================================================================
 // Call Operations
 // ============================================================================
@@ -198,54 +364,80 @@ export async function createCall(callData: Omit<Call, 'id' | 'created_at'>): Pro
   }
 }
 
+export type CallUpdate = Partial<Omit<Call, 'id' | 'shop_id' | 'vapi_call_id' | 'created_at'>>;
+
 /**
- * Get calls for a shop with pagination
+ * Get a call by its Vapi call ID
  */
-export async function getShopCalls(
-  shopId: string,
-  limit = 20,
-  offset = 0
-): Promise<{ calls: Call[]; total: number }> {
+export async function getCallByVapiId(vapiCallId: string): Promise<Call | null> {
   try {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { data, error, count } = await (supabase as any)
+    const { data, error } = await (supabaseAdmin as any)
       .from('calls')
-      .select('*', { count: 'exact' })
-      .eq('shop_id', shopId)
-      .order('started_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+      .select('*')
+      .eq('vapi_call_id', vapiCallId)
+      .maybeSingle();
 
     if (error) throw error;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const calls = (data || []).map((call: any) => CallSchema.parse(call));
-    return { calls, total: count || 0 };
+    if (!data) return null;
+
+    return CallSchema.parse(data);
   } catch (err) {
     if (err instanceof z.ZodError) {
       throw new ValidationError('Failed to parse call data', err.flatten());
     }
-    throw new ExternalServiceError('Failed to fetch calls', 'supabase', { shopId });
+    throw new ExternalServiceError('Failed to fetch call', 'supabase', { vapiCallId });
   }
 }
 
 /**
- * Update call status and summary
+ * Create or update a call keyed on vapi_call_id
+ * Webhook events arrive out of order and carry partial data, so only the
+ * provided fields are written and existing values are never cleared.
+ * started_at stays null until an event reports it; the call list falls back
+ * to created_at meanwhile (database/024_call_list_order.sql).
  */
-export async function updateCallSummary(
-  callId: string,
-  summary: string,
-  sentiment: 'positive' | 'neutral' | 'negative',
-  resolutionStatus: 'resolved' | 'escalated' | 'abandoned'
+export async function upsertCallByVapiId(
+  shopId: string,
+  vapiCallId: string,
+  fields: CallUpdate
 ): Promise<Call> {
+  const updates = Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined && value !== null)
+  );
+
   try {
+    const existing = await getCallByVapiId(vapiCallId);
+
+    if (existing && Object.keys(updates).length === 0) {
+      return existing;
+    }
+
+    if (!existing) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabaseAdmin as any)
+        .from('calls')
+        .insert([
+          {
+            customer_phone: 'unknown',
+            ...updates,
+            shop_id: shopId,
+            vapi_call_id: vapiCallId,
+          },
+        ])
+        .select()
+        .single();
+
+      // A concurrent event inserted the row first - fall through to update
+      if (!error) return CallSchema.parse(data);
+      if (error.code !== '23505') throw error;
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { data, error } = await (supabase as any)
+    const { data, error } = await (supabaseAdmin as any)
       .from('calls')
-      .update({
-        summary,
-        sentiment,
-        resolution_status: resolutionStatus,
-      })
-      .eq('id', callId)
+      .update(updates)
+      .eq('vapi_call_id', vapiCallId)
       .select()
       .single();
 
@@ -255,116 +447,1722 @@ export async function updateCallSummary(
     if (err instanceof z.ZodError) {
       throw new ValidationError('Failed to parse call data', err.flatten());
     }
-    throw new ExternalServiceError('Failed to update call summary', 'supabase', { callId });
+    throw new ExternalServiceError('Failed to upsert call', 'supabase', { shopId, vapiCallId });
   }
 }
 
-// ============================================================================
-// Product Operations
-// ============================================================================
+export interface CallFilters {
+  from?: string;
+  to?: string;
+  sentiment?: Call['sentiment'];
+  resolutionStatus?: Call['resolution_status'];
+  tags?: string[];
+  /** Opaque keyset cursor from a previous page (takes precedence over offset) */
+  cursor?: string;
+}
 
 /**
- * Create or update product
+ * Cursors point at calls.listed_at (started_at, else created_at; see
+ * database/024_call_list_order.sql) so calls without a start time page too
  */
-export async function upsertProduct(
+function encodeCallCursor(call: Call): string {
+  return Buffer.from(`${call.started_at ?? call.created_at}|${call.id}`, 'utf8').toString('base64url');
+}
+
+const CallCursorSchema = z.object({
+  listedAt: z.string().datetime({ offset: true }),
+  id: z.string().uuid(),
+});
+
+/**
+ * Decode a cursor from encodeCallCursor
+ * Both parts are validated before they go into a PostgREST filter.
+ */
+function decodeCallCursor(cursor: string): { listedAt: string; id: string } {
+  const [listedAt, id, ...rest] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const parsed = CallCursorSchema.safeParse({ listedAt, id });
+  if (rest.length > 0 || !parsed.success) {
+    throw new ValidationError('Invalid pagination cursor');
+  }
+  return parsed.data;
+}
+
+/**
+ * Get calls for a shop with pagination and filters
+ * Ordered newest first by start time (creation time for calls not yet started);
+ * pass the returned nextCursor to fetch the following page.
+ */
+export async function getShopCalls(
   shopId: string,
-  shopifyProductId: string,
-  productData: Omit<Product, 'id' | 'created_at' | 'updated_at' | 'shop_id' | 'shopify_product_id'>
-): Promise<Product> {
+  limit = 20,
+  offset = 0,
+  filters: CallFilters = {}
+): Promise<{ calls: Call[]; total: number; nextCursor: string | null }> {
   try {
-    const validated = ProductSchema.omit({
-      id: true,
-      created_at: true,
-      updated_at: true,
-      shop_id: true,
-      shopify_product_id: true,
-    }).parse(productData);
+    // Date filters use the same column as the order so unstarted calls stay listed
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const filtered = (query: any) => {
+      query = query.eq('shop_id', shopId);
+      if (filters.from) query = query.gte('listed_at', filters.from);
+      if (filters.to) query = query.lte('listed_at', filters.to);
+      if (filters.sentiment) query = query.eq('sentiment', filters.sentiment);
+      if (filters.resolutionStatus) query = query.eq('resolution_status', filters.resolutionStatus);
+      if (filters.tags && filters.tags.length > 0) query = query.contains('tags', filters.tags);
+      return query;
+    };
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { data, error } = await (supabase as any)
-      .from('products')
-      .upsert(
-        {
-          ...validated,
-          shop_id: shopId,
-          shopify_product_id: shopifyProductId,
-        },
-        { onConflict: 'shopify_product_id' }
-      )
-      .select()
-      .single();
+    let query = filtered((supabaseAdmin as any).from('calls').select('*', { count: 'exact' }));
+    let countQuery = null;
+
+    if (filters.cursor) {
+      const { listedAt, id } = decodeCallCursor(filters.cursor);
+      query = query.or(`listed_at.lt.${listedAt},and(listed_at.eq.${listedAt},id.lt.${id})`);
+      offset = 0;
+
+      // The total counts every matching call, not just those after the cursor
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      countQuery = filtered((supabaseAdmin as any).from('calls').select('id', { count: 'exact', head: true }));
+    }
+
+    const [{ data, error, count }, totalResult] = await Promise.all([
+      query
+        .order('listed_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(offset, offset + limit - 1),
+      countQuery,
+    ]);
 
     if (error) throw error;
-    return ProductSchema.parse(data);
+    if (totalResult?.error) throw totalResult.error;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const calls: Call[] = (data || []).map((call: any) => CallSchema.parse(call));
+    const nextCursor = calls.length === limit ? encodeCallCursor(calls[calls.length - 1]) : null;
+
+    return { calls, total: (totalResult ? totalResult.count : count) || 0, nextCursor };
   } catch (err) {
     if (err instanceof z.ZodError) {
-      throw new ValidationError('Failed to parse product data', err.flatten());
+      throw new ValidationError('Failed to parse call data', err.flatten());
     }
-    throw new ExternalServiceError('Failed to upsert product', 'supabase');
+    if (err instanceof ValidationError) throw err;
+    throw new ExternalServiceError('Failed to fetch calls', 'supabase', { shopId });
   }
 }
 
 /**
- * Delete product
+ * Get a single call scoped to a shop
  */
-export async function deleteProduct(shopifyProductId: string): Promise<void> {
+export async function getShopCall(shopId: string, callId: string): Promise<Call | null> {
   try {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { error } = await (supabase as any)
-      .from('products')
-      .delete()
-      .eq('shopify_product_id', shopifyProductId);
+    const { data, error } = await (supabaseAdmin as any)
+      .from('calls')
+      .select('*')
+      .eq('shop_id', shopId)
+      .eq('id', callId)
+      .maybeSingle();
 
     if (error) throw error;
-  } catch {
-    throw new ExternalServiceError('Failed to delete product', 'supabase', {
-      shopifyProductId,
-    });
+    if (!data) return null;
+
+    return CallSchema.parse(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse call data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch call', 'supabase', { shopId, callId });
   }
 }
 
 /**
- * Search products by title
+ * Get the actions taken during a call, oldest first
  */
-export async function searchProducts(
-  shopId: string,
-  query: string,
-  limit = 10
-): Promise<Product[]> {
+export async function getCallActions(callId: string): Promise<CallAction[]> {
   try {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { data, error } = await (supabase as any)
-      .from('products')
+    const { data, error } = await (supabaseAdmin as any)
+      .from('call_actions')
       .select('*')
-      .eq('shop_id', shopId)
-      .ilike('title', `%${query}%`)
-      .limit(limit);
+      .eq('call_id', callId)
+      .order('created_at', { ascending: true });
 
     if (error) throw error;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return (data || []).map((product: any) => ProductSchema.parse(product));
+    return (data || []).map((action: any) => CallActionSchema.parse(action));
   } catch (err) {
     if (err instanceof z.ZodError) {
-      throw new ValidationError('Failed to parse product data', err.flatten());
+      throw new ValidationError('Failed to parse call action data', err.flatten());
     }
-    throw new ExternalServiceError('Failed to search products', 'supabase', {
-      shopId,
-      query,
-    });
+    throw new ExternalServiceError('Failed to fetch call actions', 'supabase', { callId });
   }
 }
 
-// ============================================================================
-// Cleanup Operations
-// ============================================================================
+/**
+ * Record an action the assistant took during a call
+ */
+export async function createCallAction(
+  callId: string,
+  actionType: CallAction['action_type'],
+  actionData: Record<string, unknown> | null,
+  success: boolean
+): Promise<CallAction> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('call_actions')
+      .insert([{ call_id: callId, action_type: actionType, action_data: actionData, success }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return CallActionSchema.parse(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse call action data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to record call action', 'supabase', { callId, actionType });
+  }
+}
+
+/**
+ * Update a call by ID
+ * Unlike upsertCallByVapiId, null values are written so fields can be cleared.
+ */
+export async function updateCall(callId: string, fields: CallUpdate): Promise<Call> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('calls')
+      .update(fields)
+      .eq('id', callId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return CallSchema.parse(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse call data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to update call', 'supabase', { callId });
+  }
+}
+
+/**
+ * Claim a call for post-call processing
+ * The update is conditional on the status and attempt count we read, so two
+ * concurrent runs cannot both claim the same call. Returns null if the call
+ * is missing, already completed, or was claimed by someone else.
+ */
+export async function claimCallForProcessing(
+  callId: string,
+  options: { force?: boolean; staleAfterMs?: number } = {}
+): Promise<Call | null> {
+  const { force = false, staleAfterMs = 5 * 60 * 1000 } = options;
+
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: current, error: readError } = await (supabaseAdmin as any)
+      .from('calls')
+      .select('processing_status, processing_attempts, processing_started_at')
+      .eq('id', callId)
+      .maybeSingle();
+
+    if (readError) throw readError;
+    if (!current) return null;
+
+    if (current.processing_status === 'completed' && !force) return null;
+
+    if (current.processing_status === 'processing') {
+      const startedAt = current.processing_started_at
+        ? new Date(current.processing_started_at).getTime()
+        : 0;
+      if (Date.now() - startedAt < staleAfterMs) return null;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('calls')
+      .update({
+        processing_status: 'processing',
+        processing_attempts: current.processing_attempts + 1,
+        processing_started_at: new Date().toISOString(),
+      })
+      .eq('id', callId)
+      .eq('processing_status', current.processing_status)
+      .eq('processing_attempts', current.processing_attempts)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? CallSchema.parse(data) : null;
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse call data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to claim call for processing', 'supabase', { callId });
+  }
+}
+
+/**
+ * Get ended calls whose processing is pending, failed, or stuck
+ * Oldest first so a backlog drains in order.
+ */
+export async function getCallsNeedingProcessing(
+  limit = 25,
+  maxAttempts = 5
+): Promise<Array<Pick<Call, 'id' | 'processing_status' | 'processing_attempts'>>> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('calls')
+      .select('id, processing_status, processing_attempts')
+      .in('processing_status', ['pending', 'failed', 'processing'])
+      .lt('processing_attempts', maxAttempts)
+      .not('ended_at', 'is', null)
+      .order('ended_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  } catch {
+    throw new ExternalServiceError('Failed to fetch calls needing processing', 'supabase', {
+      limit,
+      maxAttempts,
+    });
+  }
+}
+
+/**
+ * Bill an ended call's minutes to its shop (see record_call_usage in
+ * database/007_billing_usage.sql)
+ * Returns null when the call has nothing new to bill.
+ */
+export async function recordCallUsage(
+  callId: string
+): Promise<{ shopId: string; minutesAdded: number; minutesUsed: number } | null> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any).rpc('record_call_usage', {
+      p_call_id: callId,
+    });
+
+    if (error) throw error;
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) return null;
+
+    return {
+      shopId: row.billed_shop_id,
+      minutesAdded: row.minutes_added,
+      minutesUsed: row.minutes_used,
+    };
+  } catch {
+    throw new ExternalServiceError('Failed to record call usage', 'supabase', { callId });
+  }
+}
+
+/**
+ * Update call status and summary
+ */
+export async function updateCallSummary(
+  callId: string,
+  summary: string,
+  sentiment: 'positive' | 'neutral' | 'negative',
+  resolutionStatus: 'resolved' | 'escalated' | 'abandoned'
+): Promise<Call> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any)
+      .from('calls')
+      .update({
+        summary,
+        sentiment,
+        resolution_status: resolutionStatus,
+      })
+      .eq('id', callId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return CallSchema.parse(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse call data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to update call summary', 'supabase', { callId });
+  }
+}
+
+// ============================================================================
+// Product Operations
+// ============================================================================
+
+export type ProductInput = Omit<
+  Product,
+  'id' | 'created_at' | 'updated_at' | 'shop_id' | 'shopify_product_id' | 'shopify_updated_at' | 'popularity'
+> & { shopify_updated_at?: string | null };
+
+/**
+ * Create or update product
+ */
+export async function upsertProduct(
+  shopId: string,
+  shopifyProductId: string,
+  productData: ProductInput
+): Promise<Product> {
+  try {
+    const validated = ProductSchema.omit({
+      id: true,
+      created_at: true,
+      updated_at: true,
+      shop_id: true,
+      shopify_product_id: true,
+      popularity: true,
+    }).parse(productData);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('products')
+      .upsert(
+        {
+          ...validated,
+          shop_id: shopId,
+          shopify_product_id: shopifyProductId,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'shop_id,shopify_product_id' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+    return ProductSchema.parse(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse product data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to upsert product', 'supabase');
+  }
+}
+
+/**
+ * Delete product
+ */
+export async function deleteProduct(shopId: string, shopifyProductId: string): Promise<void> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any)
+      .from('products')
+      .delete()
+      .eq('shop_id', shopId)
+      .eq('shopify_product_id', shopifyProductId);
+
+    if (error) throw error;
+  } catch {
+    throw new ExternalServiceError('Failed to delete product', 'supabase', {
+      shopId,
+      shopifyProductId,
+    });
+  }
+}
+
+/**
+ * Get a shop's product by its Shopify product ID
+ */
+export async function getProductByShopifyId(
+  shopId: string,
+  shopifyProductId: string
+): Promise<Product | null> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('products')
+      .select('*')
+      .eq('shop_id', shopId)
+      .eq('shopify_product_id', shopifyProductId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? ProductSchema.parse(data) : null;
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse product data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch product', 'supabase', { shopId, shopifyProductId });
+  }
+}
+
+/**
+ * Find the product whose variants include a Shopify inventory item
+ * Matches against variants.items[].inventory_item_id written by product webhooks.
+ */
+export async function getProductByInventoryItemId(
+  shopId: string,
+  inventoryItemId: string
+): Promise<Product | null> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('products')
+      .select('*')
+      .eq('shop_id', shopId)
+      .contains('variants', { items: [{ inventory_item_id: inventoryItemId }] })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? ProductSchema.parse(data) : null;
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse product data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch product by inventory item', 'supabase', {
+      shopId,
+      inventoryItemId,
+    });
+  }
+}
+
+/**
+ * Update product columns by ID
+ */
+export async function updateProduct(
+  productId: string,
+  fields: Partial<Pick<Product, 'inventory_quantity' | 'variants'>>
+): Promise<Product> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('products')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', productId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return ProductSchema.parse(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse product data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to update product', 'supabase', { productId });
+  }
+}
+
+/**
+ * Create or update many products in one request, e.g. a page of a catalog sync
+ */
+export async function upsertProducts(
+  shopId: string,
+  products: Array<ProductInput & { shopify_product_id: string }>
+): Promise<number> {
+  if (products.length === 0) return 0;
+
+  try {
+    const now = new Date().toISOString();
+    const rows = products.map(({ shopify_product_id, ...productData }) => ({
+      ...ProductSchema.omit({
+        id: true,
+        created_at: true,
+        updated_at: true,
+        shop_id: true,
+        shopify_product_id: true,
+        popularity: true,
+      }).parse(productData),
+      shop_id: shopId,
+      shopify_product_id,
+      updated_at: now,
+    }));
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any)
+      .from('products')
+      .upsert(rows, { onConflict: 'shop_id,shopify_product_id' });
+
+    if (error) throw error;
+    return rows.length;
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse product data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to upsert products', 'supabase', { shopId, count: products.length });
+  }
+}
+
+/**
+ * Delete a shop's products not written since a point in time
+ * After a complete full sync these are products Shopify no longer has active.
+ */
+export async function deleteProductsNotSyncedSince(shopId: string, since: string): Promise<number> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('products')
+      .delete()
+      .eq('shop_id', shopId)
+      .lt('updated_at', since)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length;
+  } catch {
+    throw new ExternalServiceError('Failed to remove unsynced products', 'supabase', { shopId, since });
+  }
+}
+
+export interface ProductSearchHit {
+  product: Product;
+  /** Text and phonetic match, 0-1 */
+  relevance: number;
+  /** relevance plus the popularity boost; results are ordered by it */
+  score: number;
+}
+
+/**
+ * Fuzzy search over a shop's synced products (see search_products_fuzzy in
+ * database/015_product_search.sql)
+ * terms are already-normalized variants of one query; a product is scored by
+ * its best-matching term.
+ */
+export async function searchProducts(
+  shopId: string,
+  terms: string[],
+  limit = 10,
+  minRelevance = 0.3
+): Promise<ProductSearchHit[]> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any).rpc('search_products_fuzzy', {
+      p_shop_id: shopId,
+      p_terms: terms,
+      p_limit: limit,
+      p_min_relevance: minRelevance,
+    });
+
+    if (error) throw error;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (data || []).map((row: any) => ({
+      product: ProductSchema.parse(row.product),
+      relevance: Number(row.relevance),
+      score: Number(row.score),
+    }));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse product data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to search products', 'supabase', {
+      shopId,
+      terms,
+    });
+  }
+}
+
+/**
+ * Count a caller asking about these products towards their popularity
+ */
+export async function recordProductInterest(shopId: string, shopifyProductIds: string[]): Promise<void> {
+  if (shopifyProductIds.length === 0) return;
+
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any).rpc('record_product_interest', {
+      p_shop_id: shopId,
+      p_shopify_product_ids: shopifyProductIds,
+    });
+
+    if (error) throw error;
+  } catch {
+    throw new ExternalServiceError('Failed to record product interest', 'supabase', { shopId });
+  }
+}
+
+/**
+ * A shop's most asked-about products, newest first among equals, for the
+ * assistant's prompt
+ */
+export async function getTopProducts(shopId: string, limit = 20): Promise<Product[]> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('products')
+      .select('*')
+      .eq('shop_id', shopId)
+      .order('popularity', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return z.array(ProductSchema).parse(data || []);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse product data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch top products', 'supabase', { shopId });
+  }
+}
+
+// ============================================================================
+// Product Sync Runs
+// ============================================================================
+
+export const ProductSyncRunSchema = z.object({
+  id: z.string().uuid(),
+  shop_id: z.string().uuid(),
+  mode: z.enum(['full', 'delta', 'bulk']),
+  status: z.enum(['pending', 'running', 'completed', 'failed']),
+  cursor: z.string().nullable(),
+  updated_since: z.string().datetime({ offset: true }).nullable(),
+  bulk_operation_id: z.string().nullable(),
+  total_estimate: z.number().int().nullable(),
+  processed: z.number().int(),
+  failed: z.number().int(),
+  removed: z.number().int(),
+  attempts: z.number().int(),
+  error: z.string().nullable(),
+  started_at: z.string().datetime({ offset: true }).nullable(),
+  heartbeat_at: z.string().datetime({ offset: true }).nullable(),
+  completed_at: z.string().datetime({ offset: true }).nullable(),
+  created_at: z.string().datetime({ offset: true }),
+});
+
+export type ProductSyncRun = z.infer<typeof ProductSyncRunSchema>;
+
+export type ProductSyncMode = ProductSyncRun['mode'];
+
+/**
+ * Queue a sync run for a shop
+ * Returns null when the shop already has a pending or running run.
+ */
+export async function createProductSyncRun(
+  shopId: string,
+  fields: Pick<ProductSyncRun, 'mode' | 'updated_since' | 'total_estimate'>
+): Promise<ProductSyncRun | null> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('product_sync_runs')
+      .insert({ shop_id: shopId, ...fields })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') return null;
+      throw error;
+    }
+    return ProductSyncRunSchema.parse(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse product sync run', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to create product sync run', 'supabase', { shopId });
+  }
+}
+
+export async function getProductSyncRun(runId: string): Promise<ProductSyncRun | null> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('product_sync_runs')
+      .select('*')
+      .eq('id', runId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? ProductSyncRunSchema.parse(data) : null;
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse product sync run', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch product sync run', 'supabase', { runId });
+  }
+}
+
+/**
+ * A shop's most recent sync run, optionally only among runs with a status
+ */
+export async function getLatestProductSyncRun(
+  shopId: string,
+  status?: ProductSyncRun['status'][]
+): Promise<ProductSyncRun | null> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let query = (supabaseAdmin as any)
+      .from('product_sync_runs')
+      .select('*')
+      .eq('shop_id', shopId);
+
+    if (status) query = query.in('status', status);
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(1).maybeSingle();
+
+    if (error) throw error;
+    return data ? ProductSyncRunSchema.parse(data) : null;
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse product sync run', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch product sync run', 'supabase', { shopId });
+  }
+}
+
+/**
+ * Runs a sweep should pick up: pending, or running with no checkpoint for
+ * staleAfterMs (their slice died)
+ */
+export async function getResumableProductSyncRuns(
+  staleAfterMs: number,
+  limit = 10
+): Promise<ProductSyncRun[]> {
+  try {
+    const staleBefore = new Date(Date.now() - staleAfterMs).toISOString();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('product_sync_runs')
+      .select('*')
+      .or(`status.eq.pending,and(status.eq.running,heartbeat_at.lt.${staleBefore})`)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return z.array(ProductSyncRunSchema).parse(data || []);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse product sync runs', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch resumable product sync runs', 'supabase');
+  }
+}
+
+/**
+ * Take a run for one slice of work
+ * Returns null when it's finished or another slice holds it, so two slices
+ * never work on the same run.
+ */
+export async function claimProductSyncRun(
+  runId: string,
+  staleAfterMs: number
+): Promise<ProductSyncRun | null> {
+  try {
+    const current = await getProductSyncRun(runId);
+    if (!current || current.status === 'completed' || current.status === 'failed') return null;
+
+    if (current.status === 'running') {
+      const heartbeat = current.heartbeat_at ? new Date(current.heartbeat_at).getTime() : 0;
+      if (Date.now() - heartbeat < staleAfterMs) return null;
+    }
+
+    const now = new Date().toISOString();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('product_sync_runs')
+      .update({
+        status: 'running',
+        attempts: current.attempts + 1,
+        started_at: current.started_at ?? now,
+        heartbeat_at: now,
+      })
+      .eq('id', runId)
+      .eq('status', current.status)
+      .eq('attempts', current.attempts)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? ProductSyncRunSchema.parse(data) : null;
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse product sync run', err.flatten());
+    }
+    if (err instanceof ValidationError || err instanceof ExternalServiceError) throw err;
+    throw new ExternalServiceError('Failed to claim product sync run', 'supabase', { runId });
+  }
+}
+
+/**
+ * Save a run's progress
+ * Refreshes heartbeat_at unless the update says otherwise.
+ */
+export async function updateProductSyncRun(
+  runId: string,
+  fields: Partial<
+    Pick<
+      ProductSyncRun,
+      | 'status'
+      | 'cursor'
+      | 'bulk_operation_id'
+      | 'total_estimate'
+      | 'processed'
+      | 'failed'
+      | 'removed'
+      | 'error'
+      | 'heartbeat_at'
+      | 'completed_at'
+    >
+  >
+): Promise<ProductSyncRun> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('product_sync_runs')
+      .update({ heartbeat_at: new Date().toISOString(), ...fields })
+      .eq('id', runId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return ProductSyncRunSchema.parse(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse product sync run', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to update product sync run', 'supabase', { runId });
+  }
+}
+
+// ============================================================================
+// Webhook Events
+// ============================================================================
+
+/**
+ * Record a Shopify webhook delivery before handling it
+ * Returns false when this webhook ID was already claimed, i.e. the delivery
+ * is a retry or duplicate and must not be handled again.
+ */
+export async function claimWebhookEvent(
+  webhookId: string,
+  shopDomain: string,
+  topic: string
+): Promise<boolean> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('webhook_events')
+      .upsert(
+        { webhook_id: webhookId, shop_domain: shopDomain, topic },
+        { onConflict: 'webhook_id', ignoreDuplicates: true }
+      )
+      .select('webhook_id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  } catch {
+    throw new ExternalServiceError('Failed to claim webhook event', 'supabase', { webhookId, topic });
+  }
+}
+
+export async function completeWebhookEvent(webhookId: string): Promise<void> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any)
+      .from('webhook_events')
+      .update({ processed_at: new Date().toISOString() })
+      .eq('webhook_id', webhookId);
+
+    if (error) throw error;
+  } catch {
+    throw new ExternalServiceError('Failed to complete webhook event', 'supabase', { webhookId });
+  }
+}
+
+/**
+ * Forget a claimed webhook whose handler failed, so a redelivery is handled
+ */
+export async function releaseWebhookEvent(webhookId: string): Promise<void> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any)
+      .from('webhook_events')
+      .delete()
+      .eq('webhook_id', webhookId)
+      .is('processed_at', null);
+
+    if (error) throw error;
+  } catch {
+    throw new ExternalServiceError('Failed to release webhook event', 'supabase', { webhookId });
+  }
+}
+
+// ============================================================================
+// Function Cache
+// ============================================================================
+
+/**
+ * Cached tool result, or null when missing or expired
+ */
+export async function getFunctionCacheEntry(
+  shopId: string,
+  cacheKey: string
+): Promise<{ result: unknown; expiresAt: string } | null> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('function_cache')
+      .select('result, expires_at')
+      .eq('shop_id', shopId)
+      .eq('cache_key', cacheKey)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? { result: data.result, expiresAt: data.expires_at } : null;
+  } catch {
+    throw new ExternalServiceError('Failed to read function cache', 'supabase', { shopId });
+  }
+}
+
+export async function setFunctionCacheEntry(
+  shopId: string,
+  cacheKey: string,
+  entry: { tool: string; result: unknown; expiresAt: string }
+): Promise<void> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any).from('function_cache').upsert(
+      {
+        shop_id: shopId,
+        cache_key: cacheKey,
+        tool: entry.tool,
+        result: entry.result,
+        expires_at: entry.expiresAt,
+        created_at: new Date().toISOString(),
+      },
+      { onConflict: 'shop_id,cache_key' }
+    );
+
+    if (error) throw error;
+  } catch {
+    throw new ExternalServiceError('Failed to write function cache', 'supabase', { shopId });
+  }
+}
+
+/**
+ * Drop every cached result for a shop
+ */
+export async function deleteFunctionCacheEntries(shopId: string): Promise<void> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any).from('function_cache').delete().eq('shop_id', shopId);
+
+    if (error) throw error;
+  } catch {
+    throw new ExternalServiceError('Failed to clear function cache', 'supabase', { shopId });
+  }
+}
+
+// ============================================================================
+// Rate Limit Counters
+// ============================================================================
+
+/**
+ * Count one request against a shared limit (rate_limit_hit in
+ * database/018_rate_limits.sql)
+ * Rejected requests aren't counted. count is the weighted count after this
+ * request; resetAt is when the current window ends, in epoch ms.
+ */
+export async function hitRateLimit(
+  key: string,
+  limit: number,
+  windowMs: number,
+  sliding: boolean
+): Promise<{ allowed: boolean; count: number; resetAt: number }> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any).rpc('rate_limit_hit', {
+      p_key: key,
+      p_limit: limit,
+      p_window_ms: windowMs,
+      p_sliding: sliding,
+    });
+
+    if (error) throw error;
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) throw new Error('rate_limit_hit returned no row');
+
+    return { allowed: row.allowed, count: Number(row.current_count), resetAt: Number(row.reset_at) };
+  } catch {
+    throw new ExternalServiceError('Failed to check rate limit', 'supabase', { key });
+  }
+}
+
+export async function resetRateLimit(key: string): Promise<void> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any).from('rate_limit_counters').delete().eq('key', key);
+
+    if (error) throw error;
+  } catch {
+    throw new ExternalServiceError('Failed to reset rate limit', 'supabase', { key });
+  }
+}
+
+// ============================================================================
+// Function Call Log
+// ============================================================================
+
+export const FunctionCallLogSchema = z.object({
+  id: z.string().uuid(),
+  shop_id: z.string().uuid(),
+  vapi_call_id: z.string().nullable(),
+  tool: z.string(),
+  parameters: z.record(z.string(), z.unknown()).default({}),
+  result_bytes: z.number().int(),
+  latency_ms: z.number().int(),
+  error_code: z.string().nullable(),
+  cache_hit: z.boolean(),
+  /** Actual Shopify GraphQL cost of the call's queries; null before migration 019 */
+  query_cost: z.number().int().nullable().default(null),
+  created_at: z.string().datetime({ offset: true }),
+});
+
+export type FunctionCallLog = z.infer<typeof FunctionCallLogSchema>;
+
+export type FunctionCallLogInput = Omit<FunctionCallLog, 'id' | 'created_at'>;
+
+export async function createFunctionCallLog(entry: FunctionCallLogInput): Promise<void> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any).from('function_calls').insert(entry);
+
+    if (error) throw error;
+  } catch {
+    throw new ExternalServiceError('Failed to log function call', 'supabase', {
+      shopId: entry.shop_id,
+      tool: entry.tool,
+    });
+  }
+}
+
+/**
+ * A shop's function calls since a point in time, newest first
+ */
+export async function getFunctionCallLogs(
+  shopId: string,
+  since: string,
+  limit = 5000
+): Promise<FunctionCallLog[]> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('function_calls')
+      .select('*')
+      .eq('shop_id', shopId)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return z.array(FunctionCallLogSchema).parse(data || []);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse function call logs', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch function call logs', 'supabase', { shopId });
+  }
+}
+
+// ============================================================================
+// Vapi Spend
+// ============================================================================
+
+export const DailySpendSchema = z.object({
+  shop_id: z.string().uuid(),
+  day: z.string(),
+  calls: z.number().int(),
+  cost_cents: z.number().int(),
+});
+
+export type DailySpend = z.infer<typeof DailySpendSchema>;
+
+export interface CallSpend {
+  shopId: string;
+  /** UTC day the call started, YYYY-MM-DD */
+  day: string;
+  centsAdded: number;
+  dayCents: number;
+  periodCents: number;
+}
+
+/**
+ * Add an ended call's cost to its shop's daily spend (see record_call_spend
+ * in database/020_vapi_spend.sql)
+ * Returns null when the call has no new cost to add.
+ */
+export async function recordCallSpend(callId: string): Promise<CallSpend | null> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any).rpc('record_call_spend', {
+      p_call_id: callId,
+    });
+
+    if (error) throw error;
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) return null;
+
+    return {
+      shopId: row.spend_shop_id,
+      day: row.spend_day,
+      centsAdded: row.cents_added,
+      dayCents: row.day_cents,
+      periodCents: row.period_cents,
+    };
+  } catch {
+    throw new ExternalServiceError('Failed to record call spend', 'supabase', { callId });
+  }
+}
+
+/**
+ * A shop's daily spend from a UTC day (YYYY-MM-DD) on, oldest first
+ */
+export async function getShopDailySpend(shopId: string, sinceDay: string): Promise<DailySpend[]> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('shop_daily_spend')
+      .select('shop_id, day, calls, cost_cents')
+      .eq('shop_id', shopId)
+      .gte('day', sinceDay)
+      .order('day', { ascending: true });
+
+    if (error) throw error;
+    return z.array(DailySpendSchema).parse(data || []);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse daily spend', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch daily spend', 'supabase', { shopId });
+  }
+}
+
+export const PlanSpendSchema = z.object({
+  plan_name: z.string(),
+  subscription_status: z.string(),
+  shops: z.number().int(),
+  calls: z.number().int(),
+  cost_cents: z.number().int(),
+});
+
+export type PlanSpend = z.infer<typeof PlanSpendSchema>;
+
+/**
+ * Spend per plan and subscription status from a UTC day on (see
+ * spend_by_plan in database/020_vapi_spend.sql)
+ */
+export async function getSpendByPlan(sinceDay: string): Promise<PlanSpend[]> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any).rpc('spend_by_plan', { p_since: sinceDay });
+
+    if (error) throw error;
+    return z.array(PlanSpendSchema).parse(data || []);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse spend by plan', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch spend by plan', 'supabase', { sinceDay });
+  }
+}
+
+/**
+ * Installed shops whose assistant is paused for going over a spend budget
+ */
+export async function getSpendPausedShops(limit = 100): Promise<Shop[]> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('shops')
+      .select('*')
+      .is('uninstalled_at', null)
+      .not('settings->spend_pause', 'is', null)
+      .limit(limit);
+
+    if (error) throw error;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (data || []).map((shop: any) => ShopSchema.parse(shop));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse shop data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch spend-paused shops', 'supabase');
+  }
+}
+
+// ============================================================================
+// Receptionist Persona Versions
+// ============================================================================
+
+export const PersonaVersionSchema = z.object({
+  id: z.string().uuid(),
+  shop_id: z.string().uuid(),
+  version: z.number().int(),
+  status: z.enum(['draft', 'published', 'archived']),
+  // Parsed with receptionistPersonaSchema by receptionist-persona.ts
+  persona: z.record(z.string(), z.unknown()),
+  system_prompt: z.string().nullable(),
+  first_message: z.string().nullable(),
+  published_at: z.string().datetime({ offset: true }).nullable(),
+  created_at: z.string().datetime({ offset: true }),
+  updated_at: z.string().datetime({ offset: true }),
+});
+
+export type PersonaVersion = z.infer<typeof PersonaVersionSchema>;
+
+/**
+ * A shop's persona versions, newest first
+ */
+export async function getPersonaVersions(shopId: string, limit = 20): Promise<PersonaVersion[]> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('receptionist_persona_versions')
+      .select('*')
+      .eq('shop_id', shopId)
+      .order('version', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return z.array(PersonaVersionSchema).parse(data || []);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse persona versions', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch persona versions', 'supabase', { shopId });
+  }
+}
+
+/**
+ * A shop's persona version, by version number or by status
+ * (the draft or the published version)
+ */
+export async function getPersonaVersion(
+  shopId: string,
+  which: { version: number } | { status: 'draft' | 'published' }
+): Promise<PersonaVersion | null> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let query = (supabaseAdmin as any)
+      .from('receptionist_persona_versions')
+      .select('*')
+      .eq('shop_id', shopId);
+
+    query = 'version' in which ? query.eq('version', which.version) : query.eq('status', which.status);
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) throw error;
+    return data ? PersonaVersionSchema.parse(data) : null;
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse persona version', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch persona version', 'supabase', { shopId });
+  }
+}
+
+/**
+ * Create or replace the shop's draft (see save_persona_draft in
+ * database/021_receptionist_personas.sql)
+ */
+export async function savePersonaDraft(
+  shopId: string,
+  persona: Record<string, unknown>
+): Promise<PersonaVersion> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any).rpc('save_persona_draft', {
+      p_shop_id: shopId,
+      p_persona: persona,
+    });
+
+    if (error) throw error;
+    return PersonaVersionSchema.parse(Array.isArray(data) ? data[0] : data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse persona version', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to save persona draft', 'supabase', { shopId });
+  }
+}
+
+/**
+ * Mark a version published, archiving the previous one, with the prompt that
+ * was pushed to Vapi (see publish_persona_version)
+ */
+export async function publishPersonaVersion(
+  shopId: string,
+  versionId: string,
+  compiled: { systemPrompt: string; firstMessage: string }
+): Promise<PersonaVersion> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any).rpc('publish_persona_version', {
+      p_shop_id: shopId,
+      p_version_id: versionId,
+      p_system_prompt: compiled.systemPrompt,
+      p_first_message: compiled.firstMessage,
+    });
+
+    if (error) throw error;
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) throw new Error('Persona version not found');
+    return PersonaVersionSchema.parse(row);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse persona version', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to publish persona version', 'supabase', { shopId, versionId });
+  }
+}
+
+// ============================================================================
+// Assistant Sync
+// ============================================================================
+
+/**
+ * Ask for the shop's assistant to be re-synced by dueAt
+ * The first request in a batch sets when it's due; later ones only record
+ * that there is something newer to sync. Shops without an assistant are
+ * left alone.
+ */
+export async function requestAssistantSync(shopId: string, dueAt: string): Promise<void> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error: dueError } = await (supabaseAdmin as any)
+      .from('shops')
+      .update({ vapi_sync_due_at: dueAt })
+      .eq('id', shopId)
+      .not('vapi_assistant_id', 'is', null)
+      .is('vapi_sync_due_at', null);
+
+    if (dueError) throw dueError;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any)
+      .from('shops')
+      .update({ vapi_sync_requested_at: new Date().toISOString() })
+      .eq('id', shopId)
+      .not('vapi_assistant_id', 'is', null);
+
+    if (error) throw error;
+  } catch {
+    throw new ExternalServiceError('Failed to request assistant sync', 'supabase', { shopId });
+  }
+}
+
+/**
+ * Record the config applied to the shop's assistant
+ * The pending request is only cleared if nothing was requested after the
+ * sync started; otherwise the shop stays due and syncs again.
+ */
+export async function completeAssistantSync(
+  shopId: string,
+  applied: { hash: string; startedAt: string }
+): Promise<void> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error: hashError } = await (supabaseAdmin as any)
+      .from('shops')
+      .update({ vapi_config_hash: applied.hash, vapi_config_synced_at: new Date().toISOString() })
+      .eq('id', shopId);
+
+    if (hashError) throw hashError;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any)
+      .from('shops')
+      .update({ vapi_sync_requested_at: null, vapi_sync_due_at: null })
+      .eq('id', shopId)
+      .or(`vapi_sync_requested_at.is.null,vapi_sync_requested_at.lte.${applied.startedAt}`);
+
+    if (error) throw error;
+  } catch {
+    throw new ExternalServiceError('Failed to record assistant sync', 'supabase', { shopId });
+  }
+}
+
+/**
+ * Installed shops whose requested assistant sync is due, longest waiting first
+ */
+export async function getShopsDueForAssistantSync(limit = 25): Promise<Shop[]> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('shops')
+      .select('*')
+      .is('uninstalled_at', null)
+      .lte('vapi_sync_due_at', new Date().toISOString())
+      .order('vapi_sync_due_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (data || []).map((shop: any) => ShopSchema.parse(shop));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse shop data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch shops due for assistant sync', 'supabase');
+  }
+}
+
+// ============================================================================
+// Compliance (GDPR) Operations
+// ============================================================================
+
+export const GdprRequestSchema = z.object({
+  id: z.string().uuid(),
+  shop_domain: z.string(),
+  topic: z.enum(['customers/data_request', 'customers/redact', 'shop/redact']),
+  shopify_customer_id: z.string().nullable(),
+  shopify_request_id: z.string().nullable(),
+  export: z.record(z.string(), z.unknown()).nullable(),
+  result: z.record(z.string(), z.unknown()).default({}),
+  created_at: z.string().datetime({ offset: true }),
+  completed_at: z.string().datetime({ offset: true }).nullable(),
+});
+
+export type GdprRequest = z.infer<typeof GdprRequestSchema>;
+
+/**
+ * Calls whose caller number may belong to one of the given phone numbers
+ * Matches on the last 7 digits; callers should confirm the full number.
+ */
+export async function getShopCallsByPhoneSuffix(shopId: string, phones: string[]): Promise<Call[]> {
+  const suffixes = Array.from(
+    new Set(phones.map(phone => phone.replace(/\D/g, '').slice(-7)).filter(digits => digits.length === 7))
+  );
+  if (suffixes.length === 0) return [];
+
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('calls')
+      .select('*')
+      .eq('shop_id', shopId)
+      .or(suffixes.map(digits => `customer_phone.like.%${digits}`).join(','))
+      .order('started_at', { ascending: true });
+
+    if (error) throw error;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (data || []).map((call: any) => CallSchema.parse(call));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse call data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch calls by phone', 'supabase', { shopId });
+  }
+}
+
+/**
+ * Remove caller details, transcripts and recordings from calls and their
+ * actions, keeping the rows (durations, outcomes) for usage and reporting
+ */
+export async function redactCalls(callIds: string[]): Promise<void> {
+  if (callIds.length === 0) return;
+
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any)
+      .from('calls')
+      .update({
+        customer_phone: 'redacted',
+        customer_name: null,
+        transcript: null,
+        summary: null,
+        recording_url: null,
+        action_items: [],
+        tags: null,
+      })
+      .in('id', callIds);
+
+    if (error) throw error;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error: actionError } = await (supabaseAdmin as any)
+      .from('call_actions')
+      .update({ action_data: { redacted: true } })
+      .in('call_id', callIds);
+
+    if (actionError) throw actionError;
+  } catch {
+    throw new ExternalServiceError('Failed to redact calls', 'supabase', { count: callIds.length });
+  }
+}
+
+export async function createGdprRequest(
+  fields: Pick<GdprRequest, 'shop_domain' | 'topic'> &
+    Partial<Pick<GdprRequest, 'shopify_customer_id' | 'shopify_request_id'>>
+): Promise<GdprRequest> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('gdpr_requests')
+      .insert(fields)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return GdprRequestSchema.parse(data);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse GDPR request', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to record GDPR request', 'supabase', {
+      topic: fields.topic,
+      shopDomain: fields.shop_domain,
+    });
+  }
+}
+
+export async function completeGdprRequest(
+  requestId: string,
+  fields: Partial<Pick<GdprRequest, 'export' | 'result'>>
+): Promise<void> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any)
+      .from('gdpr_requests')
+      .update({ ...fields, completed_at: new Date().toISOString() })
+      .eq('id', requestId);
+
+    if (error) throw error;
+  } catch {
+    throw new ExternalServiceError('Failed to complete GDPR request', 'supabase', { requestId });
+  }
+}
+
+/**
+ * Drop stored data exports once their data has been redacted
+ * Without a customer ID, clears every export for the shop.
+ */
+export async function clearGdprExports(shopDomain: string, shopifyCustomerId?: string): Promise<void> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let query = (supabaseAdmin as any)
+      .from('gdpr_requests')
+      .update({ export: null })
+      .eq('shop_domain', shopDomain)
+      .not('export', 'is', null);
+
+    if (shopifyCustomerId) {
+      query = query.eq('shopify_customer_id', shopifyCustomerId);
+    }
+
+    const { error } = await query;
+    if (error) throw error;
+  } catch {
+    throw new ExternalServiceError('Failed to clear GDPR exports', 'supabase', { shopDomain });
+  }
+}
+
+/**
+ * A shop's GDPR requests, newest first
+ */
+export async function getGdprRequests(shopDomain: string, limit = 50): Promise<GdprRequest[]> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('gdpr_requests')
+      .select('*')
+      .eq('shop_domain', shopDomain)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (data || []).map((request: any) => GdprRequestSchema.parse(request));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse GDPR request', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch GDPR requests', 'supabase', { shopDomain });
+  }
+}
+
+// ============================================================================
+// Cleanup Operations
+// ============================================================================
+
+/**
+ * Uninstalled shops whose cleanup failed or whose retention window has
+ * passed, earliest purge first
+ */
+export async function getUninstalledShops(limit = 25): Promise<Shop[]> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabaseAdmin as any)
+      .from('shops')
+      .select('*')
+      .not('uninstalled_at', 'is', null)
+      .or(`cleanup_error.not.is.null,purge_after.lte.${new Date().toISOString()}`)
+      .order('purge_after', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (data || []).map((shop: any) => ShopSchema.parse(shop));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      throw new ValidationError('Failed to parse shop data', err.flatten());
+    }
+    throw new ExternalServiceError('Failed to fetch uninstalled shops', 'supabase');
+  }
+}
+
+/**
+ * Delete every stored Shopify session (offline and online) for a shop
+ */
+export async function deleteShopSessions(shopDomain: string): Promise<void> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any)
+      .from('shopify_sessions')
+      .delete()
+      .eq('shop', shopDomain);
+
+    if (error) throw error;
+  } catch {
+    throw new ExternalServiceError('Failed to delete shop sessions', 'supabase', { shopDomain });
+  }
+}
+
+/**
+ * Append an audit_log entry
+ */
+export async function createAuditLog(
+  event: string,
+  entry: { shopDomain: string; shopId?: string | null; details?: Record<string, unknown> }
+): Promise<void> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabaseAdmin as any).from('audit_log').insert({
+      event,
+      shop_domain: entry.shopDomain,
+      shop_id: entry.shopId ?? null,
+      details: entry.details ?? {},
+    });
+
+    if (error) throw error;
+  } catch {
+    throw new ExternalServiceError('Failed to write audit log', 'supabase', {
+      event,
+      shopDomain: entry.shopDomain,
+    });
+  }
+}
 
 /**
  * Delete all shop data (for uninstall)
+ * Calls, call actions and products are removed by ON DELETE CASCADE.
  */
 export async function deleteShop(shopId: string): Promise<void> {
   try {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { error } = await (supabase as any).from('shops').delete().eq('id', shopId);
+    const { error } = await (supabaseAdmin as any).from('shops').delete().eq('id', shopId);
 
     if (error) throw error;
   } catch {
@@ -55,6 +55,7 @@ export interface PaginatedResponse<T> extends ApiResponse {
     page: number;
     pageSize: number;
     totalPages: number;
+    nextCursor?: string | null;
   };
 }
 
@@ -63,7 +64,8 @@ export function createPaginatedResponse<T>(
   total: number,
   page: number,
   pageSize: number,
-  statusCode: number = 200
+  statusCode: number = 200,
+  nextCursor?: string | null
 ): NextResponse<PaginatedResponse<T>> {
   const totalPages = Math.ceil(total / pageSize);
 
@@ -76,6 +78,7 @@ export function createPaginatedResponse<T>(
         page,
         pageSize,
         totalPages,
+        ...(nextCursor !== undefined && { nextCursor }),
       },
       timestamp: new Date().toISOString(),
     },
@@ -79,3 +79,192 @@ export const paginationSchema = z.object({
 });
 
 export type Pagination = z.infer<typeof paginationSchema>;
+
+// Call History Query
+export const callListQuerySchema = paginationSchema.extend({
+  cursor: z.string().min(1).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  sentiment: z.enum(['positive', 'neutral', 'negative']).optional(),
+  resolutionStatus: z.enum(['resolved', 'escalated', 'abandoned']).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+});
+
+export type CallListQuery = z.infer<typeof callListQuerySchema>;
+
+// Tool Performance Query
+export const functionPerformanceQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7),
+});
+
+export type FunctionPerformanceQuery = z.infer<typeof functionPerformanceQuerySchema>;
+
+// Product Sync
+export const productSyncRequestSchema = z.object({
+  // Omitted: delta after a completed sync, otherwise full or bulk by catalog size
+  mode: z.enum(['full', 'delta', 'bulk']).optional(),
+});
+
+export type ProductSyncRequest = z.infer<typeof productSyncRequestSchema>;
+
+// Call Transfer Settings (stored under shops.settings.transfer)
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use 24-hour HH:MM');
+
+export const transferHoursSchema = z.object({
+  days: z.array(z.enum(['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'])).min(1),
+  open: timeOfDaySchema,
+  close: timeOfDaySchema,
+});
+
+export const transferDestinationSchema = z.object({
+  id: z.string().min(1).max(50),
+  label: z.string().min(1).max(100),
+  phone_number: z.string().regex(/^\+[1-9]\d{1,14}$/, 'Use E.164 format, e.g. +15551234567'),
+  department: z.string().max(50).optional(),
+  // null means the destination takes calls at any time
+  hours: transferHoursSchema.nullable().default(null),
+});
+
+export const escalationTriggersSchema = z.object({
+  caller_requests_human: z.boolean().default(true),
+  caller_upset: z.boolean().default(true),
+  failed_order_lookups: z.number().int().min(1).max(3).nullable().default(2),
+  keywords: z.array(z.string().min(1).max(50)).max(20).default([]),
+});
+
+export const transferSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  destinations: z.array(transferDestinationSchema).max(10).default([]),
+  voicemail_message: z.string().max(500).optional(),
+  escalation_triggers: escalationTriggersSchema.default({
+    caller_requests_human: true,
+    caller_upset: true,
+    failed_order_lookups: 2,
+    keywords: [],
+  }),
+});
+
+export type TransferHours = z.infer<typeof transferHoursSchema>;
+export type TransferDestination = z.infer<typeof transferDestinationSchema>;
+export type EscalationTriggers = z.infer<typeof escalationTriggersSchema>;
+export type TransferSettings = z.infer<typeof transferSettingsSchema>;
+
+// Spend Budgets (stored under shops.settings.spend_budget)
+export const spendBudgetSchema = z.object({
+  // Vapi spend in cents; null means no budget for that window
+  daily_cents: z.number().int().positive().nullable().default(null),
+  monthly_cents: z.number().int().positive().nullable().default(null),
+  // Switch to voicemail-only until the window resets once a budget is reached
+  auto_pause: z.boolean().default(false),
+});
+
+export type SpendBudget = z.infer<typeof spendBudgetSchema>;
+
+export const spendReportQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30),
+});
+
+export type SpendReportQuery = z.infer<typeof spendReportQuerySchema>;
+
+// Receptionist Persona (stored in receptionist_persona_versions.persona)
+export const personaToneSchema = z.enum(['friendly', 'professional', 'casual', 'enthusiastic']);
+
+export const personaFaqSchema = z.object({
+  question: z.string().trim().min(1).max(200),
+  answer: z.string().trim().min(1).max(1000),
+});
+
+export const receptionistPersonaSchema = z.object({
+  // First thing the assistant says; {shop_name} is replaced with the store name
+  greeting: z.string().trim().max(300).optional(),
+  tone: personaToneSchema.default('friendly'),
+  policies: z
+    .object({
+      returns: z.string().trim().max(1500).optional(),
+      shipping: z.string().trim().max(1500).optional(),
+      warranty: z.string().trim().max(1500).optional(),
+    })
+    .default({}),
+  faqs: z.array(personaFaqSchema).max(20).default([]),
+  forbidden_topics: z.array(z.string().trim().min(1).max(100)).max(20).default([]),
+});
+
+export type PersonaTone = z.infer<typeof personaToneSchema>;
+export type PersonaFaq = z.infer<typeof personaFaqSchema>;
+export type ReceptionistPersona = z.infer<typeof receptionistPersonaSchema>;
+
+export const publishPersonaRequestSchema = z.object({
+  // Version to publish; defaults to the draft. An archived version rolls back to it.
+  version: z.number().int().positive().optional(),
+});
+
+export type PublishPersonaRequest = z.infer<typeof publishPersonaRequestSchema>;
+
+// Billing
+export const subscribeRequestSchema = z.object({
+  plan: z.enum(['starter', 'professional', 'enterprise']),
+});
+
+export type SubscribeRequest = z.infer<typeof subscribeRequestSchema>;
+
+// Vapi Tool Parameters (descriptions are sent to the assistant as the tool schema)
+const toolLimitSchema = z.coerce
+  .number()
+  .int()
+  .min(1)
+  .max(10)
+  .default(5)
+  .describe('Maximum number of products to return (default: 5)');
+
+const toolCountrySchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(60)
+  .optional()
+  .describe('Country the caller is shopping from, only if they mentioned one, e.g. "Canada". Prices are quoted for that country.');
+
+export const searchProductsParamsSchema = z.object({
+  query: z.string().trim().min(1).describe('Search term or product name'),
+  limit: toolLimitSchema,
+  country: toolCountrySchema,
+});
+
+export const getProductsParamsSchema = z.object({
+  limit: toolLimitSchema,
+  country: toolCountrySchema,
+});
+
+export const checkOrderStatusParamsSchema = z.object({
+  orderId: z
+    .union([z.string(), z.number()])
+    .transform(value => String(value).trim())
+    .describe('Order number as the caller says it, e.g. 1001 or #1001'),
+  phone: z.string().optional().describe('Phone number on the order, if the caller gave one'),
+  email: z.string().optional().describe('Email address on the order, if the caller gave one'),
+});
+
+export const checkAvailabilityParamsSchema = z.object({
+  product: z.string().trim().min(1).describe('Product name as the caller says it, e.g. "the classic tee"'),
+  color: z.string().trim().optional().describe('Color the caller asked for, if any'),
+  size: z.string().trim().optional().describe('Size the caller asked for, if any, e.g. "medium" or "10"'),
+  options: z
+    .array(z.string().trim().min(1))
+    .max(5)
+    .optional()
+    .describe('Any other option values the caller mentioned, e.g. "cotton" or "long sleeve"'),
+});
+
+export const transferCallParamsSchema = z.object({
+  reason: z
+    .string()
+    .transform(value => value.slice(0, 200))
+    .describe('Short reason for the transfer, e.g. "wants a refund on a damaged item"'),
+  department: z.string().optional().describe('Department to route to, if the caller needs a specific team'),
+});
+
+export type SearchProductsParams = z.infer<typeof searchProductsParamsSchema>;
+export type GetProductsParams = z.infer<typeof getProductsParamsSchema>;
+export type CheckOrderStatusParams = z.infer<typeof checkOrderStatusParamsSchema>;
+export type CheckAvailabilityParams = z.infer<typeof checkAvailabilityParamsSchema>;
+export type TransferCallParams = z.infer<typeof transferCallParamsSchema>;
@@ -1,7 +1,12 @@
+import crypto from 'crypto';
 import { vapi } from './vapi/client';
+import { generateServerSecret } from './vapi/signature';
+import { getVapiFunctionDefinitions } from './vapi/tools';
 import { ExternalServiceError, ValidationError } from './utils/errors';
 import { logError } from './utils/errors';
 import { Product } from './supabase/db';
+import { compilePrompt } from './vapi/prompt';
+import type { ReceptionistPersona, TransferSettings } from './validations';
 
 // ============================================================================
 // Types
@@ -11,9 +16,15 @@ export interface VapiAssistantConfig {
   shopId: string;
   shopName: string;
   products: Product[];
+  /** Locale prices in the prompt are written in (shops.locale) */
+  locale?: string;
   voiceId?: string;
-  systemPrompt?: string;
+  /** Merchant's published persona; the standard receptionist when omitted */
+  persona?: ReceptionistPersona;
   hoursOfOperation?: string;
+  transferSettings?: TransferSettings;
+  /** Per-shop secret Vapi sends as x-vapi-secret (see vapi/server-secrets.ts) */
+  serverSecret?: string;
 }
 
 export interface RetryOptions {
@@ -21,61 +32,6 @@ export interface RetryOptions {
   backoffMs?: number; // Initial backoff in milliseconds
 }
 
-// ============================================================================
-// System Prompt Generation
-// ============================================================================
-
-/**
- * Generate system prompt for Vapi assistant
- * Includes shop context, product knowledge, and behavioral guidelines
- */
-function generateSystemPrompt(config: VapiAssistantConfig): string {
-  const { shopName, products, hoursOfOperation } = config;
-
-  // Format top 20 products for context
-  const topProducts = products.slice(0, 20);
-  const productList = topProducts
-    .map((p, idx) => {
-      const price = p.price ? `$${(p.price / 100).toFixed(2)}` : 'Contact for pricing';
-      return `${idx + 1}. ${p.title} - ${price}`;
-    })
-    .join('\n');
-
-  const hoursSection = hoursOfOperation ? `\n\nBusiness Hours:\n${hoursOfOperation}` : '';
-
-  return `You are a professional phone receptionist for ${shopName}.
-
-Your role:
-- Answer customer inquiries about products and orders
-- Be warm, friendly, and concise
-- Handle calls professionally and efficiently
-- Available to help customers during business hours
-
-Conversation Guidelines:
-- Keep responses brief and natural (under 30 seconds)
-- Use a conversational, professional tone
-- Ask clarifying questions if needed
-- Transfer complex issues to human staff when needed
-- Always be honest about product information
-
-Available Products (${topProducts.length} most popular):
-${productList}
-
-You have access to two functions:
-1. order_lookup - Look up customer orders by phone number or order ID
-2. product_search - Search for products by name or category
-
-Example Conversation:
-Customer: "Do you have the blue shirt in size M?"
-You: "Yes, we have the blue shirt available in size M. Would you like me to check our current stock or help you place an order?"
-
-Important:
-- Don't mention being an AI unless directly asked
-- Don't make up product information - use available products only
-- If unsure, offer to connect them with a team member
-- Always ask how you can help at the start of the call${hoursSection}`;
-}
-
 // ============================================================================
 // Retry Logic
 // ============================================================================
@@ -143,6 +99,178 @@ async function retryWithBackoff<T>(
 // Vapi Assistant Creation
 // ============================================================================
 
+const DEFAULT_MODEL = {
+  provider: 'openai',
+  model: 'gpt-4-turbo',
+  temperature: 0.7,
+  maxTokens: 500,
+};
+
+/**
+ * The assistant a shop should have, as sent to Vapi
+ * Leaves out the server secret, which is only set on creation and rotation.
+ */
+export function buildAssistantConfig(config: VapiAssistantConfig) {
+  const { systemPrompt, firstMessage } = compilePrompt(config);
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.SHOPIFY_APP_URL;
+
+  return {
+    name: `${config.shopName} Receptionist`,
+    model: {
+      ...DEFAULT_MODEL,
+      messages: [{ role: 'system', content: systemPrompt }],
+    },
+    voice: {
+      provider: 'elevenlabs',
+      voiceId: config.voiceId || 'rachel',
+      stability: 0.5,
+      similarityBoost: 0.75,
+      speed: 1.0,
+    },
+    firstMessage,
+    voicemail: {
+      enabled: true,
+      message: `Hi! This is ${config.shopName}'s AI receptionist. I'm currently unavailable, but please leave your message and phone number, and we'll get back to you as soon as possible.`,
+    },
+    interruptionThreshold: 100,
+    silenceThreshold: 3000, // 3 seconds of silence
+    maxDurationSeconds: 3600, // 1 hour max
+    recordingEnabled: true,
+    // Generated from the tool registry so the schemas match what the routes accept
+    functions: getVapiFunctionDefinitions(),
+    // Server tool URL for function calls (NOT webhook URL)
+    serverUrl: `${appUrl}/api/vapi/functions`,
+    // Global webhook URL for conversation/call events
+    webhookUrl: `${appUrl}/api/vapi/webhook`,
+  };
+}
+
+export type AssistantConfig = ReturnType<typeof buildAssistantConfig>;
+
+export type AssistantField = keyof AssistantConfig;
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 of an assistant config, independent of key order
+ */
+export function hashAssistantConfig(config: AssistantConfig): string {
+  return crypto.createHash('sha256').update(stableStringify(config)).digest('hex');
+}
+
+/**
+ * Whether the live value already has everything the desired one sets
+ * Extra fields Vapi adds (IDs, timestamps, defaults) don't count as changes.
+ */
+function matchesDesired(desired: unknown, current: unknown): boolean {
+  if (Array.isArray(desired)) {
+    return (
+      Array.isArray(current) &&
+      current.length === desired.length &&
+      desired.every((item, idx) => matchesDesired(item, current[idx]))
+    );
+  }
+  if (desired && typeof desired === 'object') {
+    if (!current || typeof current !== 'object') return false;
+    return Object.entries(desired as Record<string, unknown>).every(
+      ([key, value]) => value === undefined || matchesDesired(value, (current as Record<string, unknown>)[key])
+    );
+  }
+  return desired === current;
+}
+
+type FunctionDefinition = AssistantConfig['functions'][number];
+
+/**
+ * Schema keywords Vapi drops when it stores a function's parameters
+ */
+const DROPPED_SCHEMA_KEYWORDS = new Set(['$schema', 'additionalProperties']);
+
+/**
+ * A function's parameter schema in a form that compares by meaning: keys
+ * in order, required and enum as sets, keywords Vapi drops removed
+ */
+function normalizeSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(normalizeSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema as Record<string, unknown>)) {
+    if (DROPPED_SCHEMA_KEYWORDS.has(key) || value === undefined) continue;
+    normalized[key] =
+      (key === 'required' || key === 'enum') && Array.isArray(value)
+        ? [...value].map(item => JSON.stringify(item)).sort()
+        : normalizeSchema(value);
+  }
+  return normalized;
+}
+
+function functionSignature(definition: unknown): string | null {
+  if (!definition || typeof definition !== 'object') return null;
+  const { name, description, parameters } = definition as Record<string, unknown>;
+  if (typeof name !== 'string') return null;
+  return stableStringify({ name, description, parameters: normalizeSchema(parameters ?? {}) });
+}
+
+/**
+ * The functions the live assistant has, wherever Vapi keeps them: top-level
+ * functions, model.functions, or model.tools as function tools
+ */
+function getLiveFunctions(current: Record<string, unknown>): unknown[] {
+  if (Array.isArray(current.functions)) return current.functions;
+
+  const model = (current.model ?? {}) as Record<string, unknown>;
+  if (Array.isArray(model.functions)) return model.functions;
+  if (Array.isArray(model.tools)) {
+    return model.tools
+      .filter(tool => (tool as Record<string, unknown> | null)?.type === 'function')
+      .map(tool => (tool as Record<string, unknown>).function);
+  }
+  return [];
+}
+
+/**
+ * Whether the live assistant has the same functions, in any order
+ */
+function functionsMatch(desired: FunctionDefinition[], current: Record<string, unknown>): boolean {
+  const live = getLiveFunctions(current).map(functionSignature);
+  if (live.length !== desired.length) return false;
+
+  const liveSignatures = new Set(live);
+  return desired.every(definition => liveSignatures.has(functionSignature(definition)));
+}
+
+/**
+ * The top-level fields of desired that differ from the live assistant
+ */
+export function diffAssistantConfig(
+  current: Record<string, unknown>,
+  desired: AssistantConfig,
+  skip: AssistantField[] = []
+): Partial<AssistantConfig> {
+  const patch: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(desired)) {
+    if (skip.includes(field as AssistantField)) continue;
+
+    const matches = field === 'functions'
+      ? functionsMatch(value as FunctionDefinition[], current)
+      : matchesDesired(value, current[field]);
+    if (!matches) patch[field] = value;
+  }
+
+  return patch as Partial<AssistantConfig>;
+}
+
 /**
  * Create Vapi assistant with comprehensive configuration
  * This is the CRITICAL function that sets up the AI receptionist
@@ -150,103 +278,17 @@ async function retryWithBackoff<T>(
 export async function createVapiAssistant(config: VapiAssistantConfig): Promise<{
   assistantId: string;
   name: string;
+  configHash: string;
 }> {
   return retryWithBackoff(
     async () => {
-      const systemPrompt = generateSystemPrompt(config);
-
-      // Build assistant configuration
-      const assistantConfig = {
-        name: `${config.shopName} Receptionist`,
-        model: {
-          provider: 'openai',
-          model: 'gpt-4-turbo',
-          messages: [
-            {
-              role: 'system',
-              content: systemPrompt,
-            },
-          ],
-          temperature: 0.7,
-          maxTokens: 500,
-        },
-        voice: {
-          provider: 'elevenlabs',
-          voiceId: config.voiceId || 'rachel',
-          stability: 0.5,
-          similarityBoost: 0.75,
-          speed: 1.0,
-        },
-        firstMessage: `Hi! Thanks for calling ${config.shopName}. How can I help you today?`,
-        voicemail: {
-          enabled: true,
-          message: `Hi! This is ${config.shopName}'s AI receptionist. I'm currently unavailable, but please leave your message and phone number, and we'll get back to you as soon as possible.`,
-        },
-        interruptionThreshold: 100,
-        silenceThreshold: 3000, // 3 seconds of silence
-        maxDurationSeconds: 3600, // 1 hour max
-        recordingEnabled: true,
-        functions: [
-          {
-            name: 'search_products',
-            description: 'Search for products by name or keyword',
-            parameters: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'Search term or product name',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of products to return (default: 5)',
-                },
-              },
-              required: ['query'],
-            },
-          },
-          {
-            name: 'get_products',
-            description: 'Get a list of available products',
-            parameters: {
-              type: 'object',
-              properties: {
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of products to return (default: 5)',
-                },
-              },
-              required: [],
-            },
-          },
-          {
-            name: 'check_order_status',
-            description: 'Check the status of a customer order',
-            parameters: {
-              type: 'object',
-              properties: {
-                orderId: {
-                  type: 'string',
-                  description: 'Order ID or number',
-                },
-                phone: {
-                  type: 'string',
-                  description: 'Customer phone number',
-                },
-              },
-              required: ['orderId'],
-            },
-          },
-        ],
-        // Server tool URL for function calls (NOT webhook URL)
-        serverUrl: `${process.env.NEXT_PUBLIC_APP_URL || process.env.SHOPIFY_APP_URL}/api/vapi/functions`,
-        serverUrlSecret: process.env.VAPI_API_KEY,
-        // Global webhook URL for conversation/call events
-        webhookUrl: `${process.env.NEXT_PUBLIC_APP_URL || process.env.SHOPIFY_APP_URL}/api/vapi/webhook`,
-      };
+      const assistantConfig = buildAssistantConfig(config);
 
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const response = await (vapi as any).assistants.create(assistantConfig);
+      const response = await (vapi as any).assistants.create({
+        ...assistantConfig,
+        serverUrlSecret: config.serverSecret,
+      });
 
       if (!response?.id) {
         throw new Error('No assistant ID returned from Vapi');
@@ -255,6 +297,7 @@ export async function createVapiAssistant(config: VapiAssistantConfig): Promise<
       return {
         assistantId: response.id as string,
         name: response.name as string,
+        configHash: hashAssistantConfig(assistantConfig),
       };
     },
     'create Vapi assistant',
@@ -262,6 +305,139 @@ export async function createVapiAssistant(config: VapiAssistantConfig): Promise<
   );
 }
 
+// ============================================================================
+// Vapi Assistant Updates
+// ============================================================================
+
+/**
+ * Bring an existing assistant in line with a config
+ * Fetches the live assistant and PATCHes only the fields that differ, so
+ * re-syncing never creates a second assistant or phone number. Fields in
+ * skip are left as they are (voicemail-only mode owns model and firstMessage).
+ * Returns the fields that were updated.
+ */
+export async function updateVapiAssistant(
+  assistantId: string,
+  desired: AssistantConfig,
+  options: { skip?: AssistantField[] } = {}
+): Promise<{ changed: AssistantField[] }> {
+  return retryWithBackoff(
+    async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const current = await (vapi as any).assistants.get(assistantId);
+      if (!current) throw new Error(`Assistant ${assistantId} not found in Vapi`);
+
+      const patch = diffAssistantConfig(current, desired, options.skip);
+      const changed = Object.keys(patch) as AssistantField[];
+
+      if (changed.length > 0) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await (vapi as any).assistants.update(assistantId, patch);
+      }
+
+      return { changed };
+    },
+    'update Vapi assistant',
+    { maxAttempts: 3, backoffMs: 1000 }
+  );
+}
+
+// ============================================================================
+// Voicemail-Only Mode
+// ============================================================================
+
+/**
+ * Assistant fields replaced by voicemail-only mode, kept for restoring
+ */
+export interface SavedAssistantState {
+  firstMessage: string | null;
+  model: Record<string, unknown> | null;
+}
+
+function generateVoicemailPrompt(shopName: string): string {
+  return `You are the phone line for ${shopName}. The store's receptionist service is temporarily limited to taking messages.
+
+Your only job:
+- Ask for the caller's name, phone number and a short message
+- Confirm the details back to them
+- Thank them and let them know the team will get back to them soon
+
+Important:
+- Don't answer product or order questions - politely explain the team will follow up
+- Don't mention billing, quotas or plans
+- Keep the call short and friendly`;
+}
+
+/**
+ * Switch an assistant to take messages only
+ * Returns the replaced fields so restoreAssistantState can undo the change.
+ */
+export async function enableVoicemailOnlyMode(
+  assistantId: string,
+  shopName: string
+): Promise<SavedAssistantState> {
+  return retryWithBackoff(
+    async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const current = await (vapi as any).assistants.get(assistantId);
+      const saved: SavedAssistantState = {
+        firstMessage: current?.firstMessage ?? null,
+        model: current?.model ?? null,
+      };
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (vapi as any).assistants.update(assistantId, {
+        firstMessage: `Thanks for calling ${shopName}. We can't take your call right now, but I'd be happy to take a message for the team.`,
+        model: {
+          provider: current?.model?.provider || 'openai',
+          model: current?.model?.model || 'gpt-4-turbo',
+          messages: [{ role: 'system', content: generateVoicemailPrompt(shopName) }],
+          temperature: 0.5,
+          maxTokens: 300,
+        },
+      });
+
+      return saved;
+    },
+    'enable voicemail-only mode',
+    { maxAttempts: 3, backoffMs: 1000 }
+  );
+}
+
+/**
+ * Put back the fields replaced by enableVoicemailOnlyMode
+ */
+export async function restoreAssistantState(
+  assistantId: string,
+  saved: SavedAssistantState
+): Promise<void> {
+  await retryWithBackoff(
+    async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (vapi as any).assistants.update(assistantId, {
+        ...(saved.firstMessage !== null && { firstMessage: saved.firstMessage }),
+        ...(saved.model !== null && { model: saved.model }),
+      });
+    },
+    'restore assistant',
+    { maxAttempts: 3, backoffMs: 1000 }
+  );
+}
+
+/**
+ * Change the secret Vapi sends to the assistant's server URL
+ */
+export async function updateAssistantServerSecret(assistantId: string, secret: string): Promise<void> {
+  await retryWithBackoff(
+    async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (vapi as any).assistants.update(assistantId, { serverUrlSecret: secret });
+    },
+    'update assistant server secret',
+    { maxAttempts: 3, backoffMs: 1000 }
+  );
+}
+
 // ============================================================================
 // Phone Number Provisioning
 // ============================================================================
@@ -273,7 +449,7 @@ export async function createVapiAssistant(config: VapiAssistantConfig): Promise<
 export async function provisionPhoneNumber(
   assistantId: string,
   areaCode?: string
-): Promise<string> {
+): Promise<{ id: string; phoneNumber: string }> {
   const tollFreeAreaCodes = ['800', '888', '877', '866'];
   const areaCodestoTry = areaCode
     ? [areaCode, ...tollFreeAreaCodes]
@@ -296,7 +472,7 @@ export async function provisionPhoneNumber(
             throw new Error('No phone number returned from Vapi');
           }
 
-          return response.phoneNumber as string;
+          return { id: response.id as string, phoneNumber: response.phoneNumber as string };
         },
         `provision phone number with area code ${code}`,
         { maxAttempts: 2, backoffMs: 500 }
@@ -323,33 +499,126 @@ export async function provisionPhoneNumber(
   });
 }
 
+// ============================================================================
+// Resource Cleanup
+// ============================================================================
+
+function isNotFound(error: unknown): boolean {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const status = (error as any)?.statusCode ?? (error as any)?.status;
+  return status === 404;
+}
+
+/**
+ * Release a Vapi phone number
+ * Older shops stored the number itself rather than its Vapi ID; those are
+ * looked up by number first. Numbers that are already gone count as released.
+ */
+export async function releasePhoneNumber(phoneNumberIdOrNumber: string): Promise<void> {
+  let phoneNumberId: string | null = phoneNumberIdOrNumber;
+
+  if (/^\+?\d+$/.test(phoneNumberIdOrNumber)) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const numbers: any[] = await retryWithBackoff(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      async () => (await (vapi as any).phoneNumbers.list()) || [],
+      'list phone numbers'
+    );
+    phoneNumberId =
+      numbers.find(n => n.number === phoneNumberIdOrNumber || n.phoneNumber === phoneNumberIdOrNumber)?.id ??
+      null;
+
+    if (!phoneNumberId) {
+      console.warn(`Phone number ${phoneNumberIdOrNumber} not found in Vapi, nothing to release`);
+      return;
+    }
+  }
+
+  await retryWithBackoff(
+    async () => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await (vapi as any).phoneNumbers.delete(phoneNumberId);
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    },
+    'release phone number'
+  );
+}
+
+/**
+ * Delete a Vapi assistant; one that is already gone counts as deleted
+ */
+export async function deleteVapiAssistant(assistantId: string): Promise<void> {
+  await retryWithBackoff(
+    async () => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await (vapi as any).assistants.delete(assistantId);
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    },
+    'delete assistant'
+  );
+}
+
+/**
+ * Delete a call record (with its recording and transcript) from Vapi
+ * A call that is already gone counts as deleted.
+ */
+export async function deleteVapiCall(vapiCallId: string): Promise<void> {
+  await retryWithBackoff(
+    async () => {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        await (vapi as any).calls.delete(vapiCallId);
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    },
+    'delete call'
+  );
+}
+
 // ============================================================================
 // Complete Provisioning Workflow
 // ============================================================================
 
 /**
  * Complete workflow: Create assistant and provision phone number
+ * The assistant gets a freshly generated server secret; only its hash is
+ * returned, for storing on the shop.
  */
 export async function provisionReceptionist(config: VapiAssistantConfig): Promise<{
   assistantId: string;
+  phoneNumberId: string;
   phoneNumber: string;
   assistantName: string;
+  serverSecretHash: string;
+  /** Hash of the config the assistant was created with (shops.vapi_config_hash) */
+  configHash: string;
 }> {
   try {
     // Step 1: Create assistant
     console.log(`Creating Vapi assistant for ${config.shopName}...`);
-    const { assistantId, name } = await createVapiAssistant(config);
+    const { secret, hash } = generateServerSecret();
+    const { assistantId, name, configHash } = await createVapiAssistant({ ...config, serverSecret: secret });
     console.log(`✅ Assistant created: ${assistantId}`);
 
     // Step 2: Provision phone number
     console.log(`Provisioning phone number for assistant...`);
-    const phoneNumber = await provisionPhoneNumber(assistantId);
+    const { id: phoneNumberId, phoneNumber } = await provisionPhoneNumber(assistantId);
     console.log(`✅ Phone number provisioned: ${phoneNumber}`);
 
     return {
       assistantId,
+      phoneNumberId,
       phoneNumber,
       assistantName: name,
+      serverSecretHash: hash,
+      configHash,
     };
   } catch (error) {
     logError(error, {
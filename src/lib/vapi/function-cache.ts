@@ -1 +1,169 @@
-export const cache = { get: () => null, set: () => {} };
+import {
+  deleteFunctionCacheEntries,
+  getFunctionCacheEntry,
+  setFunctionCacheEntry,
+} from '../supabase/db';
+import { logError } from '../utils/errors';
+
+/**
+ * Vapi Function Result Cache
+ *
+ * Two tiers, keyed by shop, tool and normalized parameters:
+ * - memory: per-instance LRU, checked first
+ * - Postgres (function_cache): shared across instances, enabled with
+ *   FUNCTION_CACHE_PERSIST=true
+ *
+ * Only tools with cacheTtlSeconds in the tool registry are cached. A shop's
+ * entries are dropped when its products/* or inventory_levels/update
+ * webhooks arrive; other instances' memory tiers expire on their TTL.
+ */
+
+export interface FunctionCacheMetrics {
+  hits: { memory: number; postgres: number };
+  misses: number;
+  sets: number;
+  evictions: number;
+  invalidations: number;
+  /** hits / lookups, 0 when nothing has been looked up yet */
+  hitRate: number;
+  entries: number;
+}
+
+interface CacheEntry {
+  shopId: string;
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Parameters with strings trimmed and lowercased and keys sorted, so
+ * "Blue Shirt " and "blue shirt" share an entry
+ */
+function normalizeParams(value: unknown): unknown {
+  if (typeof value === 'string') return value.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (Array.isArray(value)) return value.map(normalizeParams);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .map(key => [key, normalizeParams((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+export function buildCacheKey(shopId: string, tool: string, params: unknown): string {
+  return `${shopId}:${tool}:${JSON.stringify(normalizeParams(params))}`;
+}
+
+class FunctionCache {
+  // Map iteration order is insertion order: the first key is least recently used
+  private store: Map<string, CacheEntry> = new Map();
+  private counters = { memoryHits: 0, postgresHits: 0, misses: 0, sets: 0, evictions: 0, invalidations: 0 };
+
+  constructor(private maxEntries: number) {}
+
+  private persistEnabled(): boolean {
+    return process.env.FUNCTION_CACHE_PERSIST === 'true';
+  }
+
+  private remember(key: string, entry: CacheEntry): void {
+    this.store.delete(key);
+    this.store.set(key, entry);
+
+    while (this.store.size > this.maxEntries) {
+      const oldest = this.store.keys().next().value as string;
+      this.store.delete(oldest);
+      this.counters.evictions++;
+    }
+  }
+
+  async get(shopId: string, tool: string, params: unknown): Promise<unknown | null> {
+    const key = buildCacheKey(shopId, tool, params);
+    const entry = this.store.get(key);
+
+    if (entry && entry.expiresAt > Date.now()) {
+      this.remember(key, entry);
+      this.counters.memoryHits++;
+      return entry.value;
+    }
+    if (entry) this.store.delete(key);
+
+    if (this.persistEnabled()) {
+      try {
+        const stored = await getFunctionCacheEntry(shopId, key);
+        if (stored) {
+          this.remember(key, { shopId, value: stored.result, expiresAt: new Date(stored.expiresAt).getTime() });
+          this.counters.postgresHits++;
+          return stored.result;
+        }
+      } catch (error) {
+        logError(error, { context: 'function_cache_get', shopId, tool });
+      }
+    }
+
+    this.counters.misses++;
+    return null;
+  }
+
+  async set(shopId: string, tool: string, params: unknown, value: unknown, ttlSeconds: number): Promise<void> {
+    const key = buildCacheKey(shopId, tool, params);
+    const expiresAt = Date.now() + ttlSeconds * 1000;
+
+    this.remember(key, { shopId, value, expiresAt });
+    this.counters.sets++;
+
+    if (this.persistEnabled()) {
+      try {
+        await setFunctionCacheEntry(shopId, key, {
+          tool,
+          result: value,
+          expiresAt: new Date(expiresAt).toISOString(),
+        });
+      } catch (error) {
+        logError(error, { context: 'function_cache_set', shopId, tool });
+      }
+    }
+  }
+
+  /**
+   * Drop every cached result for a shop, e.g. after its catalog changed
+   */
+  async invalidateShop(shopId: string): Promise<void> {
+    for (const [key, entry] of this.store.entries()) {
+      if (entry.shopId === shopId) this.store.delete(key);
+    }
+    this.counters.invalidations++;
+
+    if (this.persistEnabled()) {
+      try {
+        await deleteFunctionCacheEntries(shopId);
+      } catch (error) {
+        logError(error, { context: 'function_cache_invalidate', shopId });
+      }
+    }
+  }
+
+  getMetrics(): FunctionCacheMetrics {
+    const { memoryHits, postgresHits, misses, sets, evictions, invalidations } = this.counters;
+    const hits = memoryHits + postgresHits;
+    const lookups = hits + misses;
+
+    return {
+      hits: { memory: memoryHits, postgres: postgresHits },
+      misses,
+      sets,
+      evictions,
+      invalidations,
+      hitRate: lookups > 0 ? Math.round((hits / lookups) * 1000) / 1000 : 0,
+      entries: this.store.size,
+    };
+  }
+}
+
+export const functionCache = new FunctionCache(1000);
+
+export function getFunctionCacheMetrics(): FunctionCacheMetrics {
+  return functionCache.getMetrics();
+}
@@ -1,4 +1,177 @@
-export async function logFunctionCall() {}
-export async function getFunctionPerformance() {
-  return {};
+import { createFunctionCallLog, getFunctionCallLogs, type FunctionCallLog } from '../supabase/db';
+import { logError } from '../utils/errors';
+
+/**
+ * Function Call Logging
+ *
+ * One function_calls row per tool invocation, and the aggregates behind the
+ * tool performance dashboard.
+ */
+
+export interface FunctionCallEntry {
+  shopId: string;
+  vapiCallId?: string | null;
+  tool: string;
+  parameters: unknown;
+  result: unknown;
+  latencyMs: number;
+  errorCode?: string | null;
+  cacheHit?: boolean;
+  /** Actual Shopify GraphQL query cost spent by the call */
+  queryCost?: number;
+}
+
+export interface ToolPerformance {
+  tool: string;
+  calls: number;
+  errors: number;
+  errorRate: number;
+  cacheHitRate: number;
+  p50LatencyMs: number;
+  p95LatencyMs: number;
+  avgResultBytes: number;
+  /** Shopify GraphQL cost points per call, over calls that recorded it */
+  avgQueryCost: number;
+  totalQueryCost: number;
+  errorCodes: Record<string, number>;
+}
+
+export interface FunctionPerformance {
+  since: string;
+  totalCalls: number;
+  /** Calls logged in the window may be capped; true when the cap was hit */
+  truncated: boolean;
+  overall: Omit<ToolPerformance, 'tool' | 'errorCodes'>;
+  tools: ToolPerformance[];
+  topQueries: Array<{ tool: string; query: string; count: number }>;
+}
+
+/**
+ * Parameter keys holding caller contact details, masked before logging
+ */
+const SENSITIVE_PARAMETERS = new Set(['phone', 'email']);
+
+/**
+ * Rows fetched for one aggregation; enough for a busy shop's week
+ */
+const PERFORMANCE_LOG_LIMIT = 5000;
+
+function maskParameters(parameters: unknown): Record<string, unknown> {
+  if (!parameters || typeof parameters !== 'object' || Array.isArray(parameters)) return {};
+
+  return Object.fromEntries(
+    Object.entries(parameters as Record<string, unknown>).map(([key, value]) => [
+      key,
+      SENSITIVE_PARAMETERS.has(key) && value ? '[redacted]' : value,
+    ])
+  );
+}
+
+/**
+ * Record one tool invocation
+ * Never throws - logging must not affect the caller's conversation.
+ */
+export async function logFunctionCall(entry: FunctionCallEntry): Promise<void> {
+  try {
+    await createFunctionCallLog({
+      shop_id: entry.shopId,
+      vapi_call_id: entry.vapiCallId ?? null,
+      tool: entry.tool,
+      parameters: maskParameters(entry.parameters),
+      result_bytes: Buffer.byteLength(JSON.stringify(entry.result ?? null), 'utf8'),
+      latency_ms: Math.round(entry.latencyMs),
+      error_code: entry.errorCode ?? null,
+      cache_hit: entry.cacheHit ?? false,
+      query_cost: Math.round(entry.queryCost ?? 0),
+    });
+  } catch (error) {
+    logError(error, { context: 'logFunctionCall', shopId: entry.shopId, tool: entry.tool });
+  }
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
+
+function ratio(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0;
+}
+
+function summarize(logs: FunctionCallLog[]): Omit<ToolPerformance, 'tool' | 'errorCodes'> {
+  const latencies = logs.map(log => log.latency_ms).sort((a, b) => a - b);
+  const errors = logs.filter(log => log.error_code).length;
+  const bytes = logs.reduce((total, log) => total + log.result_bytes, 0);
+  const costs = logs.flatMap(log => (log.query_cost === null ? [] : [log.query_cost]));
+  const totalQueryCost = costs.reduce((total, cost) => total + cost, 0);
+
+  return {
+    calls: logs.length,
+    errors,
+    errorRate: ratio(errors, logs.length),
+    cacheHitRate: ratio(logs.filter(log => log.cache_hit).length, logs.length),
+    p50LatencyMs: percentile(latencies, 50),
+    p95LatencyMs: percentile(latencies, 95),
+    avgResultBytes: logs.length > 0 ? Math.round(bytes / logs.length) : 0,
+    avgQueryCost: costs.length > 0 ? Math.round((totalQueryCost / costs.length) * 10) / 10 : 0,
+    totalQueryCost,
+  };
+}
+
+/**
+ * Latency, error, cache and Shopify query cost figures per tool plus the
+ * most asked-for queries
+ */
+export async function getFunctionPerformance(
+  shopId: string,
+  options: { days?: number; topQueries?: number } = {}
+): Promise<FunctionPerformance> {
+  const days = options.days ?? 7;
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const logs = await getFunctionCallLogs(shopId, since, PERFORMANCE_LOG_LIMIT);
+
+  const byTool = new Map<string, FunctionCallLog[]>();
+  for (const log of logs) {
+    byTool.set(log.tool, [...(byTool.get(log.tool) ?? []), log]);
+  }
+
+  const tools = Array.from(byTool.entries())
+    .map(([tool, toolLogs]) => {
+      const errorCodes: Record<string, number> = {};
+      for (const log of toolLogs) {
+        if (log.error_code) errorCodes[log.error_code] = (errorCodes[log.error_code] ?? 0) + 1;
+      }
+      return { tool, ...summarize(toolLogs), errorCodes };
+    })
+    .sort((a, b) => b.calls - a.calls);
+
+  const queryCounts = new Map<string, { tool: string; query: string; count: number }>();
+  for (const log of logs) {
+    const query = log.parameters.query;
+    if (typeof query !== 'string' || !query.trim()) continue;
+
+    const normalized = query.trim().toLowerCase();
+    const key = `${log.tool}:${normalized}`;
+    const current = queryCounts.get(key) ?? { tool: log.tool, query: normalized, count: 0 };
+    queryCounts.set(key, { ...current, count: current.count + 1 });
+  }
+
+  return {
+    since,
+    totalCalls: logs.length,
+    truncated: logs.length >= PERFORMANCE_LOG_LIMIT,
+    overall: summarize(logs),
+    tools,
+    topQueries: Array.from(queryCounts.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, options.topQueries ?? 10),
+  };
 }
@@ -1,6 +1,508 @@
+import {
+  createCallAction,
+  getCallActions,
+  upsertCallByVapiId,
+  type CallAction,
+  type Product,
+} from '../supabase/db';
+import { getProducts, searchProducts, type MoneyV2, type ProductNode } from '../shopify/admin-graphql';
+import { findVerifiedOrder, formatOrderStatusForVoice, normalizeOrderName } from '../shopify/orders';
+import { findProductAvailability, formatAvailabilityForVoice } from '../shopify/inventory';
+import { extractShopifyProductId } from '../shopify/products';
+import { noteProductInterest, searchLocalProducts } from '../product-search';
+import {
+  DEFAULT_PRICE_FORMAT,
+  formatPrice,
+  formatPriceForSpeech,
+  resolveCountryCode,
+  type PriceFormat,
+} from '../pricing';
+import { getTransferSettings, getVoicemailMessage, resolveTransferDestination } from '../call-transfer';
+import type {
+  CheckAvailabilityParams,
+  CheckOrderStatusParams,
+  GetProductsParams,
+  SearchProductsParams,
+  TransferCallParams,
+} from '../validations';
+import { logError } from '../utils/errors';
+
 export interface FunctionCallResponse {
   result: {
     success: boolean;
     message: string;
   };
 }
+
+/**
+ * Shop and call context a function handler runs with
+ */
+export interface FunctionCallContext {
+  shopId: string;
+  shopDomain: string;
+  accessToken: string;
+  timezone?: string;
+  /** Shop currency and locale prices are quoted in (shops.currency, shops.locale) */
+  currency?: string;
+  locale?: string;
+  /** shops.settings, for merchant-configured behaviour such as transfers */
+  settings?: Record<string, unknown>;
+  /** Vapi call ID, used to attach call_actions rows */
+  vapiCallId?: string | null;
+  /** Caller ID from the phone network */
+  callerPhone?: string | null;
+}
+
+/**
+ * Extract the Vapi call ID and caller number from a tool-call payload
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function extractCallContext(body: any): Pick<FunctionCallContext, 'vapiCallId' | 'callerPhone'> {
+  const call = body?.message?.call || body?.call;
+  return {
+    vapiCallId: call?.id || null,
+    callerPhone: call?.customer?.number || body?.message?.customer?.number || null,
+  };
+}
+
+/**
+ * Top-level response fields Vapi reads to perform a transfer
+ * Empty unless the handler result carries a transfer destination.
+ */
+export function transferResponseFields(result: unknown): Record<string, unknown> {
+  if (!result || typeof result !== 'object' || !('destination' in result)) return {};
+
+  const { destination, forwardingPhoneNumber } = result as Record<string, unknown>;
+  return { destination, forwardingPhoneNumber };
+}
+
+/**
+ * Record a call_actions row for a function call
+ * Failures are logged, never thrown - the caller is still on the line.
+ */
+export async function recordFunctionAction(
+  ctx: FunctionCallContext,
+  actionType: CallAction['action_type'],
+  actionData: Record<string, unknown>,
+  success: boolean
+): Promise<void> {
+  if (!ctx.vapiCallId) return;
+
+  try {
+    const call = await upsertCallByVapiId(ctx.shopId, ctx.vapiCallId, {});
+    await createCallAction(call.id, actionType, actionData, success);
+  } catch (error) {
+    logError(error, { context: 'recordFunctionAction', actionType, vapiCallId: ctx.vapiCallId });
+  }
+}
+
+/**
+ * Count failed actions of one type so far on this call
+ */
+async function countFailedActions(
+  ctx: FunctionCallContext,
+  actionType: CallAction['action_type']
+): Promise<number> {
+  if (!ctx.vapiCallId) return 0;
+
+  try {
+    const call = await upsertCallByVapiId(ctx.shopId, ctx.vapiCallId, {});
+    const actions = await getCallActions(call.id);
+    return actions.filter(action => action.action_type === actionType && !action.success).length;
+  } catch (error) {
+    logError(error, { context: 'countFailedActions', actionType, vapiCallId: ctx.vapiCallId });
+    return 0;
+  }
+}
+
+/**
+ * Whether repeated lookup failures have hit the merchant's escalation threshold
+ */
+async function shouldOfferTransferAfterLookup(ctx: FunctionCallContext): Promise<boolean> {
+  const settings = getTransferSettings(ctx.settings);
+  const threshold = settings.escalation_triggers.failed_order_lookups;
+  if (!settings.enabled || !threshold) return false;
+
+  return (await countFailedActions(ctx, 'order_lookup')) >= threshold;
+}
+
+// ============================================================================
+// search_products / get_products
+// ============================================================================
+
+function priceFormat(ctx: FunctionCallContext): PriceFormat {
+  return {
+    currency: ctx.currency || DEFAULT_PRICE_FORMAT.currency,
+    locale: ctx.locale || DEFAULT_PRICE_FORMAT.locale,
+  };
+}
+
+/**
+ * ISO code for the country a caller named, when Shopify Markets prices apply
+ */
+function marketCountry(country: string | undefined): string | undefined {
+  return (country && resolveCountryCode(country)) || undefined;
+}
+
+/**
+ * The Markets price for the requested country, or the shop price
+ */
+function productPrice(product: ProductNode): MoneyV2 {
+  return product.contextualPricing?.minVariantPricing?.price ?? product.priceRange.minVariantPrice;
+}
+
+function formatProduct(product: ProductNode, format: PriceFormat) {
+  const price = productPrice(product);
+  return {
+    title: product.title,
+    price: price.amount,
+    currency: price.currencyCode,
+    displayPrice: formatPrice(Number(price.amount), price.currencyCode, format.locale),
+    available: product.availableForSale,
+    handle: product.handle,
+    variants: product.variants.edges.map(({ node: variant }) => {
+      const variantPrice = variant.contextualPricing?.price ?? variant.price;
+      return {
+        title: variant.title,
+        price: variantPrice.amount,
+        currency: variantPrice.currencyCode,
+        available: variant.availableForSale,
+      };
+    }),
+  };
+}
+
+/**
+ * One sentence per product, e.g. "Classic Tee, twenty-five dollars, in stock"
+ */
+function describeProductsForVoice(products: ProductNode[], format: PriceFormat): string {
+  return products
+    .map(product => {
+      const { amount, currencyCode } = productPrice(product);
+      const availability = product.availableForSale ? 'in stock' : 'currently sold out';
+      return `${product.title}, ${formatPriceForSpeech(Number(amount), currencyCode, format)}, ${availability}`;
+    })
+    .join('. ');
+}
+
+/**
+ * A product from the local search index, in formatProduct's shape
+ * Synced stock isn't reliable enough to quote, so availability is left out.
+ */
+function formatLocalProduct(product: Product, format: PriceFormat) {
+  return {
+    title: product.title,
+    price: product.price !== null ? String(product.price) : null,
+    currency: product.currency,
+    displayPrice: product.price !== null ? formatPrice(product.price, product.currency, format.locale) : null,
+    handle: typeof product.variants?.handle === 'string' ? product.variants.handle : null,
+  };
+}
+
+function describeLocalProductsForVoice(products: Product[], format: PriceFormat): string {
+  return products
+    .map(product =>
+      product.price !== null
+        ? `${product.title}, ${formatPriceForSpeech(product.price, product.currency, format)}`
+        : product.title
+    )
+    .join('. ');
+}
+
+/**
+ * Search the catalog by keyword
+ * Falls back to the local fuzzy index (src/lib/product-search.ts) when
+ * Shopify's search finds nothing, e.g. for misheard or misspelled names.
+ */
+export async function handleSearchProducts(parameters: SearchProductsParams, ctx: FunctionCallContext) {
+  try {
+    console.log(`[search_products] Searching for "${parameters.query}" in ${ctx.shopDomain}`);
+
+    const format = priceFormat(ctx);
+    const products = await searchProducts({
+      shopDomain: ctx.shopDomain,
+      accessToken: ctx.accessToken,
+      query: parameters.query,
+      limit: parameters.limit,
+      country: marketCountry(parameters.country),
+    });
+
+    if (products.length > 0) {
+      void noteProductInterest(ctx.shopId, [extractShopifyProductId(products[0].id)]);
+
+      return {
+        products: products.map(product => formatProduct(product, format)),
+        count: products.length,
+        query: parameters.query,
+        message: `I found ${products.length} matching product${products.length === 1 ? '' : 's'}: ${describeProductsForVoice(products, format)}.`,
+      };
+    }
+
+    const hits = await searchLocalProducts(ctx.shopId, parameters.query, parameters.limit);
+    if (hits.length > 0) {
+      const matches = hits.map(hit => hit.product);
+      void noteProductInterest(ctx.shopId, [matches[0].shopify_product_id]);
+
+      return {
+        products: matches.map(product => formatLocalProduct(product, format)),
+        count: matches.length,
+        query: parameters.query,
+        source: 'local_index',
+        message: `I didn't find an exact match, but these sound close: ${describeLocalProductsForVoice(matches, format)}. Confirm which one the caller means, then check availability if they ask about stock.`,
+      };
+    }
+
+    return {
+      products: [],
+      count: 0,
+      query: parameters.query,
+      message: `I couldn't find any products matching "${parameters.query}". Ask the caller to describe it another way.`,
+    };
+  } catch (error) {
+    logError(error, { context: 'search_products', shopDomain: ctx.shopDomain });
+    return {
+      error: 'Failed to search products',
+      message: "I'm having trouble searching the catalog right now. Offer to have a team member follow up.",
+    };
+  }
+}
+
+/**
+ * List products from the catalog
+ */
+export async function handleGetProducts(parameters: GetProductsParams, ctx: FunctionCallContext) {
+  try {
+    const format = priceFormat(ctx);
+    const products = await getProducts({
+      shopDomain: ctx.shopDomain,
+      accessToken: ctx.accessToken,
+      limit: parameters.limit,
+      country: marketCountry(parameters.country),
+    });
+
+    return {
+      products: products.map(product => formatProduct(product, format)),
+      count: products.length,
+      message:
+        products.length > 0
+          ? `Here are some of our products: ${describeProductsForVoice(products, format)}.`
+          : "The store doesn't have any products listed right now.",
+    };
+  } catch (error) {
+    logError(error, { context: 'get_products', shopDomain: ctx.shopDomain });
+    return {
+      error: 'Failed to fetch products',
+      message: "I'm having trouble looking at the catalog right now. Offer to have a team member follow up.",
+    };
+  }
+}
+
+// ============================================================================
+// check_availability
+// ============================================================================
+
+/**
+ * Whether a product comes in the color, size or other options the caller
+ * asked for, and how much of each matching variant is in stock
+ */
+export async function handleCheckAvailability(parameters: CheckAvailabilityParams, ctx: FunctionCallContext) {
+  const requested = { color: parameters.color, size: parameters.size, options: parameters.options };
+
+  try {
+    console.log(`[check_availability] Checking "${parameters.product}" in ${ctx.shopDomain}`);
+
+    const lookup = (product: string) =>
+      findProductAvailability({ shopDomain: ctx.shopDomain, accessToken: ctx.accessToken, product, requested });
+
+    let availability = await lookup(parameters.product);
+
+    // Misheard names: retry with the closest product title from the local index
+    if (!availability) {
+      const [closest] = await searchLocalProducts(ctx.shopId, parameters.product, 1);
+      if (closest) availability = await lookup(closest.product.title);
+    }
+
+    if (!availability) {
+      return {
+        found: false,
+        message: `I couldn't find a product called "${parameters.product}". Ask the caller to describe it another way.`,
+      };
+    }
+
+    void noteProductInterest(ctx.shopId, [extractShopifyProductId(availability.product.id)]);
+
+    return {
+      found: true,
+      product: availability.product.title,
+      unmatched: availability.unmatched,
+      offered: availability.offered,
+      variants: availability.variants.map(variant => ({
+        title: variant.title,
+        options: variant.options,
+        status: variant.status,
+        quantity: variant.quantity,
+        locations: variant.locations,
+      })),
+      message: formatAvailabilityForVoice(availability, requested),
+    };
+  } catch (error) {
+    logError(error, { context: 'check_availability', shopDomain: ctx.shopDomain });
+    return {
+      error: 'Failed to check availability',
+      message: "I'm having trouble checking stock right now. Offer to have a team member follow up.",
+    };
+  }
+}
+
+// ============================================================================
+// check_order_status
+// ============================================================================
+
+/**
+ * Look up an order by number for a caller who can verify it
+ * The caller must give the phone number or email on the order; caller ID is
+ * used when they give neither.
+ */
+export async function handleCheckOrderStatus(parameters: CheckOrderStatusParams, ctx: FunctionCallContext) {
+  const orderNumber = parameters.orderId;
+  const email = parameters.email || null;
+  const phone = parameters.phone || null;
+
+  if (!orderNumber) {
+    return {
+      found: false,
+      message: 'Ask the caller for their order number. It starts with a pound sign on the confirmation email.',
+    };
+  }
+
+  const verification = email || phone ? { email, phone } : { phone: ctx.callerPhone };
+  const verifiedBy = email ? 'email' : phone ? 'phone' : 'caller_id';
+
+  if (!verification.email && !verification.phone) {
+    return {
+      found: false,
+      needsVerification: true,
+      message: 'Ask the caller for the phone number or email address used on the order.',
+    };
+  }
+
+  const orderName = normalizeOrderName(orderNumber);
+
+  try {
+    console.log(`[check_order_status] Looking up ${orderName} for ${ctx.shopDomain}`);
+
+    const order = await findVerifiedOrder({
+      shopDomain: ctx.shopDomain,
+      accessToken: ctx.accessToken,
+      orderNumber,
+      verification,
+    });
+
+    if (!order) {
+      await recordFunctionAction(ctx, 'order_lookup', { orderName, verifiedBy, found: false }, false);
+
+      if (await shouldOfferTransferAfterLookup(ctx)) {
+        return {
+          found: false,
+          suggestTransfer: true,
+          message: `I still couldn't find order ${orderName}. Offer to transfer the caller to a team member.`,
+        };
+      }
+
+      return {
+        found: false,
+        message:
+          verifiedBy === 'caller_id'
+            ? `I couldn't match order ${orderName} to the number you're calling from. Ask for the email or phone number used on the order.`
+            : `I couldn't find order ${orderName} with those details. Ask the caller to double-check the order number and contact details.`,
+      };
+    }
+
+    const status = formatOrderStatusForVoice(order, ctx.timezone);
+    await recordFunctionAction(
+      ctx,
+      'order_lookup',
+      { orderName: status.orderName, verifiedBy, found: true, status: status.status },
+      true
+    );
+
+    return { found: true, ...status };
+  } catch (error) {
+    logError(error, { context: 'check_order_status', shopDomain: ctx.shopDomain, orderName });
+    await recordFunctionAction(ctx, 'order_lookup', { orderName, verifiedBy, error: true }, false);
+
+    return {
+      error: 'Failed to check order status',
+      message: "I'm having trouble looking up orders right now. Offer to have a team member follow up.",
+    };
+  }
+}
+
+// ============================================================================
+// transfer_call
+// ============================================================================
+
+/**
+ * Transfer the caller to the merchant's team
+ * Routes to the first open destination (preferring the requested department)
+ * and falls back to taking a voicemail-style message when nobody is available.
+ * A successful transfer marks the call as escalated.
+ */
+export async function handleTransferCall(parameters: TransferCallParams, ctx: FunctionCallContext) {
+  const reason = parameters.reason || null;
+  const department = parameters.department || null;
+
+  const settings = getTransferSettings(ctx.settings);
+  const routing = resolveTransferDestination(settings, {
+    department,
+    timeZone: ctx.timezone || 'UTC',
+  });
+
+  if (!routing.available) {
+    console.log(`[transfer_call] No destination for ${ctx.shopDomain}: ${routing.reason}`);
+    await recordFunctionAction(
+      ctx,
+      'transfer_attempt',
+      { reason, department, outcome: routing.reason },
+      false
+    );
+
+    return {
+      transferred: false,
+      voicemail: true,
+      message: getVoicemailMessage(settings),
+    };
+  }
+
+  const { destination } = routing;
+  console.log(`[transfer_call] Transferring ${ctx.shopDomain} call to ${destination.label}`);
+
+  await recordFunctionAction(
+    ctx,
+    'transfer_attempt',
+    { reason, department, destinationId: destination.id, destinationLabel: destination.label },
+    true
+  );
+
+  if (ctx.vapiCallId) {
+    try {
+      await upsertCallByVapiId(ctx.shopId, ctx.vapiCallId, { resolution_status: 'escalated' });
+    } catch (error) {
+      logError(error, { context: 'transfer_call:escalate', vapiCallId: ctx.vapiCallId });
+    }
+  }
+
+  const spokenMessage = `Please hold while I connect you with ${destination.label}.`;
+
+  return {
+    transferred: true,
+    message: spokenMessage,
+    // Vapi reads the transfer target from these fields in the response
+    destination: {
+      type: 'number',
+      number: destination.phone_number,
+      message: spokenMessage,
+    },
+    forwardingPhoneNumber: destination.phone_number,
+  };
+}
@@ -0,0 +1,229 @@
+import type { Product } from '../supabase/db';
+import { describeEscalationRules } from '../call-transfer';
+import { DEFAULT_PRICE_FORMAT, formatPrice } from '../pricing';
+import { describeVapiToolsForPrompt } from './tools';
+import {
+  receptionistPersonaSchema,
+  type PersonaTone,
+  type ReceptionistPersona,
+  type TransferSettings,
+} from '../validations';
+
+/**
+ * Assistant Prompt Compiler
+ *
+ * Builds the assistant's system prompt from sections: the fixed role, tool
+ * and product sections, plus the parts the merchant edits in their persona
+ * (tone, store policies, FAQs, forbidden topics). An empty persona compiles
+ * to the standard receptionist. The greeting becomes the assistant's first
+ * message.
+ */
+
+export interface PromptContext {
+  shopName: string;
+  products: Product[];
+  /** Locale prices are written in (shops.locale) */
+  locale?: string;
+  hoursOfOperation?: string;
+  transferSettings?: TransferSettings;
+  persona?: ReceptionistPersona;
+}
+
+export interface PromptSection {
+  id: string;
+  /** Heading line, e.g. "Store Policies"; null for untitled sections */
+  title: string | null;
+  body: string;
+}
+
+export interface CompiledPrompt {
+  sections: PromptSection[];
+  systemPrompt: string;
+  firstMessage: string;
+}
+
+export const DEFAULT_GREETING = 'Hi! Thanks for calling {shop_name}. How can I help you today?';
+
+const PROMPT_PRODUCT_LIMIT = 20;
+
+const TONE_GUIDANCE: Record<PersonaTone, { role: string; guideline: string }> = {
+  friendly: {
+    role: 'Be warm, friendly, and concise',
+    guideline: 'Use a conversational, professional tone',
+  },
+  professional: {
+    role: 'Be courteous, polished, and concise',
+    guideline: 'Use a formal, businesslike tone',
+  },
+  casual: {
+    role: 'Be relaxed, approachable, and concise',
+    guideline: 'Keep it light and informal, like a helpful shop assistant',
+  },
+  enthusiastic: {
+    role: 'Be upbeat, energetic, and concise',
+    guideline: 'Show real excitement about the products without overselling',
+  },
+};
+
+const POLICY_LABELS: Record<keyof ReceptionistPersona['policies'], string> = {
+  returns: 'Returns',
+  shipping: 'Shipping',
+  warranty: 'Warranty',
+};
+
+function bulletList(lines: string[]): string {
+  return lines.map(line => `- ${line}`).join('\n');
+}
+
+/**
+ * Read a stored persona (receptionist_persona_versions.persona)
+ * Invalid personas fall back to defaults rather than failing the assistant.
+ */
+export function parsePersona(persona: Record<string, unknown> | null | undefined): ReceptionistPersona {
+  const parsed = receptionistPersonaSchema.safeParse(persona ?? {});
+
+  if (!parsed.success) {
+    console.warn('[Prompt] Invalid persona, using defaults:', parsed.error.issues);
+    return receptionistPersonaSchema.parse({});
+  }
+
+  return parsed.data;
+}
+
+/**
+ * The persona's greeting with the store name filled in
+ */
+export function renderGreeting(persona: ReceptionistPersona, shopName: string): string {
+  return (persona.greeting || DEFAULT_GREETING).replace(/\{shop_name\}/g, shopName);
+}
+
+/**
+ * The prompt's sections, in order; sections with nothing to say are left out
+ */
+export function buildPromptSections(context: PromptContext): PromptSection[] {
+  const { shopName, products, hoursOfOperation, transferSettings } = context;
+  const persona = context.persona ?? receptionistPersonaSchema.parse({});
+  const locale = context.locale || DEFAULT_PRICE_FORMAT.locale;
+  const tone = TONE_GUIDANCE[persona.tone];
+
+  const topProducts = products.slice(0, PROMPT_PRODUCT_LIMIT);
+  const productList = topProducts
+    .map((p, idx) => {
+      const price = p.price !== null ? formatPrice(p.price, p.currency, locale) : 'Contact for pricing';
+      return `${idx + 1}. ${p.title} - ${price}`;
+    })
+    .join('\n');
+
+  const sections: PromptSection[] = [
+    {
+      id: 'identity',
+      title: null,
+      body: `You are a professional phone receptionist for ${shopName}.`,
+    },
+    {
+      id: 'role',
+      title: 'Your role',
+      body: bulletList([
+        'Answer customer inquiries about products and orders',
+        tone.role,
+        'Handle calls professionally and efficiently',
+        'Available to help customers during business hours',
+      ]),
+    },
+    {
+      id: 'guidelines',
+      title: 'Conversation Guidelines',
+      body: bulletList([
+        'Keep responses brief and natural (under 30 seconds)',
+        tone.guideline,
+        'Ask clarifying questions if needed',
+        'Transfer complex issues to human staff when needed',
+        'Always be honest about product information',
+        'Say prices the way a person would, e.g. "twenty-four ninety-nine". Function results already phrase them this way.',
+      ]),
+    },
+    {
+      id: 'products',
+      title: `Available Products (${topProducts.length} most popular)`,
+      body: productList,
+    },
+    {
+      id: 'functions',
+      title: 'You have access to these functions',
+      // Generated from the tool registry so it matches the tools the assistant has
+      body: describeVapiToolsForPrompt(),
+    },
+    {
+      id: 'example',
+      title: 'Example Conversation',
+      body: [
+        'Customer: "Do you have the blue shirt in size M?"',
+        'You: (calls check_availability with product "shirt", color "blue", size "M") "Yes, the blue shirt is in stock in medium. Is there anything else I can help with?"',
+      ].join('\n'),
+    },
+  ];
+
+  const policies = (Object.keys(POLICY_LABELS) as Array<keyof typeof POLICY_LABELS>)
+    .filter(key => persona.policies[key])
+    .map(key => `${POLICY_LABELS[key]}: ${persona.policies[key]}`);
+
+  if (policies.length > 0) {
+    sections.push({
+      id: 'policies',
+      title: 'Store Policies',
+      body: [
+        ...policies,
+        "Answer policy questions from these only. If something isn't covered, offer to connect the caller with a team member.",
+      ].join('\n'),
+    });
+  }
+
+  if (persona.faqs.length > 0) {
+    sections.push({
+      id: 'faqs',
+      title: 'Frequently Asked Questions',
+      body: persona.faqs.map(faq => `Q: ${faq.question}\nA: ${faq.answer}`).join('\n\n'),
+    });
+  }
+
+  const important = [
+    "Don't mention being an AI unless directly asked",
+    "Don't make up product information - use available products only",
+    'If unsure, offer to connect them with a team member',
+    'Always ask how you can help at the start of the call',
+  ];
+  if (persona.forbidden_topics.length > 0) {
+    important.push(
+      `Never discuss: ${persona.forbidden_topics.join(', ')}. If the caller brings these up, politely say you can't help with that.`
+    );
+  }
+
+  sections.push({ id: 'important', title: 'Important', body: bulletList(important) });
+
+  if (hoursOfOperation) {
+    sections.push({ id: 'hours', title: 'Business Hours', body: hoursOfOperation });
+  }
+
+  const escalationRules = transferSettings ? describeEscalationRules(transferSettings) : '';
+  if (escalationRules) {
+    sections.push({ id: 'transfers', title: null, body: escalationRules });
+  }
+
+  return sections;
+}
+
+/**
+ * Compile the system prompt and first message for an assistant
+ */
+export function compilePrompt(context: PromptContext): CompiledPrompt {
+  const sections = buildPromptSections(context);
+  const persona = context.persona ?? receptionistPersonaSchema.parse({});
+
+  return {
+    sections,
+    systemPrompt: sections
+      .map(section => (section.title ? `${section.title}:\n${section.body}` : section.body))
+      .join('\n\n'),
+    firstMessage: renderGreeting(persona, context.shopName),
+  };
+}
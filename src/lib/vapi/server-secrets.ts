@@ -0,0 +1,87 @@
+import { updateShop, type Shop } from '../supabase/db';
+import { updateAssistantServerSecret } from '../vapi';
+import { ValidationError } from '../utils/errors';
+import { generateServerSecret, hashServerSecret, type VapiVerificationOptions } from './signature';
+
+/**
+ * Hours the replaced secret keeps working after a rotation
+ * Covers calls already in progress with the old assistant configuration.
+ */
+export const SERVER_SECRET_GRACE_PERIOD_HOURS = 24;
+
+type ShopSecretFields = Pick<
+  Shop,
+  'vapi_server_secret_hash' | 'vapi_previous_server_secret_hash' | 'vapi_previous_server_secret_expires_at'
+>;
+
+/**
+ * Secrets a Vapi request for this shop may carry
+ *
+ * Shops with a per-shop secret accept its hash (plus the previous one during
+ * the grace period) and the app-wide HMAC secret. Shops provisioned before
+ * per-shop secrets, and requests no shop could be resolved for, fall back to
+ * the app-wide secrets.
+ */
+export function getShopVerificationOptions(
+  shop: ShopSecretFields | null,
+  now = new Date()
+): Pick<VapiVerificationOptions, 'secrets' | 'secretHashes'> {
+  if (!shop?.vapi_server_secret_hash) return {};
+
+  const secretHashes = [shop.vapi_server_secret_hash];
+  const previousExpiresAt = shop.vapi_previous_server_secret_expires_at;
+  if (
+    shop.vapi_previous_server_secret_hash &&
+    previousExpiresAt &&
+    new Date(previousExpiresAt).getTime() > now.getTime()
+  ) {
+    secretHashes.push(shop.vapi_previous_server_secret_hash);
+  }
+
+  const secrets = process.env.VAPI_WEBHOOK_SECRET ? [process.env.VAPI_WEBHOOK_SECRET] : [];
+  return { secrets, secretHashes };
+}
+
+/**
+ * Give the shop's assistant a new server secret
+ *
+ * The new hash is stored first, with the old one kept for the grace period,
+ * so requests signed with either secret are accepted while Vapi switches
+ * over. A shop still on the legacy VAPI_API_KEY secret keeps accepting it
+ * for the grace period too. If Vapi rejects the update the stored hashes are
+ * put back.
+ */
+export async function rotateShopServerSecret(shop: Shop): Promise<Shop> {
+  if (!shop.vapi_assistant_id) {
+    throw new ValidationError('Shop has no provisioned assistant');
+  }
+
+  const now = new Date();
+  const { secret, hash } = generateServerSecret();
+  const previousHash =
+    shop.vapi_server_secret_hash ?? (process.env.VAPI_API_KEY ? hashServerSecret(process.env.VAPI_API_KEY) : null);
+
+  const rotated = await updateShop(shop.id, {
+    vapi_server_secret_hash: hash,
+    vapi_previous_server_secret_hash: previousHash,
+    vapi_previous_server_secret_expires_at: new Date(
+      now.getTime() + SERVER_SECRET_GRACE_PERIOD_HOURS * 60 * 60 * 1000
+    ).toISOString(),
+    vapi_server_secret_rotated_at: now.toISOString(),
+  });
+
+  try {
+    await updateAssistantServerSecret(shop.vapi_assistant_id, secret);
+  } catch (error) {
+    await updateShop(shop.id, {
+      vapi_server_secret_hash: shop.vapi_server_secret_hash,
+      vapi_previous_server_secret_hash: shop.vapi_previous_server_secret_hash,
+      vapi_previous_server_secret_expires_at: shop.vapi_previous_server_secret_expires_at,
+      vapi_server_secret_rotated_at: shop.vapi_server_secret_rotated_at,
+    });
+    throw error;
+  }
+
+  console.log(`[Vapi] Rotated server secret for ${shop.shop_domain}`);
+  return rotated;
+}
@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+
+/**
+ * Vapi Request Verification
+ *
+ * Vapi authenticates server messages in one of two ways:
+ * - HMAC: x-vapi-signature is a hex HMAC-SHA256 of "{x-vapi-timestamp}.{raw body}"
+ * - Server secret: the assistant's serverUrlSecret is sent as x-vapi-secret
+ *   (x-api-key and Authorization: Bearer are accepted for older assistants)
+ *
+ * Both are checked with timing-safe comparisons. Requests older than
+ * VAPI_SIGNATURE_TOLERANCE_MS are rejected as replays: the signed timestamp
+ * for HMAC, and the message timestamp for server secrets.
+ */
+
+export type VapiEndpoint = 'webhook' | 'functions';
+
+export type VapiRejectionReason =
+  | 'missing_credentials'
+  | 'invalid_signature'
+  | 'invalid_secret'
+  | 'stale_timestamp'
+  | 'not_configured';
+
+export interface VapiVerificationResult {
+  valid: boolean;
+  method?: 'hmac' | 'secret';
+  reason?: VapiRejectionReason;
+}
+
+export interface VapiVerificationOptions {
+  endpoint: VapiEndpoint;
+  /** Parsed body, used for the message timestamp when no signed timestamp is sent */
+  body?: unknown;
+  /** Accepted secrets; defaults to getVapiServerSecrets() */
+  secrets?: string[];
+  /** Accepted server secrets stored as hashServerSecret() hashes */
+  secretHashes?: string[];
+  now?: number;
+}
+
+/**
+ * How far a request timestamp may drift from the server clock
+ */
+export const VAPI_SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * App-wide secrets Vapi may sign or authenticate with
+ * VAPI_API_KEY is what assistants have been provisioned with as serverUrlSecret.
+ */
+export function getVapiServerSecrets(): string[] {
+  return [process.env.VAPI_WEBHOOK_SECRET, process.env.VAPI_API_KEY].filter(
+    (secret): secret is string => !!secret
+  );
+}
+
+// ============================================================================
+// Server Secrets
+// ============================================================================
+
+/**
+ * Hex SHA-256 of a server secret, as stored on the shop row
+ */
+export function hashServerSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret, 'utf8').digest('hex');
+}
+
+/**
+ * New random server secret for an assistant
+ */
+export function generateServerSecret(): { secret: string; hash: string } {
+  const secret = crypto.randomBytes(32).toString('base64url');
+  return { secret, hash: hashServerSecret(secret) };
+}
+
+// ============================================================================
+// Comparison Helpers
+// ============================================================================
+
+/**
+ * Constant-time string comparison
+ * Both sides are hashed first so differing lengths don't short-circuit.
+ */
+function safeEqual(a: string, b: string): boolean {
+  return hashesEqual(hashServerSecret(a), hashServerSecret(b));
+}
+
+function hashesEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a, 'utf8');
+  const right = Buffer.from(b, 'utf8');
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * Timestamp header or message timestamp in milliseconds
+ * Vapi sends seconds in headers and milliseconds in message bodies.
+ */
+function toMillis(value: unknown): number | null {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed) || parsed <= 0) return null;
+  return parsed < 1e12 ? parsed * 1000 : parsed;
+}
+
+function isFresh(timestampMs: number, now: number): boolean {
+  return Math.abs(now - timestampMs) <= VAPI_SIGNATURE_TOLERANCE_MS;
+}
+
+function getMessageTimestamp(body: unknown): number | null {
+  const message = (body as { message?: { timestamp?: unknown } } | null)?.message;
+  return toMillis(message?.timestamp);
+}
+
+function getPresentedSecret(headers: Headers): string | null {
+  const bearer = headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  return headers.get('x-vapi-secret') || headers.get('x-api-key') || bearer || null;
+}
+
+// ============================================================================
+// Rejection Metrics
+// ============================================================================
+
+export type VapiRejectionMetrics = Record<
+  VapiEndpoint,
+  { total: number; byReason: Partial<Record<VapiRejectionReason, number>> }
+>;
+
+const rejections: VapiRejectionMetrics = {
+  webhook: { total: 0, byReason: {} },
+  functions: { total: 0, byReason: {} },
+};
+
+function recordRejection(endpoint: VapiEndpoint, reason: VapiRejectionReason): VapiVerificationResult {
+  const counters = rejections[endpoint];
+  counters.total++;
+  counters.byReason[reason] = (counters.byReason[reason] ?? 0) + 1;
+
+  console.warn(`[Vapi Signature] Rejected ${endpoint} request: ${reason}`);
+  return { valid: false, reason };
+}
+
+/**
+ * Rejected Vapi requests per endpoint since this instance started
+ */
+export function getVapiRejectionMetrics(): VapiRejectionMetrics {
+  return {
+    webhook: { total: rejections.webhook.total, byReason: { ...rejections.webhook.byReason } },
+    functions: { total: rejections.functions.total, byReason: { ...rejections.functions.byReason } },
+  };
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Verify that a request came from Vapi
+ * Pass the raw body exactly as received - HMACs are computed over it. Every
+ * secret is compared, without short-circuiting, so timing doesn't reveal
+ * which one matched.
+ */
+export function verifyVapiRequest(
+  rawBody: string,
+  headers: Headers,
+  options: VapiVerificationOptions
+): VapiVerificationResult {
+  const { endpoint } = options;
+  const secrets = options.secrets ?? getVapiServerSecrets();
+  const secretHashes = options.secretHashes ?? [];
+  const now = options.now ?? Date.now();
+
+  if (secrets.length === 0 && secretHashes.length === 0) {
+    return recordRejection(endpoint, 'not_configured');
+  }
+
+  const signature = headers.get('x-vapi-signature');
+  if (signature) {
+    const timestamp = toMillis(headers.get('x-vapi-timestamp'));
+    if (timestamp === null || !isFresh(timestamp, now)) {
+      return recordRejection(endpoint, 'stale_timestamp');
+    }
+
+    const presented = signature.replace(/^sha256=/, '');
+    const signedPayload = `${headers.get('x-vapi-timestamp')}.${rawBody}`;
+    const matches = secrets
+      .map(secret =>
+        safeEqual(presented, crypto.createHmac('sha256', secret).update(signedPayload, 'utf8').digest('hex'))
+      )
+      .includes(true);
+
+    return matches ? { valid: true, method: 'hmac' } : recordRejection(endpoint, 'invalid_signature');
+  }
+
+  const presentedSecret = getPresentedSecret(headers);
+  if (!presentedSecret) {
+    return recordRejection(endpoint, 'missing_credentials');
+  }
+
+  const presentedHash = hashServerSecret(presentedSecret);
+  const matches = [
+    ...secrets.map(secret => safeEqual(presentedSecret, secret)),
+    ...secretHashes.map(hash => hashesEqual(presentedHash, hash)),
+  ].includes(true);
+  if (!matches) {
+    return recordRejection(endpoint, 'invalid_secret');
+  }
+
+  const messageTimestamp = getMessageTimestamp(options.body);
+  if (messageTimestamp !== null && !isFresh(messageTimestamp, now)) {
+    return recordRejection(endpoint, 'stale_timestamp');
+  }
+
+  return { valid: true, method: 'secret' };
+}
@@ -0,0 +1,446 @@
+import { z } from 'zod';
+import {
+  checkAvailabilityParamsSchema,
+  checkOrderStatusParamsSchema,
+  getProductsParamsSchema,
+  searchProductsParamsSchema,
+  transferCallParamsSchema,
+} from '../validations';
+import {
+  handleCheckAvailability,
+  handleCheckOrderStatus,
+  handleGetProducts,
+  handleSearchProducts,
+  handleTransferCall,
+  recordFunctionAction,
+  transferResponseFields,
+  type FunctionCallContext,
+} from './functions';
+import { functionCache } from './function-cache';
+import { logFunctionCall } from './function-logger';
+import { emptyQueryCost, trackQueryCost, withGraphQLMaxWait } from '../shopify/graphql-throttle';
+import type { CallAction } from '../supabase/db';
+import { logError } from '../utils/errors';
+
+/**
+ * Vapi Tool Registry
+ *
+ * Single source of truth for the assistant's tools: the parameter schema the
+ * assistant is given (generated from zod), argument validation, result
+ * caching, call logging, call actions and the handler. Both function routes
+ * dispatch through runVapiTool.
+ */
+
+/**
+ * What a tool returns to Vapi
+ * message is the voice-ready text the assistant should say or act on.
+ */
+export interface ToolResult {
+  message: string;
+  error?: string;
+  [key: string]: unknown;
+}
+
+interface VapiTool<S extends z.ZodType> {
+  description: string;
+  parameters: S;
+  handler: (parameters: z.output<S>, ctx: FunctionCallContext) => Promise<ToolResult>;
+  /** Runs after the rest of a batch instead of alongside it */
+  exclusive?: boolean;
+  /** Successful results are cached this long (see function-cache.ts) */
+  cacheTtlSeconds?: number;
+  /**
+   * call_actions row recorded for each call, cached or not; the call
+   * analysis reads it (see call-processor.ts)
+   */
+  action?: CallAction['action_type'];
+}
+
+function defineTool<S extends z.ZodType>(tool: VapiTool<S>): VapiTool<S> {
+  return tool;
+}
+
+export const VAPI_TOOLS = {
+  search_products: defineTool({
+    description: 'Search for products by name or keyword',
+    parameters: searchProductsParamsSchema,
+    handler: handleSearchProducts,
+    cacheTtlSeconds: 300,
+    action: 'product_search',
+  }),
+  get_products: defineTool({
+    description: 'Get a list of available products',
+    parameters: getProductsParamsSchema,
+    handler: handleGetProducts,
+    cacheTtlSeconds: 300,
+    action: 'product_search',
+  }),
+  check_availability: defineTool({
+    description:
+      'Check whether a product is in stock, optionally in a specific color, size or other option. Use it whenever the caller asks if something is available, and before confirming anything is.',
+    parameters: checkAvailabilityParamsSchema,
+    handler: handleCheckAvailability,
+    // Short-lived: inventory webhooks invalidate it, but stock moves quickly
+    cacheTtlSeconds: 60,
+    action: 'product_search',
+  }),
+  check_order_status: defineTool({
+    description:
+      'Check the fulfillment, tracking and delivery status of an order. Requires the phone number or email on the order to verify the caller, so ask for it with the order number first. Never read out more than the last four digits of a tracking number.',
+    parameters: checkOrderStatusParamsSchema,
+    handler: handleCheckOrderStatus,
+  }),
+  transfer_call: defineTool({
+    description:
+      'Transfer the caller to a human team member. If nobody is available it returns a message to read; take a message from the caller instead.',
+    parameters: transferCallParamsSchema,
+    handler: handleTransferCall,
+    // Hands the call off, so the other lookups in the turn finish first
+    exclusive: true,
+  }),
+};
+
+export type VapiToolName = keyof typeof VAPI_TOOLS;
+
+export function isVapiToolName(name: string): name is VapiToolName {
+  return Object.prototype.hasOwnProperty.call(VAPI_TOOLS, name);
+}
+
+// ============================================================================
+// Assistant Tool Definitions
+// ============================================================================
+
+/**
+ * Function definitions for createVapiAssistant, generated from the registry
+ */
+export function getVapiFunctionDefinitions(): Array<{
+  name: VapiToolName;
+  description: string;
+  parameters: Record<string, unknown>;
+}> {
+  return (Object.keys(VAPI_TOOLS) as VapiToolName[]).map(name => {
+    const tool = VAPI_TOOLS[name];
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { $schema, ...parameters } = z.toJSONSchema(tool.parameters, { io: 'input' });
+    return { name, description: tool.description, parameters };
+  });
+}
+
+/**
+ * The tool list for the assistant's system prompt, from the same
+ * descriptions and parameter docs as the function definitions
+ */
+export function describeVapiToolsForPrompt(): string {
+  return getVapiFunctionDefinitions()
+    .map(({ name, description, parameters }, idx) => {
+      const properties = (parameters.properties ?? {}) as Record<string, { description?: string }>;
+      const required = new Set((parameters.required ?? []) as string[]);
+      const params = Object.entries(properties).map(([param, schema]) => {
+        const label = required.has(param) ? param : `${param} (optional)`;
+        return schema.description ? `${label}: ${schema.description}` : label;
+      });
+
+      const line = `${idx + 1}. ${name} - ${description}`;
+      return params.length > 0 ? `${line}\n   Parameters: ${params.join('; ')}` : line;
+    })
+    .join('\n');
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+export interface ExtractedToolCall {
+  name: string;
+  args: unknown;
+  /** Set for tool-calls messages; Vapi matches results on it */
+  toolCallId?: string;
+}
+
+/**
+ * Arguments arrive as an object or, from some models, a JSON string
+ */
+function parseArguments(args: unknown): unknown {
+  if (typeof args !== 'string') return args ?? {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Every call in a tool-calls message
+ * Vapi sends the batch as toolCallList (toolCalls on older payloads).
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function extractToolCalls(body: any): ExtractedToolCall[] {
+  const list = body?.message?.toolCallList ?? body?.message?.toolCalls;
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .filter(toolCall => typeof toolCall?.function?.name === 'string')
+    .map(toolCall => ({
+      name: toolCall.function.name,
+      args: parseArguments(toolCall.function.arguments),
+      toolCallId: toolCall.id,
+    }));
+}
+
+/**
+ * Find the tool name and arguments in any of the payload shapes Vapi sends
+ * For a tool-calls batch this is the first call; use extractToolCalls for all.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function extractToolCall(body: any): ExtractedToolCall | null {
+  const [first] = extractToolCalls(body);
+  if (first) return first;
+
+  const candidates = [
+    body?.message?.functionCall && { name: body.message.functionCall.name, args: body.message.functionCall.parameters },
+    body?.toolName && { name: body.toolName, args: body.arguments },
+    body?.message?.toolName && { name: body.message.toolName, args: body.message.arguments },
+    body?.tool?.name && { name: body.tool.name, args: body.tool.arguments },
+    body?.function?.name && { name: body.function.name, args: body.function.arguments },
+    body?.message?.function?.name && { name: body.message.function.name, args: body.message.function.arguments },
+  ];
+
+  const found = candidates.find(candidate => candidate && typeof candidate.name === 'string');
+  return found ? { name: found.name, args: parseArguments(found.args) } : null;
+}
+
+interface ToolOutcome {
+  result: ToolResult;
+  /** Arguments as logged: validated when they parsed, raw otherwise */
+  parameters: unknown;
+  errorCode: string | null;
+  cacheHit: boolean;
+}
+
+/**
+ * Stable error code for the function call log, e.g. "Order not found" -> "order_not_found"
+ */
+function toErrorCode(error: string): string {
+  return error.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '').slice(0, 64) || 'error';
+}
+
+/**
+ * Record a tool call as a call action, if its tool has one
+ * Not awaited: recordFunctionAction never throws and the caller shouldn't wait.
+ */
+function recordToolAction(
+  tool: VapiTool<z.ZodType>,
+  name: VapiToolName,
+  parameters: unknown,
+  result: ToolResult,
+  ctx: FunctionCallContext
+): void {
+  if (!tool.action) return;
+  void recordFunctionAction(ctx, tool.action, { tool: name, parameters, count: result.count ?? null }, !result.error);
+}
+
+async function executeVapiTool(name: string, args: unknown, ctx: FunctionCallContext): Promise<ToolOutcome> {
+  if (!isVapiToolName(name)) {
+    console.warn(`[Vapi Tools] Unknown tool: ${name}`);
+    return {
+      result: {
+        error: `Unknown tool: ${name}`,
+        message: "I can't do that on this call. Offer to have a team member follow up.",
+      },
+      parameters: args,
+      errorCode: 'unknown_tool',
+      cacheHit: false,
+    };
+  }
+
+  const tool = VAPI_TOOLS[name] as unknown as VapiTool<z.ZodType>;
+  const parsed = tool.parameters.safeParse(args);
+
+  if (!parsed.success) {
+    const fields = Array.from(new Set(parsed.error.issues.map(issue => issue.path.join('.') || 'arguments')));
+    console.warn(`[Vapi Tools] Invalid arguments for ${name}:`, fields);
+    return {
+      result: {
+        error: 'Invalid parameters',
+        fields,
+        message: `I need a bit more information to do that. Ask the caller for: ${fields.join(', ')}.`,
+      },
+      parameters: args,
+      errorCode: 'invalid_parameters',
+      cacheHit: false,
+    };
+  }
+
+  if (tool.cacheTtlSeconds) {
+    const cached = await functionCache.get(ctx.shopId, name, parsed.data);
+    if (cached) {
+      recordToolAction(tool, name, parsed.data, cached as ToolResult, ctx);
+      return { result: cached as ToolResult, parameters: parsed.data, errorCode: null, cacheHit: true };
+    }
+  }
+
+  const result = await tool.handler(parsed.data, ctx);
+  recordToolAction(tool, name, parsed.data, result, ctx);
+
+  if (tool.cacheTtlSeconds && !result.error) {
+    // Not awaited: the caller shouldn't wait on the shared tier's write
+    void functionCache.set(ctx.shopId, name, parsed.data, result, tool.cacheTtlSeconds);
+  }
+
+  return {
+    result,
+    parameters: parsed.data,
+    errorCode: result.error ? toErrorCode(result.error) : null,
+    cacheHit: false,
+  };
+}
+
+/**
+ * Validate a tool call's arguments and run its handler
+ * Unknown tools and invalid arguments come back as results the assistant can
+ * recover from rather than errors. Every call, including failed ones, is
+ * recorded in the function call log, with the Shopify query cost it spent.
+ */
+export async function runVapiTool(
+  name: string,
+  args: unknown,
+  ctx: FunctionCallContext
+): Promise<ToolResult> {
+  const startedAt = Date.now();
+  const queryCost = emptyQueryCost();
+  let outcome: ToolOutcome;
+
+  try {
+    outcome = await trackQueryCost(queryCost, () =>
+      withGraphQLMaxWait(TOOL_GRAPHQL_MAX_WAIT_MS, () => executeVapiTool(name, args, ctx))
+    );
+  } catch (error) {
+    void logFunctionCall({
+      shopId: ctx.shopId,
+      vapiCallId: ctx.vapiCallId,
+      tool: name,
+      parameters: args,
+      result: null,
+      latencyMs: Date.now() - startedAt,
+      errorCode: 'exception',
+      queryCost: queryCost.actual,
+    });
+    throw error;
+  }
+
+  // Not awaited: logging must not add to the caller's wait
+  void logFunctionCall({
+    shopId: ctx.shopId,
+    vapiCallId: ctx.vapiCallId,
+    tool: name,
+    parameters: outcome.parameters,
+    result: outcome.result,
+    latencyMs: Date.now() - startedAt,
+    errorCode: outcome.errorCode,
+    cacheHit: outcome.cacheHit,
+    queryCost: queryCost.actual,
+  });
+
+  return outcome.result;
+}
+
+// ============================================================================
+// Batched tool-calls
+// ============================================================================
+
+/**
+ * How long one tool call may take before the turn moves on without it
+ * Kept well under Vapi's own tool timeout so the other results still arrive.
+ */
+export const TOOL_CALL_TIMEOUT_MS = 10_000;
+
+/**
+ * Longest a tool's Shopify queries wait for the cost bucket
+ * Well under TOOL_CALL_TIMEOUT_MS, so a throttled tool fails with a
+ * RateLimitError its handler can answer rather than timing out.
+ */
+const TOOL_GRAPHQL_MAX_WAIT_MS = 4_000;
+
+export interface ToolCallResult {
+  toolCallId: string;
+  name: string;
+  /** JSON-encoded ToolResult */
+  result: string;
+}
+
+export function toToolCallResult(call: ExtractedToolCall, result: ToolResult): ToolCallResult {
+  return { toolCallId: call.toolCallId ?? '', name: call.name, result: JSON.stringify(result) };
+}
+
+/**
+ * Run one tool call, turning a timeout or a thrown error into a result
+ */
+async function runWithTimeout(
+  call: ExtractedToolCall,
+  ctx: FunctionCallContext,
+  timeoutMs: number
+): Promise<ToolResult> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<ToolResult>(resolve => {
+    timer = setTimeout(() => {
+      console.warn(`[Vapi Tools] ${call.name} timed out after ${timeoutMs}ms (${call.toolCallId})`);
+      resolve({
+        error: 'Timed out',
+        message: "That's taking longer than expected. Let the caller know and offer to have a team member follow up.",
+      });
+    }, timeoutMs);
+  });
+
+  const run = runVapiTool(call.name, call.args, ctx).catch((error): ToolResult => {
+    logError(error, { context: 'run_vapi_tool', tool: call.name, toolCallId: call.toolCallId });
+    return {
+      error: 'Tool failed',
+      message: "Something went wrong on our side. Offer to have a team member follow up.",
+    };
+  });
+
+  try {
+    return await Promise.race([run, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run every call in a tool-calls message and build the response body
+ *
+ * Calls run concurrently, each with its own timeout, so one slow Shopify
+ * query can't hold up the others. Exclusive tools (transfers) run once the
+ * rest have finished. Results are keyed by toolCallId, in request order.
+ */
+export async function runVapiToolCalls(
+  calls: ExtractedToolCall[],
+  ctx: FunctionCallContext,
+  options: { timeoutMs?: number } = {}
+): Promise<{ results: ToolCallResult[] } & Record<string, unknown>> {
+  const timeoutMs = options.timeoutMs ?? TOOL_CALL_TIMEOUT_MS;
+  const isExclusive = (call: ExtractedToolCall) =>
+    isVapiToolName(call.name) && !!VAPI_TOOLS[call.name].exclusive;
+
+  const results = new Map<ExtractedToolCall, ToolResult>();
+
+  await Promise.all(
+    calls
+      .filter(call => !isExclusive(call))
+      .map(async call => results.set(call, await runWithTimeout(call, ctx, timeoutMs)))
+  );
+
+  for (const call of calls.filter(isExclusive)) {
+    results.set(call, await runWithTimeout(call, ctx, timeoutMs));
+  }
+
+  const ordered = calls.map(call => results.get(call)!);
+  const transfer = ordered.find(result => Object.keys(transferResponseFields(result)).length > 0);
+
+  return {
+    results: calls.map((call, i) => toToolCallResult(call, ordered[i])),
+    // Transfers need the destination at the top level of the response
+    ...transferResponseFields(transfer),
+  };
+}
@@ -4,16 +4,202 @@ export interface VapiWebhookPayload {
   timestamp: string;
 }
 
-export interface CallStartedData {
-  vapi_call_id: string;
-  customer_phone: string;
-  assistant_id: string;
-}
-
-export interface CallEndedData {
-  vapi_call_id: string;
-  ended_at: string;
-  duration_seconds: number;
-  end_reason: string;
-  transcript?: string;
+/**
+ * Lifecycle stage a Vapi server message maps to
+ */
+export type VapiCallEventType = 'started' | 'ended' | 'transcript' | 'status';
+
+export interface TranscriptTurn {
+  role: 'assistant' | 'customer';
+  text: string;
+  secondsFromStart: number | null;
+}
+
+/**
+ * Structured transcript stored in calls.transcript
+ */
+export interface CallTranscript {
+  text: string;
+  turns: TranscriptTurn[];
+}
+
+/**
+ * Normalized view of a Vapi call event, independent of payload shape
+ */
+export interface VapiCallEvent {
+  type: VapiCallEventType;
+  vapiCallId: string;
+  assistantId: string | null;
+  customerPhone: string | null;
+  customerName: string | null;
+  startedAt: string | null;
+  endedAt: string | null;
+  durationSeconds: number | null;
+  costCents: number | null;
+  recordingUrl: string | null;
+  transcript: CallTranscript | null;
+  endedReason: string | null;
+}
+
+// ============================================================================
+// Payload Helpers
+// ============================================================================
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function asString(...values: unknown[]): string | null {
+  for (const value of values) {
+    if (typeof value === 'string' && value.length > 0) return value;
+  }
+  return null;
+}
+
+function asNumber(...values: unknown[]): number | null {
+  for (const value of values) {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+  }
+  return null;
+}
+
+/**
+ * Map Vapi message types (legacy dotted names and current server messages)
+ * to a lifecycle stage
+ */
+function resolveEventType(type: string, status: string | null): VapiCallEventType | null {
+  switch (type) {
+    case 'call.started':
+      return 'started';
+    case 'call.ended':
+    case 'end-of-call-report':
+      return 'ended';
+    case 'transcript.available':
+      return 'transcript';
+    case 'status-update':
+      if (status === 'in-progress') return 'started';
+      if (status === 'ended') return 'ended';
+      return 'status';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build a structured transcript from Vapi artifact messages or a plain string
+ */
+export function parseTranscript(messages: unknown, fallbackText: unknown): CallTranscript | null {
+  const turns: TranscriptTurn[] = [];
+
+  if (Array.isArray(messages)) {
+    for (const entry of messages) {
+      const message = asRecord(entry);
+      if (!message) continue;
+
+      const text = asString(message.message, message.content);
+      if (!text) continue;
+
+      // Skip system prompts and tool plumbing - only the spoken conversation is kept
+      const role = message.role;
+      if (role === 'user') {
+        turns.push({ role: 'customer', text, secondsFromStart: asNumber(message.secondsFromStart) });
+      } else if (role === 'bot' || role === 'assistant') {
+        turns.push({ role: 'assistant', text, secondsFromStart: asNumber(message.secondsFromStart) });
+      }
+    }
+  }
+
+  const text =
+    asString(fallbackText) ||
+    turns.map(turn => `${turn.role === 'customer' ? 'Customer' : 'AI'}: ${turn.text}`).join('\n');
+
+  if (!text && turns.length === 0) {
+    return null;
+  }
+
+  return { text, turns };
+}
+
+/**
+ * The assistant a Vapi server message belongs to
+ * Works for any message type, including ones parseVapiCallEvent skips
+ * (e.g. transfer-destination-request).
+ */
+export function getVapiAssistantId(body: unknown): string | null {
+  const root = asRecord(body);
+  if (!root) return null;
+
+  const message = asRecord(root.message) ?? root;
+  const call = asRecord(message.call) ?? asRecord(root.call) ?? {};
+
+  return asString(
+    call.assistantId,
+    asRecord(message.assistant)?.id,
+    asRecord(root.assistant)?.id,
+    root.assistantId
+  );
+}
+
+/**
+ * Normalize a Vapi webhook body into a call event
+ * Handles both `{ message: { type, call, ... } }` and legacy top-level shapes.
+ * Returns null for messages that don't describe a call lifecycle change.
+ */
+export function parseVapiCallEvent(body: unknown): VapiCallEvent | null {
+  const root = asRecord(body);
+  if (!root) return null;
+
+  const message = asRecord(root.message) ?? root;
+  const call = asRecord(message.call) ?? asRecord(root.call) ?? {};
+  const artifact = asRecord(message.artifact) ?? {};
+  const customer = asRecord(call.customer) ?? asRecord(message.customer) ?? asRecord(root.customer) ?? {};
+
+  const rawType = asString(message.type, root.type);
+  const type = rawType
+    ? resolveEventType(rawType, asString(message.status, call.status))
+    : null;
+  if (!type) return null;
+
+  const vapiCallId = asString(call.id, message.callId, root.callId);
+  if (!vapiCallId) return null;
+
+  const startedAt = asString(
+    message.startedAt,
+    call.startedAt,
+    type === 'started' ? call.createdAt : null
+  );
+  const endedAt = asString(message.endedAt, call.endedAt);
+
+  let durationSeconds = asNumber(message.durationSeconds, call.durationSeconds, call.duration);
+  if (durationSeconds === null && startedAt && endedAt) {
+    durationSeconds = (new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 1000;
+  }
+
+  // Vapi reports cost in dollars
+  const cost = asNumber(message.cost, call.cost);
+
+  return {
+    type,
+    vapiCallId,
+    assistantId: getVapiAssistantId(root),
+    customerPhone: asString(customer.number),
+    customerName: asString(customer.name),
+    startedAt,
+    endedAt,
+    durationSeconds: durationSeconds === null ? null : Math.max(0, Math.round(durationSeconds)),
+    costCents: cost === null ? null : Math.round(cost * 100),
+    recordingUrl: asString(
+      artifact.recordingUrl,
+      message.recordingUrl,
+      call.recordingUrl,
+      root.recordingUrl
+    ),
+    transcript: parseTranscript(
+      artifact.messages ?? message.messages ?? root.transcript,
+      artifact.transcript ?? message.transcript ?? root.transcript
+    ),
+    endedReason: asString(message.endedReason, call.endedReason),
+  };
 }
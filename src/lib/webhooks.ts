@@ -1,5 +1,25 @@
 import crypto from 'crypto';
 import { env } from './env';
+import { requestAssistantSync } from './assistant-sync';
+import { syncQuotaMode } from './billing-guard';
+import { activateSubscription } from './billing/subscriptions';
+import { uninstallShop } from './shop-uninstall';
+import { exportCustomerData, redactCustomer, redactShop, type GdprCustomer } from './gdpr';
+import {
+  handleInventoryLevelUpdate as syncInventoryLevel,
+  handleProductDelete as deleteLocalProduct,
+  handleProductUpsert,
+} from './shopify/products';
+import { functionCache } from './vapi/function-cache';
+import {
+  claimWebhookEvent,
+  completeWebhookEvent,
+  getShopByDomain,
+  releaseWebhookEvent,
+  updateShop,
+  type Shop,
+} from './supabase/db';
+import { toShopLocale } from './shopify/shop';
 
 export interface WebhookPayload {
   id: string;
@@ -60,6 +80,11 @@ export function getShopFromWebhook(payload: WebhookPayload): string | null {
     return payload.domain;
   }
 
+  // GDPR compliance webhooks include shop_domain
+  if (typeof payload.shop_domain === 'string') {
+    return payload.shop_domain;
+  }
+
   // Fallback: check for shop object
   if (payload.shop && typeof payload.shop === 'object' && 'myshopify_domain' in payload.shop) {
     return (payload.shop as Record<string, unknown>).myshopify_domain as string;
@@ -70,7 +95,9 @@ export function getShopFromWebhook(payload: WebhookPayload): string | null {
 
 /**
  * Handler for app/uninstalled webhook
- * Clean up all data for the uninstalled shop
+ * Releases the shop's Vapi resources and sessions and starts the retention
+ * window before its data is purged (see shop-uninstall.ts). Steps that fail
+ * are retried by the /api/shops/cleanup sweep.
  */
 export async function handleAppUninstalled(payload: WebhookPayload, shop: string): Promise<void> {
   // Payload contains webhook metadata, currently unused but kept for future expansion
@@ -78,67 +105,215 @@ export async function handleAppUninstalled(payload: WebhookPayload, shop: string
 
   console.log(`App uninstalled for shop: ${shop}`);
 
-  // Cleanup logic (placeholder)
-  // 1. Release Vapi phone number
-  // 2. Delete receptionists
-  // 3. Delete shop record
-  // 4. Log to audit trail
+  const result = await uninstallShop(shop);
+  if (result?.failed.length) {
+    console.warn(`Uninstall cleanup incomplete for ${shop}: ${result.failed.join(', ')}`);
+  }
+}
+
+/**
+ * Resolve the shops row a webhook belongs to
+ * Webhooks for shops we have no record of (e.g. mid-install) are skipped.
+ */
+async function resolveShop(shop: string, topic: string): Promise<Shop | null> {
+  const record = await getShopByDomain(shop);
+  if (!record) {
+    console.warn(`Skipping ${topic} for unknown shop: ${shop}`);
+    return null;
+  }
+  return record;
+}
+
+/**
+ * Cached product answers and the assistant's product list are stale once
+ * the catalog changes
+ */
+async function invalidateCatalogCache(shopId: string, outcome: string): Promise<void> {
+  if (outcome !== 'stale') {
+    await functionCache.invalidateShop(shopId);
+    await requestAssistantSync(shopId, 'catalog_changed');
+  }
 }
 
 /**
  * Handler for products/create webhook
  */
 export async function handleProductCreate(payload: WebhookPayload, shop: string): Promise<void> {
-  console.log(`Product created for shop ${shop}:`, payload.id);
+  const record = await resolveShop(shop, 'products/create');
+  if (!record) return;
 
-  // Store product in database (placeholder)
-  // 1. Extract product data
-  // 2. Insert into products table
+  const outcome = await handleProductUpsert(record.id, shop, payload, record.currency);
+  await invalidateCatalogCache(record.id, outcome);
+  console.log(`Product ${payload.id} created for shop ${shop}: ${outcome}`);
 }
 
 /**
  * Handler for products/update webhook
+ * Variant prices and stock arrive with the product, so this also covers
+ * variant changes.
  */
 export async function handleProductUpdate(payload: WebhookPayload, shop: string): Promise<void> {
-  console.log(`Product updated for shop ${shop}:`, payload.id);
+  const record = await resolveShop(shop, 'products/update');
+  if (!record) return;
 
-  // Update product in database (placeholder)
-  // 1. Extract product data
-  // 2. Update products table
+  const outcome = await handleProductUpsert(record.id, shop, payload, record.currency);
+  await invalidateCatalogCache(record.id, outcome);
+  console.log(`Product ${payload.id} updated for shop ${shop}: ${outcome}`);
 }
 
 /**
  * Handler for products/delete webhook
  */
 export async function handleProductDelete(payload: WebhookPayload, shop: string): Promise<void> {
-  console.log(`Product deleted for shop ${shop}:`, payload.id);
+  const shopId = (await resolveShop(shop, 'products/delete'))?.id;
+  if (!shopId) return;
 
-  // Delete product from database (placeholder)
-  // 1. Delete from products table
+  await deleteLocalProduct(shopId, String(payload.id));
+  await invalidateCatalogCache(shopId, 'deleted');
+  console.log(`Product ${payload.id} deleted for shop ${shop}`);
+}
+
+/**
+ * Handler for inventory_levels/update webhook
+ */
+export async function handleInventoryLevelsUpdate(payload: WebhookPayload, shop: string): Promise<void> {
+  const shopId = (await resolveShop(shop, 'inventory_levels/update'))?.id;
+  if (!shopId) return;
+
+  const updated = await syncInventoryLevel(shopId, shop, payload);
+  if (updated) {
+    await functionCache.invalidateShop(shopId);
+    console.log(`Inventory updated for shop ${shop}: item ${payload.inventory_item_id}`);
+  }
 }
 
 /**
  * Handler for shop/update webhook
+ * Keeps the currency and locale prices are quoted in up to date. Synced
+ * product prices change currency with the next product sync.
  */
 export async function handleShopUpdate(payload: WebhookPayload, shop: string): Promise<void> {
-  // Payload contains updated shop data, currently unused but kept for future expansion
-  void payload;
+  const record = await resolveShop(shop, 'shop/update');
+  if (!record) return;
+
+  const currency = typeof payload.currency === 'string' ? payload.currency : record.currency;
+  const locale = toShopLocale(
+    typeof payload.primary_locale === 'string' ? payload.primary_locale : record.locale,
+    typeof payload.country_code === 'string' ? payload.country_code : null
+  );
+
+  if (currency !== record.currency || locale !== record.locale) {
+    await updateShop(record.id, { currency, locale });
+    await functionCache.invalidateShop(record.id);
+    await requestAssistantSync(record.id, 'shop_updated');
+  }
+
+  console.log(`Shop updated: ${shop} (${currency}, ${locale})`);
+}
+
+/**
+ * Handler for app_subscriptions/update webhook
+ * Keeps the shop's plan in step with its Shopify subscription: activations
+ * (including downgrades that apply at the next billing cycle) switch the plan,
+ * and cancelling or freezing the current subscription stops service.
+ */
+export async function handleAppSubscriptionsUpdate(payload: WebhookPayload, shop: string): Promise<void> {
+  const subscription = payload.app_subscription as
+    | { admin_graphql_api_id?: string; name?: string; status?: string }
+    | undefined;
+
+  if (!subscription?.admin_graphql_api_id || !subscription.status) {
+    console.warn(`Subscription update for ${shop} without subscription details`);
+    return;
+  }
+
+  const record = await getShopByDomain(shop);
+  if (!record || record.uninstalled_at) {
+    console.warn(`Subscription update for unknown or uninstalled shop: ${shop}`);
+    return;
+  }
+
+  const subscriptionId = subscription.admin_graphql_api_id;
+  const status = subscription.status.toUpperCase();
+  console.log(`Subscription ${subscriptionId} for ${shop} is ${status}`);
+
+  if (status === 'ACTIVE') {
+    const updated = await activateSubscription(record, subscriptionId);
+    if (updated !== record) {
+      await syncQuotaMode(updated);
+    }
+    return;
+  }
+
+  // Replaced subscriptions are cancelled too - only the current one matters
+  if (subscriptionId !== record.subscription_id) return;
+
+  if (status === 'CANCELLED' || status === 'EXPIRED' || status === 'DECLINED') {
+    const updated = await updateShop(record.id, { subscription_status: 'cancelled' });
+    await syncQuotaMode(updated);
+  } else if (status === 'FROZEN') {
+    const updated = await updateShop(record.id, { subscription_status: 'suspended' });
+    await syncQuotaMode(updated);
+  }
+}
+
+/**
+ * Handler for customers/data_request webhook (GDPR)
+ */
+export async function handleCustomersDataRequest(payload: WebhookPayload, shop: string): Promise<void> {
+  const customer = (payload.customer || {}) as GdprCustomer;
+  const dataRequest = payload.data_request as { id?: string | number } | undefined;
+
+  await exportCustomerData(shop, customer, dataRequest?.id);
+}
 
-  console.log(`Shop updated: ${shop}`);
+/**
+ * Handler for customers/redact webhook (GDPR)
+ */
+export async function handleCustomersRedact(payload: WebhookPayload, shop: string): Promise<void> {
+  await redactCustomer(shop, (payload.customer || {}) as GdprCustomer);
+}
 
-  // Update shop information (placeholder)
-  // 1. Extract shop data (name, email, plan, etc.)
-  // 2. Update shops table
+/**
+ * Handler for shop/redact webhook (GDPR)
+ */
+export async function handleShopRedact(payload: WebhookPayload, shop: string): Promise<void> {
+  void payload;
+  await redactShop(shop);
 }
 
 /**
  * Routes webhook to appropriate handler
+ * With a webhook ID (X-Shopify-Webhook-Id) each delivery is handled at most
+ * once: redeliveries are skipped, and a failed handler releases the ID so a
+ * retry can run again.
  */
 export async function routeWebhook(
   topic: string,
   payload: WebhookPayload,
-  shop: string
+  shop: string,
+  webhookId?: string | null
 ): Promise<void> {
+  if (webhookId && !(await claimWebhookEvent(webhookId, shop, topic))) {
+    console.log(`Skipping duplicate webhook ${webhookId} (${topic}) for ${shop}`);
+    return;
+  }
+
+  try {
+    await dispatchWebhook(topic, payload, shop);
+  } catch (error) {
+    if (webhookId) {
+      await releaseWebhookEvent(webhookId).catch(() => undefined);
+    }
+    throw error;
+  }
+
+  if (webhookId) {
+    await completeWebhookEvent(webhookId);
+  }
+}
+
+async function dispatchWebhook(topic: string, payload: WebhookPayload, shop: string): Promise<void> {
   switch (topic) {
     case 'app/uninstalled':
       await handleAppUninstalled(payload, shop);
@@ -156,10 +331,30 @@ export async function routeWebhook(
       await handleProductDelete(payload, shop);
       break;
 
+    case 'inventory_levels/update':
+      await handleInventoryLevelsUpdate(payload, shop);
+      break;
+
     case 'shop/update':
       await handleShopUpdate(payload, shop);
       break;
 
+    case 'app_subscriptions/update':
+      await handleAppSubscriptionsUpdate(payload, shop);
+      break;
+
+    case 'customers/data_request':
+      await handleCustomersDataRequest(payload, shop);
+      break;
+
+    case 'customers/redact':
+      await handleCustomersRedact(payload, shop);
+      break;
+
+    case 'shop/redact':
+      await handleShopRedact(payload, shop);
+      break;
+
     default:
       console.warn(`Unhandled webhook topic: ${topic}`);
   }